@@ -23,6 +23,11 @@ export default function HomePage() {
           <h2 className="font-medium">Flows</h2>
           <p className="text-sm text-neutral-600">Multi-entity screens (generated from profile.json).</p>
         </Link>
+
+        <Link href="/orchestrations" className="rounded border p-4 hover:bg-neutral-50">
+          <h2 className="font-medium">Orchestrations</h2>
+          <p className="text-sm text-neutral-600">Generation runs: status, node timeline and artifacts.</p>
+        </Link>
       </section>
 
       <section className="rounded border p-4">
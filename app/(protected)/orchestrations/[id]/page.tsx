@@ -0,0 +1,210 @@
+// path: app/(protected)/orchestrations/[id]/page.tsx
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { api } from "../../../../lib/trpc";
+import { useOrchestrationProgress } from "../../../../lib/realtime/client";
+import { Button } from "../../../../components/ui/button";
+import { useToast } from "../../../../components/ui/toast";
+import { StatusBadge } from "../../../../components/orchestrations/StatusBadge";
+
+// Statuses that accept a pause request; paused runs can still be cancelled
+const PAUSABLE = new Set(["pending", "running"]);
+const RETRYABLE = new Set(["failed", "paused", "partially_complete"]);
+
+function duration(start: Date | null, end: Date | null) {
+  if (!start || !end) return "—";
+  return `${end.getTime() - start.getTime()} ms`;
+}
+
+export default function OrchestrationDetailPage() {
+  const params = useParams<{ id: string }>();
+  const id = decodeURIComponent(params.id);
+  const { push, element } = useToast();
+  const utils = api.useUtils();
+
+  const { data, isLoading, error } = api.orchestrations.get.useQuery({ id });
+  const artifacts = api.orchestrations.artifacts.useQuery({ id });
+  const sign = api.orchestrations.signArtifact.useMutation();
+  const pause = api.orchestrations.pause.useMutation();
+  const cancel = api.orchestrations.cancel.useMutation();
+  const retry = api.orchestrations.retry.useMutation();
+
+  // Refresh from the database whenever the engine reports progress
+  const progress = useOrchestrationProgress(id);
+  React.useEffect(() => {
+    if (!progress.lastEventAt) return;
+    void utils.orchestrations.get.invalidate({ id });
+    void utils.orchestrations.artifacts.invalidate({ id });
+  }, [progress.lastEventAt, id, utils]);
+
+  const stop = async (action: "pause" | "cancel") => {
+    try {
+      await (action === "pause" ? pause : cancel).mutateAsync({ id });
+      await utils.orchestrations.get.invalidate({ id });
+      push(action === "pause" ? "Pause requested" : "Cancel requested");
+    } catch (err: any) {
+      push(String(err?.message ?? "Request failed"));
+    }
+  };
+
+  const requeue = async () => {
+    try {
+      await retry.mutateAsync({ id });
+      await utils.orchestrations.get.invalidate({ id });
+      push("Retry queued");
+    } catch (err: any) {
+      push(String(err?.message ?? "Retry failed"));
+    }
+  };
+
+  const download = async (path: string) => {
+    try {
+      const { url } = await sign.mutateAsync({ id, path });
+      window.open(url, "_blank", "noopener");
+    } catch (err: any) {
+      push(String(err?.message ?? "Download failed"));
+    }
+  };
+
+  if (error) {
+    return <p className="p-4 text-sm text-red-700">{error.message}</p>;
+  }
+  if (isLoading || !data) {
+    return <p className="p-4 text-sm text-neutral-500">Loading…</p>;
+  }
+
+  const { orchestration, timeline } = data;
+  const canPause = PAUSABLE.has(orchestration.status);
+  const canCancel = canPause || orchestration.status === "paused";
+  const canRetry = RETRYABLE.has(orchestration.status);
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 py-8 space-y-6">
+      {element}
+      <div className="space-y-1">
+        <Link href="/orchestrations" className="text-sm underline">
+          ← All orchestrations
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-semibold">{orchestration.id}</h1>
+          <StatusBadge status={orchestration.status} />
+        </div>
+        {orchestration.statusReason ? (
+          <p className="text-sm text-neutral-600">
+            {orchestration.statusReason}
+          </p>
+        ) : null}
+        <p className="font-mono text-xs text-neutral-500">
+          {orchestration.planHash ?? "no plan hash yet"}
+        </p>
+      </div>
+
+      {canCancel || canRetry ? (
+        <div className="flex gap-2">
+          {canRetry ? (
+            <Button disabled={retry.isPending} onClick={requeue}>
+              Retry
+            </Button>
+          ) : null}
+          {canPause ? (
+            <Button
+              variant="outline"
+              disabled={pause.isPending}
+              onClick={() => stop("pause")}
+            >
+              Pause
+            </Button>
+          ) : null}
+          {canCancel ? (
+            <Button
+              variant="outline"
+              disabled={cancel.isPending}
+              onClick={() => stop("cancel")}
+            >
+              Cancel
+            </Button>
+          ) : null}
+        </div>
+      ) : null}
+
+      <section className="space-y-3">
+        <h2 className="font-medium">Timeline</h2>
+        {timeline.map((batch) => (
+          <div key={batch.index} className="rounded border">
+            <div className="border-b bg-neutral-50 px-3 py-2 text-sm font-medium">
+              Batch {batch.index + 1}
+            </div>
+            <ul className="divide-y">
+              {batch.nodes.map((node) => (
+                <li key={node.nodeId} className="px-3 py-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono">{node.nodeId}</span>
+                    <span className="flex items-center gap-2">
+                      <span className="text-xs text-neutral-500">
+                        {node.attempts.length} attempt
+                        {node.attempts.length === 1 ? "" : "s"}
+                      </span>
+                      <StatusBadge status={node.status} />
+                    </span>
+                  </div>
+                  {node.attempts.some((a) => a.error) ||
+                  node.attempts.length > 1 ? (
+                    <details className="mt-1">
+                      <summary className="cursor-pointer text-xs text-neutral-600">
+                        Attempt history
+                      </summary>
+                      <ol className="mt-1 space-y-1 text-xs">
+                        {node.attempts.map((a) => (
+                          <li key={a.attemptNo}>
+                            <span className="font-medium">#{a.attemptNo}</span>{" "}
+                            {a.status} · {duration(a.startedAt, a.finishedAt)}
+                            {a.error ? (
+                              <pre className="mt-1 whitespace-pre-wrap rounded bg-red-50 p-2 text-red-800">
+                                {a.error.name}: {a.error.message}
+                              </pre>
+                            ) : null}
+                          </li>
+                        ))}
+                      </ol>
+                    </details>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="font-medium">Artifacts</h2>
+        {artifacts.data && artifacts.data.length > 0 ? (
+          <ul className="divide-y rounded border text-sm">
+            {artifacts.data.map((a) => (
+              <li
+                key={a.path}
+                className="flex items-center justify-between px-3 py-2"
+              >
+                <span className="font-mono text-xs">{a.path}</span>
+                <span className="flex items-center gap-3">
+                  <span className="text-xs text-neutral-500">{a.size} B</span>
+                  <Button
+                    variant="ghost"
+                    disabled={sign.isPending}
+                    onClick={() => download(a.path)}
+                  >
+                    Download
+                  </Button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-neutral-600">No artifacts yet.</p>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,109 @@
+// path: app/(protected)/orchestrations/page.tsx
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { api } from "../../../lib/trpc";
+import { Button } from "../../../components/ui/button";
+import { StatusBadge } from "../../../components/orchestrations/StatusBadge";
+
+export default function OrchestrationsPage() {
+  const [cursors, setCursors] = React.useState<(Date | undefined)[]>([
+    undefined,
+  ]);
+  const before = cursors[cursors.length - 1];
+  const { data, isLoading, error } = api.orchestrations.list.useQuery({
+    limit: 20,
+    before,
+  });
+  const usage = api.usage.summary.useQuery();
+  const runsToday = usage.data?.daily.find((m) => m.metric === "runs");
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 py-8 space-y-4">
+      <div className="flex items-baseline justify-between">
+        <h1 className="text-2xl font-semibold">Orchestrations</h1>
+        {runsToday ? (
+          <p className="text-sm text-neutral-600">
+            Today: {runsToday.used}/{runsToday.limit ?? "∞"} runs
+            {usage.data?.exceeded ? " · quota reached" : null}
+          </p>
+        ) : null}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-700">{error.message}</p>
+      ) : isLoading ? (
+        <p className="text-sm text-neutral-500">Loading…</p>
+      ) : !data || data.items.length === 0 ? (
+        <p className="text-sm text-neutral-600">No orchestrations yet.</p>
+      ) : (
+        <div className="overflow-auto rounded-md border">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b bg-neutral-50 text-left">
+                <th className="px-3 py-2 font-medium">Run</th>
+                <th className="px-3 py-2 font-medium">Status</th>
+                <th className="px-3 py-2 font-medium">Plan hash</th>
+                <th className="px-3 py-2 font-medium">Started</th>
+                <th className="px-3 py-2 font-medium">Updated</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.items.map((o) => (
+                <tr key={o.id} className="border-b hover:bg-neutral-50">
+                  <td className="px-3 py-2">
+                    <Link
+                      className="underline"
+                      href={`/orchestrations/${encodeURIComponent(o.id)}`}
+                    >
+                      {o.id}
+                    </Link>
+                    <div className="text-xs text-neutral-500">
+                      {o.blueprintId}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <StatusBadge status={o.status} />
+                    {o.statusReason ? (
+                      <div className="max-w-xs truncate text-xs text-neutral-500">
+                        {o.statusReason}
+                      </div>
+                    ) : null}
+                  </td>
+                  <td
+                    className="px-3 py-2 font-mono text-xs"
+                    title={o.planHash ?? ""}
+                  >
+                    {o.planHash ? o.planHash.slice(0, 17) : "—"}
+                  </td>
+                  <td className="px-3 py-2">{o.createdAt.toLocaleString()}</td>
+                  <td className="px-3 py-2">{o.updatedAt.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          disabled={cursors.length === 1}
+          onClick={() => setCursors((c) => c.slice(0, -1))}
+        >
+          Newer
+        </Button>
+        <Button
+          variant="outline"
+          disabled={!data?.nextCursor}
+          onClick={() =>
+            data?.nextCursor && setCursors((c) => [...c, data.nextCursor])
+          }
+        >
+          Older
+        </Button>
+      </div>
+    </main>
+  );
+}
@@ -12,6 +12,7 @@ export function Header() {
           <Link href="/home" className="underline-offset-4 hover:underline">Home</Link>
           <Link href="/uploads" className="underline-offset-4 hover:underline">Uploads</Link>
           <Link href="/flows" className="underline-offset-4 hover:underline">Flows</Link>
+          <Link href="/orchestrations" className="underline-offset-4 hover:underline">Orchestrations</Link>
         </nav>
       </div>
     </header>
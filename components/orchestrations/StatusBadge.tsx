@@ -0,0 +1,27 @@
+// path: components/orchestrations/StatusBadge.tsx
+"use client";
+import * as React from "react";
+
+const tones: Record<string, string> = {
+  pending: "bg-neutral-100 text-neutral-700",
+  running: "bg-blue-100 text-blue-800",
+  paused: "bg-amber-100 text-amber-800",
+  complete: "bg-green-100 text-green-800",
+  partially_complete: "bg-orange-100 text-orange-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-neutral-200 text-neutral-600",
+  skipped: "bg-neutral-100 text-neutral-500",
+};
+
+/** Colored pill for orchestration and node statuses. */
+export function StatusBadge({ status }: { status: string }) {
+  return (
+    <span
+      className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${
+        tones[status] ?? tones.pending
+      }`}
+    >
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,426 @@
+// path: engine/OrchestrationEngine.test.ts
+/**
+ * Engine tests, run with `pnpm test` against a local JSON store in a
+ * temporary directory (see testHarness.ts).
+ */
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { z } from "zod";
+import {
+  DEFAULT_QUOTA_PLAN,
+  OrchestrationError,
+  type FailurePolicy,
+  type OrchestrationId,
+  type QuotaPlan,
+  type UsageLimits,
+} from "./OrchestrationEngine";
+import { defineMapNode, defineNode, type ProfileView } from "./nodeSdk";
+import { blueprintOf, execute, TEST_USER, withEngine } from "./testHarness";
+
+type ProbeOptions = {
+  fail?: boolean;
+  onFailure?: FailurePolicy;
+  when?: (profile: ProfileView) => boolean;
+  output?: Record<string, unknown>;
+  delayMs?: number;
+};
+
+// Nodes that record the input they ran with, failing when asked to
+function createProbe() {
+  const inputs = new Map<string, Record<string, unknown>>();
+  const node = (id: string, options: ProbeOptions = {}) =>
+    defineNode({
+      id,
+      phase: "execute",
+      input: z.record(z.string(), z.unknown()),
+      output: z.record(z.string(), z.unknown()),
+      onFailure: options.onFailure,
+      when: options.when,
+      async run(input) {
+        inputs.set(id, input);
+        if (options.delayMs) {
+          await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+        }
+        if (options.fail) throw new Error(`${id} failed`);
+        return options.output ?? { [id]: "done" };
+      },
+    });
+  return { inputs, node };
+}
+
+// Counts node and child runs in progress, remembering the most at once
+function createGauge() {
+  const gauge = {
+    running: 0,
+    peak: 0,
+    async hold() {
+      gauge.running++;
+      gauge.peak = Math.max(gauge.peak, gauge.running);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      gauge.running--;
+    },
+  };
+  return gauge;
+}
+
+type Gauge = ReturnType<typeof createGauge>;
+
+const mapNode = (id: string, gauge: Gauge) =>
+  defineMapNode({
+    id,
+    phase: "execute",
+    input: z.object({}),
+    output: z.object({ count: z.number() }),
+    items: () => ["a", "b", "c", "d"].map((key) => ({ key, item: { key } })),
+    each: {
+      output: z.object({ key: z.string() }),
+      async run(item: { key: string }) {
+        await gauge.hold();
+        return { key: item.key };
+      },
+    },
+    async run({ results }) {
+      return { count: Object.keys(results).length };
+    },
+  });
+
+const plainNode = (id: string, gauge: Gauge) =>
+  defineNode({
+    id,
+    phase: "execute",
+    input: z.object({}),
+    output: z.object({ done: z.boolean() }),
+    async run() {
+      await gauge.hold();
+      return { done: true };
+    },
+  });
+
+test("map node children stay within the concurrency limits", async () => {
+  await withEngine({ global: 2, perOrchestration: 2 }, async ({ engine }) => {
+    const gauge = createGauge();
+    const result = await execute(
+      engine,
+      blueprintOf("fan-out-limits", [
+        mapNode("map.one", gauge),
+        mapNode("map.two", gauge),
+      ]),
+    );
+
+    assert.equal(result.status, "complete");
+    assert.ok(gauge.peak <= 2, `${gauge.peak} children ran at once (limit 2)`);
+  });
+});
+
+test("concurrent runs share the global limit, map children included", async () => {
+  await withEngine({ global: 3, perOrchestration: 2 }, async ({ engine }) => {
+    const gauge = createGauge();
+    const runs = ["run-one", "run-two"].map((id) =>
+      execute(
+        engine,
+        blueprintOf(id, [
+          mapNode("map.one", gauge),
+          plainNode("plain.one", gauge),
+          mapNode("map.two", gauge),
+        ]),
+      ),
+    );
+    const results = await Promise.all(runs);
+
+    assert.deepEqual(
+      results.map((r) => r.status),
+      ["complete", "complete"],
+    );
+    assert.ok(gauge.peak <= 3, `${gauge.peak} ran at once (global limit 3)`);
+  });
+});
+
+test("a pause stops a map node from starting its remaining children", async () => {
+  await withEngine({ perOrchestration: 1 }, async ({ engine }) => {
+    const started: string[] = [];
+    const id = "fan-out-pause" as OrchestrationId;
+    const blueprint = blueprintOf(id, [
+      defineMapNode({
+        id: "map",
+        phase: "execute",
+        input: z.object({}),
+        output: z.object({ keys: z.array(z.string()) }),
+        items: () => ["a", "b", "c"].map((key) => ({ key, item: { key } })),
+        each: {
+          output: z.object({ key: z.string() }),
+          async run(item: { key: string }) {
+            started.push(item.key);
+            if (item.key === "a") await engine.pause(id, "paused by a");
+            return { key: item.key };
+          },
+        },
+        async run({ results }) {
+          return { keys: Object.keys(results) };
+        },
+      }),
+    ]);
+
+    const paused = await execute(engine, blueprint);
+    assert.equal(paused.status, "paused");
+    assert.deepEqual(started, ["a"]);
+
+    // Resume runs only the children that never started
+    const resumed = await engine.resume({
+      orchestrationId: id,
+      userId: TEST_USER,
+      blueprint,
+      input: {},
+    });
+    assert.equal(resumed.status, "complete");
+    assert.deepEqual(started, ["a", "b", "c"]);
+  });
+});
+
+test("a failed optional node does not fail the run", async () => {
+  await withEngine({}, async ({ engine }) => {
+    const probe = createProbe();
+    const result = await execute(
+      engine,
+      blueprintOf(
+        "optional-failure",
+        [
+          probe.node("flaky", { fail: true, onFailure: "optional" }),
+          probe.node("after"),
+          probe.node("aside"),
+        ],
+        [{ from: "flaky", to: "after" }],
+      ),
+    );
+
+    assert.equal(result.status, "partially_complete");
+    assert.deepEqual(result.failedNodes, [
+      { nodeId: "flaky", error: "flaky failed" },
+    ]);
+    assert.deepEqual(result.skippedNodes, []);
+    // Dependents run anyway, without the failed node's output
+    assert.deepEqual(probe.inputs.get("after"), { upstream: {} });
+    assert.ok(probe.inputs.has("aside"));
+  });
+});
+
+test("continue skips only the failed node's dependents", async () => {
+  await withEngine({}, async ({ engine, repository }) => {
+    const probe = createProbe();
+    const result = await execute(
+      engine,
+      blueprintOf(
+        "continue-failure",
+        [
+          probe.node("broken", { fail: true, onFailure: "continue" }),
+          probe.node("child"),
+          probe.node("grandchild"),
+          probe.node("independent"),
+          probe.node("downstream"),
+        ],
+        [
+          { from: "broken", to: "child" },
+          { from: "child", to: "grandchild" },
+          { from: "independent", to: "downstream" },
+        ],
+      ),
+    );
+
+    assert.equal(result.status, "partially_complete");
+    assert.deepEqual(
+      result.failedNodes.map((f) => f.nodeId),
+      ["broken"],
+    );
+    assert.deepEqual(result.skippedNodes, [
+      { nodeId: "child", reason: "depends on failed node broken" },
+      { nodeId: "grandchild", reason: "depends on failed node broken" },
+    ]);
+    assert.deepEqual([...probe.inputs.keys()].sort(), [
+      "broken",
+      "downstream",
+      "independent",
+    ]);
+    const record = await repository.getOrchestration(
+      "continue-failure" as OrchestrationId,
+    );
+    assert.equal(record?.status, "partially_complete");
+  });
+});
+
+test("fail-fast stops the run at the first failure", async () => {
+  await withEngine({}, async ({ engine, repository }) => {
+    const probe = createProbe();
+    await assert.rejects(
+      execute(
+        engine,
+        blueprintOf(
+          "fail-fast-failure",
+          [
+            probe.node("broken", { fail: true }),
+            probe.node("child"),
+            probe.node("slow", { delayMs: 30 }),
+            probe.node("after-slow"),
+          ],
+          [
+            { from: "broken", to: "child" },
+            { from: "slow", to: "after-slow" },
+          ],
+        ),
+      ),
+      /broken failed/,
+    );
+
+    // Nodes ready after the failure never start
+    assert.ok(!probe.inputs.has("child"));
+    assert.ok(!probe.inputs.has("after-slow"));
+    const record = await repository.getOrchestration(
+      "fail-fast-failure" as OrchestrationId,
+    );
+    assert.equal(record?.status, "failed");
+  });
+});
+
+test("a false `when` skips the node and everything downstream of it", async () => {
+  await withEngine({}, async ({ engine, repository }) => {
+    const probe = createProbe();
+    const profile = { id: "app", search: false };
+    const result = await execute(
+      engine,
+      blueprintOf(
+        "when-skips",
+        [
+          probe.node("profile", { output: { profile } }),
+          probe.node("search", { when: (p) => p.search === true }),
+          probe.node("search.index"),
+          probe.node("pages", { when: (p) => p.id === "app" }),
+          probe.node("report"),
+        ],
+        [
+          { from: "profile", to: "search" },
+          { from: "search", to: "search.index" },
+          { from: "profile", to: "pages" },
+          { from: "search.index", to: "report" },
+          { from: "pages", to: "report" },
+        ],
+      ),
+    );
+
+    // Skips are not failures
+    assert.equal(result.status, "complete");
+    assert.deepEqual(result.failedNodes, []);
+    assert.deepEqual(
+      Object.fromEntries(result.skippedNodes.map((s) => [s.nodeId, s.reason])),
+      {
+        search: "not required by the profile",
+        "search.index": "depends on skipped node search",
+        report: "depends on skipped node search.index",
+      },
+    );
+    assert.deepEqual([...probe.inputs.keys()].sort(), ["pages", "profile"]);
+    // A sibling of the skipped node sees only the outputs that exist
+    assert.deepEqual(probe.inputs.get("pages"), {
+      profile,
+      upstream: { profile: { profile } },
+    });
+
+    const statuses = Object.fromEntries(
+      (await repository.listNodeResults("when-skips" as OrchestrationId)).map(
+        (r) => [r.nodeId, r.status],
+      ),
+    );
+    assert.deepEqual(statuses, {
+      pages: "complete",
+      profile: "complete",
+      report: "skipped",
+      search: "skipped",
+      "search.index": "skipped",
+    });
+  });
+});
+
+// One node charging a fixed estimate, so each run adds known usage
+const chargingRun = (id: string, usage: { tokens: number; usd: number }) =>
+  blueprintOf(id, [
+    defineNode({
+      id: "charge",
+      phase: "execute",
+      input: z.object({}),
+      output: z.object({ run: z.string() }),
+      // Every run is charged, none served from the node cache
+      cache: false,
+      estimate: () => usage,
+      async run() {
+        return { run: id };
+      },
+    }),
+  ]);
+
+const plan = (
+  daily: Partial<UsageLimits>,
+  monthly: Partial<UsageLimits> = {},
+): QuotaPlan => {
+  const unlimited = { runs: null, tokens: null, usdCents: null };
+  return {
+    id: "test",
+    name: "Test",
+    daily: { ...unlimited, ...daily },
+    monthly: { ...unlimited, ...monthly },
+  };
+};
+
+const quotaExceeded = (message: RegExp) => (error: unknown) =>
+  error instanceof OrchestrationError &&
+  error.code === "QUOTA_EXCEEDED" &&
+  message.test(error.message);
+
+test("runs over the daily run limit are rejected", async () => {
+  await withEngine({ plan: plan({ runs: 2 }) }, async ({ engine }) => {
+    const usage = { tokens: 1, usd: 1 };
+    await execute(engine, chargingRun("runs-1", usage));
+    await execute(engine, chargingRun("runs-2", usage));
+    await assert.rejects(
+      execute(engine, chargingRun("runs-3", usage)),
+      quotaExceeded(/^Daily quota exceeded: 2\/2 runs$/),
+    );
+  });
+});
+
+test("runs over the token or USD limit are rejected", async () => {
+  await withEngine({ plan: plan({ tokens: 500 }) }, async ({ engine }) => {
+    await execute(engine, chargingRun("tokens-1", { tokens: 600, usd: 1 }));
+    await assert.rejects(
+      execute(engine, chargingRun("tokens-2", { tokens: 1, usd: 1 })),
+      quotaExceeded(/^Daily quota exceeded: 600\/500 tokens$/),
+    );
+  });
+  await withEngine({ plan: plan({}, { usdCents: 2 }) }, async ({ engine }) => {
+    await execute(engine, chargingRun("usd-1", { tokens: 1, usd: 3 }));
+    await assert.rejects(
+      execute(engine, chargingRun("usd-2", { tokens: 1, usd: 1 })),
+      quotaExceeded(/^Monthly quota exceeded: \$0\.03\/\$0\.02$/),
+    );
+  });
+});
+
+test("a null limit means unlimited", async () => {
+  await withEngine({ plan: plan({}) }, async ({ engine }) => {
+    const usage = { tokens: 150_000, usd: 400 };
+    for (const id of ["free-1", "free-2", "free-3"]) {
+      const result = await execute(engine, chargingRun(id, usage));
+      assert.equal(result.status, "complete");
+    }
+  });
+});
+
+test("users without a plan get the default plan", async () => {
+  await withEngine({}, async ({ engine, repository }) => {
+    const usage = await repository.getUsage(TEST_USER);
+    assert.deepEqual(usage.plan, DEFAULT_QUOTA_PLAN);
+
+    const usd = { tokens: 1, usd: DEFAULT_QUOTA_PLAN.daily.usdCents! };
+    await execute(engine, chargingRun("default-1", usd));
+    await assert.rejects(
+      execute(engine, chargingRun("default-2", { tokens: 1, usd: 1 })),
+      quotaExceeded(/^Daily quota exceeded: \$5\.00\/\$5\.00$/),
+    );
+  });
+});
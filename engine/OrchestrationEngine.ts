@@ -15,16 +15,17 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
+import { createHash } from "crypto";
 
 // ============= TYPE DEFINITIONS =============
 
 // Branded types for type safety
-type OrchestrationId = string & { readonly brand: unique symbol };
-type NodeId = string & { readonly brand: unique symbol };
-type UserId = string & { readonly brand: unique symbol };
-type IdempotencyKey = string & { readonly brand: unique symbol };
-type TokenCount = number & { readonly brand: unique symbol };
-type USDCents = number & { readonly brand: unique symbol };
+export type OrchestrationId = string & { readonly brand: unique symbol };
+export type NodeId = string & { readonly brand: unique symbol };
+export type UserId = string & { readonly brand: unique symbol };
+export type IdempotencyKey = string & { readonly brand: unique symbol };
+export type TokenCount = number & { readonly brand: unique symbol };
+export type USDCents = number & { readonly brand: unique symbol };
 
 // Core domain types
 export type Phase =
@@ -48,16 +49,73 @@ export type OrchestrationStatus =
   | "running"
   | "complete"
   | "failed"
-  | "cancelled";
+  | "paused"
+  | "cancelled"
+  // Finished, but some nodes failed under a non-fail-fast policy
+  | "partially_complete";
+
+// Ways to stop a running orchestration: "pause" lets in-flight nodes finish
+// and keeps the checkpoint for resume(); "cancel" aborts them for good.
+export type StopAction = "pause" | "cancel";
+
+// What a node failure does to the rest of the run (after retries):
+// - "fail-fast": no new nodes start and the run fails (default)
+// - "continue": the node's dependents are skipped, independent nodes go on
+// - "optional": dependents run anyway, without the node's output
+// Both non-fail-fast policies end the run as "partially_complete".
+export type FailurePolicy = "fail-fast" | "continue" | "optional";
 
 // Node specification with strongly typed I/O
+// (declare nodes with defineNode from engine/nodeSdk.ts)
 export interface NodeSpec<TInput = unknown, TOutput = unknown> {
   id: NodeId;
   phase: Phase;
-  run: (input: TInput, ctx: ExecutionContext) => Promise<TOutput>;
-  estimate?: (input: TInput) => { tokens: TokenCount; usd: USDCents };
+  input?: z.ZodType<TInput>; // parsed before run
+  output?: z.ZodType<TOutput>; // validated after run
+  run(input: TInput, ctx: ExecutionContext): Promise<TOutput>;
+  estimate?(input: TInput): { tokens: TokenCount; usd: USDCents };
   retry?: RetryConfig;
   timeout?: number; // milliseconds
+  version?: string; // bump when generated output changes; invalidates cache
+  cache?: boolean; // reuse results of identical earlier runs (default true)
+  // Run only when this holds for the profile (see resolveProfile); otherwise
+  // the node and everything downstream of it is skipped
+  when?(profile: Record<string, unknown>): boolean;
+  // Map node: `input` parses the upstream input, which is expanded into one
+  // child per item; `run` is the fan-in and receives a FanInInput
+  fanOut?: FanOutSpec;
+  // Overrides Blueprint.failurePolicy for this node
+  onFailure?: FailurePolicy;
+}
+
+/**
+ * Per-item expansion of a map node (defineMapNode in nodeSdk.ts). When the
+ * node's batch is reached, `expand` turns its parsed input into items and each
+ * item runs as child node `<id>[<key>]` with its own retries, timeout, cache
+ * entry, checkpoint entry and result row. Children are not part of the
+ * blueprint, so the plan hash doesn't change with the number of items.
+ */
+export interface FanOutSpec {
+  expand(input: unknown): FanOutItem[];
+  child: Omit<NodeSpec, "id" | "phase" | "when" | "fanOut" | "onFailure">;
+}
+
+export interface FanOutItem {
+  // Unique per expansion; names the child node
+  key: string;
+  // The child's input; JSON-serializable so it can key the node cache
+  input: unknown;
+}
+
+// Fan-in input of a map node: its parsed input and the children's outputs,
+// keyed by item key in expansion order
+export interface FanInInput<TInput = unknown, TItemOutput = unknown> {
+  input: TInput;
+  results: Record<string, TItemOutput>;
+}
+
+export function fanOutChildId(parentId: NodeId, key: string): NodeId {
+  return `${parentId}[${key}]` as NodeId;
 }
 
 // Blueprint definition for orchestration DAG
@@ -68,6 +126,26 @@ export interface Blueprint {
   nodes: NodeSpec[];
   edges: Array<{ from: NodeId; to: NodeId }>;
   metadata?: Record<string, unknown>;
+  // Policy for nodes without their own onFailure (default "fail-fast")
+  failurePolicy?: FailurePolicy;
+}
+
+// Outputs of completed nodes, keyed by the producing node
+export type NodeOutputs = Record<NodeId, unknown>;
+
+// Input handed to a node that has predecessors: the outputs of all its
+// ancestors merged into one object, plus the raw outputs keyed by node id.
+export type UpstreamInput = Record<string, unknown> & {
+  upstream: NodeOutputs;
+};
+
+// Dataflow state persisted in Checkpoint.stateBlob
+export interface DataflowState {
+  input: Record<string, unknown>;
+  outputs: NodeOutputs;
+  // Nodes skipped by a `when` predicate or a skipped ancestor; they are also
+  // in Checkpoint.completedNodes but have no output
+  skipped: NodeId[];
 }
 
 // Execution context passed to nodes
@@ -80,6 +158,12 @@ export interface ExecutionContext {
   storage: StorageAdapter;
   checkpoint: CheckpointManager;
   budget: BudgetTracker;
+  signal: AbortSignal; // aborted when the orchestration is cancelled
+  outbox: OutboxRecorder; // side effects committed together with the node result
+  // One of the user's own orchestrations, or null for unknown ids and other
+  // users' runs. Storage is not scoped to the user: check before reading
+  // another run's artifacts.
+  findOwnOrchestration(id: string): Promise<OrchestrationRecord | null>;
 }
 
 // Checkpoint for resumable execution
@@ -92,7 +176,7 @@ export interface Checkpoint {
 }
 
 // Serializable checkpoint for JSON storage
-type SerializableCheckpoint = Omit<
+export type SerializableCheckpoint = Omit<
   Checkpoint,
   "completedNodes" | "updatedAt"
 > & {
@@ -121,12 +205,18 @@ export interface EngineConfig {
   maxAttemptsPerNode: number;
   defaultNodeTimeoutMs: number;
   budget: BudgetConfig;
+  // How often a run checks for pause/cancel requests persisted by other
+  // processes (default 2000ms)
+  stopPollIntervalMs?: number;
+  // Skip nodes whose cache key matches an earlier successful run (default true)
+  nodeCache?: boolean;
 }
 
 // ============= VALIDATION SCHEMAS =============
 
 const NodeIdSchema = z.string().min(1);
 const EdgeSchema = z.object({ from: NodeIdSchema, to: NodeIdSchema });
+const FailurePolicySchema = z.enum(["fail-fast", "continue", "optional"]);
 
 const BlueprintSchema = z.object({
   id: z.string(),
@@ -145,9 +235,17 @@ const BlueprintSchema = z.object({
         "integrate",
         "finalize",
       ]),
+      onFailure: FailurePolicySchema.optional(),
     }),
   ),
   edges: z.array(EdgeSchema),
+  failurePolicy: FailurePolicySchema.optional(),
+});
+
+// Estimates are whole tokens and whole USD cents
+const EstimateSchema = z.object({
+  tokens: z.number().int().nonnegative(),
+  usd: z.number().int().nonnegative(),
 });
 
 const BudgetConfigSchema = z.object({
@@ -174,6 +272,14 @@ export function validateBlueprint(bp: Blueprint): void {
       );
     }
     nodeIds.add(node.id);
+
+    // Brackets are reserved for the children of map nodes
+    if (/[[\]]/.test(node.id)) {
+      throw new ValidationError(
+        `Node ID ${node.id} must not contain brackets`,
+        new z.ZodError([]),
+      );
+    }
   }
 
   // Validate edges
@@ -218,7 +324,7 @@ export class OrchestrationError extends Error {
 
 export class BudgetExceededError extends OrchestrationError {
   constructor(
-    public readonly budgetType: "usd" | "tokens" | "time",
+    public readonly budgetType: BudgetType,
     public readonly used: number,
     public readonly limit: number,
     orchestrationId: OrchestrationId,
@@ -241,6 +347,21 @@ export class ValidationError extends OrchestrationError {
   }
 }
 
+export class OrchestrationStoppedError extends OrchestrationError {
+  constructor(
+    public readonly action: StopAction,
+    orchestrationId: OrchestrationId,
+    public readonly reason?: string,
+  ) {
+    super(
+      `Orchestration ${action === "cancel" ? "cancelled" : "paused"}${reason ? `: ${reason}` : ""}`,
+      action === "cancel" ? "CANCELLED" : "PAUSED",
+      orchestrationId,
+      { action, reason },
+    );
+  }
+}
+
 // ============= DEPENDENCY RESOLVER (Tarjan + Kahn) =============
 
 export class DependencyResolver {
@@ -373,6 +494,175 @@ export class DependencyResolver {
 
     return batches;
   }
+
+  /**
+   * Collect the transitive predecessors of every node
+   * Ancestors are listed in execution (batch) order, so nearer ancestors come last
+   * Time complexity: O(V * (V + E))
+   */
+  getAncestors(
+    blueprint: Blueprint,
+    batches: NodeId[][],
+  ): Map<NodeId, NodeId[]> {
+    const order = new Map<NodeId, number>();
+    batches.flat().forEach((nodeId, i) => order.set(nodeId, i));
+
+    const predecessors = new Map<NodeId, NodeId[]>();
+    for (const node of blueprint.nodes) {
+      predecessors.set(node.id, []);
+    }
+    for (const edge of blueprint.edges) {
+      predecessors.get(edge.to)?.push(edge.from);
+    }
+
+    const ancestors = new Map<NodeId, NodeId[]>();
+    for (const node of blueprint.nodes) {
+      const seen = new Set<NodeId>();
+      const stack = [...(predecessors.get(node.id) || [])];
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (seen.has(current)) continue;
+        seen.add(current);
+        stack.push(...(predecessors.get(current) || []));
+      }
+      ancestors.set(
+        node.id,
+        [...seen].sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0)),
+      );
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * The chain of dependent nodes with the largest total duration: the run's
+   * wall-clock time with unlimited concurrency. Nodes without a duration
+   * (skipped, or completed before a resume) count as zero.
+   * Time complexity: O(V + E)
+   */
+  getCriticalPath(
+    blueprint: Blueprint,
+    batches: NodeId[][],
+    durations: Map<NodeId, number>,
+  ): { durationMs: number; nodeIds: NodeId[] } {
+    const predecessors = new Map<NodeId, NodeId[]>();
+    for (const edge of blueprint.edges) {
+      predecessors.set(edge.to, [
+        ...(predecessors.get(edge.to) || []),
+        edge.from,
+      ]);
+    }
+
+    // Longest finish time per node, in topological (batch) order
+    const finish = new Map<NodeId, number>();
+    const via = new Map<NodeId, NodeId>();
+    let last: NodeId | undefined;
+    for (const nodeId of batches.flat()) {
+      let start = 0;
+      let from: NodeId | undefined;
+      for (const pred of predecessors.get(nodeId) || []) {
+        const predFinish = finish.get(pred) ?? 0;
+        if (from === undefined || predFinish > start) {
+          start = predFinish;
+          from = pred;
+        }
+      }
+      if (from !== undefined) via.set(nodeId, from);
+      finish.set(nodeId, start + (durations.get(nodeId) ?? 0));
+      if (last === undefined || finish.get(nodeId)! > finish.get(last)!) {
+        last = nodeId;
+      }
+    }
+
+    const nodeIds: NodeId[] = [];
+    for (let at = last; at !== undefined; at = via.get(at)) {
+      nodeIds.unshift(at);
+    }
+    return { durationMs: last ? finish.get(last)! : 0, nodeIds };
+  }
+}
+
+// ============= DATAFLOW =============
+
+/**
+ * Build the input for a node from the outputs of its ancestors.
+ * Root nodes receive the orchestration input unchanged; every other node
+ * receives its ancestors' object outputs shallow-merged (nearer ancestors
+ * win on key collisions) together with the raw outputs under `upstream`.
+ */
+export function resolveNodeInput(
+  ancestors: NodeId[],
+  input: Record<string, unknown>,
+  outputs: NodeOutputs,
+): Record<string, unknown> | UpstreamInput {
+  if (ancestors.length === 0) return input;
+
+  const upstream: NodeOutputs = {};
+  const merged: Record<string, unknown> = {};
+  for (const ancestorId of ancestors) {
+    if (!(ancestorId in outputs)) continue;
+    const output = outputs[ancestorId];
+    upstream[ancestorId] = output;
+    if (output && typeof output === "object" && !Array.isArray(output)) {
+      Object.assign(merged, output);
+    }
+  }
+
+  return { ...merged, upstream };
+}
+
+/**
+ * The profile a node's `when` predicate is evaluated against: the `profile`
+ * output of an upstream node (profile.normalize) when there is one, otherwise
+ * the node's input, which for root nodes is the orchestration input.
+ */
+export function resolveProfile(
+  nodeInput: Record<string, unknown>,
+): Record<string, unknown> {
+  const profile = nodeInput.profile;
+  return profile && typeof profile === "object" && !Array.isArray(profile)
+    ? (profile as Record<string, unknown>)
+    : nodeInput;
+}
+
+/**
+ * Why a node should not run, or null when it should: skips propagate from
+ * the nearest skipped ancestor, then the node's own `when` predicate decides.
+ */
+export function getSkipReason(
+  node: NodeSpec,
+  ancestors: NodeId[],
+  skipped: ReadonlySet<NodeId>,
+  nodeInput: Record<string, unknown>,
+): string | null {
+  const skippedAncestor = [...ancestors].reverse().find((a) => skipped.has(a));
+  if (skippedAncestor) return `depends on skipped node ${skippedAncestor}`;
+  if (node.when && !node.when(resolveProfile(nodeInput))) {
+    return "not required by the profile";
+  }
+  return null;
+}
+
+/**
+ * Read the dataflow state from a checkpoint blob, tolerating older
+ * checkpoints that only stored the orchestration input
+ */
+export function readDataflowState(
+  stateBlob: Record<string, unknown>,
+  fallbackInput: Record<string, unknown>,
+): DataflowState {
+  const input =
+    stateBlob.input && typeof stateBlob.input === "object"
+      ? (stateBlob.input as Record<string, unknown>)
+      : fallbackInput;
+  const outputs =
+    stateBlob.outputs && typeof stateBlob.outputs === "object"
+      ? { ...(stateBlob.outputs as NodeOutputs) }
+      : {};
+  const skipped = Array.isArray(stateBlob.skipped)
+    ? [...(stateBlob.skipped as NodeId[])]
+    : [];
+  return { input, outputs, skipped };
 }
 
 // ============= TASK POOL (Semaphore) =============
@@ -441,6 +731,7 @@ export function calculateBackoff(
 export async function retry<T>(
   fn: () => Promise<T>,
   config: RetryConfig,
+  shouldRetry: (error: Error) => boolean = () => true,
 ): Promise<T> {
   let lastError: Error | undefined;
 
@@ -450,7 +741,7 @@ export async function retry<T>(
     } catch (error) {
       lastError = error as Error;
 
-      if (attempt === config.maxAttempts) {
+      if (attempt === config.maxAttempts || !shouldRetry(lastError)) {
         throw lastError;
       }
 
@@ -468,6 +759,24 @@ export async function retry<T>(
   throw lastError;
 }
 
+// Validation failures are deterministic and stops are deliberate;
+// retrying either only burns budget
+export function isRetryable(error: unknown): boolean {
+  return !(
+    error instanceof ValidationError ||
+    error instanceof OrchestrationStoppedError
+  );
+}
+
+// Budget overruns and stops end the run whatever the failing node's
+// FailurePolicy says
+export function isRunFatal(error: unknown): boolean {
+  return (
+    error instanceof BudgetExceededError ||
+    error instanceof OrchestrationStoppedError
+  );
+}
+
 // ============= LOGGER =============
 
 export interface LogEvent {
@@ -539,6 +848,123 @@ export class StructuredLogger implements Logger {
   }
 }
 
+// ============= EVENT BUS =============
+
+export type BudgetType = "usd" | "tokens" | "time";
+
+// Typed progress events; `at` is an ISO timestamp added by the bus
+export type OrchestrationEvent = {
+  orchestrationId: OrchestrationId;
+  at: string;
+} & (
+  | {
+      type: "orchestration.started";
+      planHash: string;
+      totalBatches: number;
+      totalNodes: number;
+      resumedFromBatch: number;
+    }
+  | {
+      type: "orchestration.finished";
+      status: OrchestrationStatus;
+      reason?: string;
+    }
+  | {
+      type: "batch.started";
+      batchIndex: number;
+      totalBatches: number;
+      nodeIds: NodeId[];
+    }
+  | {
+      type: "node.attempt.started";
+      nodeId: NodeId;
+      attemptNo: number;
+      maxAttempts: number;
+    }
+  | {
+      type: "node.attempt.failed";
+      nodeId: NodeId;
+      attemptNo: number;
+      error: string;
+      willRetry: boolean;
+    }
+  | {
+      type: "node.completed";
+      nodeId: NodeId;
+      attempts: number;
+      cached: boolean;
+      durationMs: number;
+    }
+  | { type: "node.skipped"; nodeId: NodeId; reason: string }
+  | {
+      type: "budget.warning";
+      budgetType: BudgetType;
+      used: number;
+      limit: number;
+    }
+  | { type: "artifact.saved"; nodeId: NodeId; path: string }
+);
+
+export type OrchestrationEventType = OrchestrationEvent["type"];
+
+// An event as handed to emit(), before the bus stamps it
+export type OrchestrationEventInput = OrchestrationEvent extends infer E
+  ? E extends OrchestrationEvent
+    ? Omit<E, "at">
+    : never
+  : never;
+
+export type OrchestrationEventListener = (
+  event: OrchestrationEvent,
+) => void | Promise<void>;
+
+/**
+ * In-process fan-out of orchestration events to subscribers (UI adapters,
+ * tests, log shippers). Listener failures are logged and never fail a run.
+ */
+export class EventBus {
+  private readonly listeners = new Set<OrchestrationEventListener>();
+
+  constructor(
+    private readonly logger: Logger = new StructuredLogger({
+      correlationId: "event-bus",
+    }),
+  ) {}
+
+  /** Returns an unsubscribe function */
+  subscribe(listener: OrchestrationEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(input: OrchestrationEventInput): void {
+    const event = {
+      ...input,
+      at: new Date().toISOString(),
+    } as OrchestrationEvent;
+
+    for (const listener of this.listeners) {
+      try {
+        Promise.resolve(listener(event)).catch((error) =>
+          this.reportListenerError(event, error),
+        );
+      } catch (error) {
+        this.reportListenerError(event, error);
+      }
+    }
+  }
+
+  private reportListenerError(event: OrchestrationEvent, error: unknown) {
+    this.logger.warn("Event listener failed", {
+      type: event.type,
+      orchestrationId: event.orchestrationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 // ============= METRICS =============
 
 export interface MetricsCollector {
@@ -609,26 +1035,84 @@ export class SimpleMetricsCollector implements MetricsCollector {
 
 // ============= BUDGET TRACKER =============
 
+// Shared by a run's tracker and its scopes
+interface BudgetState {
+  usedTokens: TokenCount;
+  usedUsd: USDCents;
+  startTime: number;
+  warned: Set<BudgetType>;
+}
+
 export class BudgetTracker {
-  private usedTokens: TokenCount = 0 as TokenCount;
-  private usedUsd: USDCents = 0 as USDCents;
-  private startTime: number = Date.now();
+  // What was tracked through this tracker (or scope) itself
+  private readonly tracked = { tokens: 0, usd: 0 };
 
   constructor(
     private readonly config: BudgetConfig,
     private readonly orchestrationId: OrchestrationId,
+    private readonly state: BudgetState = {
+      usedTokens: 0 as TokenCount,
+      usedUsd: 0 as USDCents,
+      startTime: Date.now(),
+      warned: new Set(),
+    },
   ) {}
 
+  private get usedTokens(): TokenCount {
+    return this.state.usedTokens;
+  }
+
+  private get usedUsd(): USDCents {
+    return this.state.usedUsd;
+  }
+
+  private get startTime(): number {
+    return this.state.startTime;
+  }
+
+  private get warned(): Set<BudgetType> {
+    return this.state.warned;
+  }
+
   async trackTokens(tokens: TokenCount): Promise<void> {
-    this.usedTokens = (this.usedTokens + tokens) as TokenCount;
+    this.state.usedTokens = (this.state.usedTokens + tokens) as TokenCount;
+    this.tracked.tokens += tokens;
     await this.ensureWithinBudget();
   }
 
   async trackUsd(cents: USDCents): Promise<void> {
-    this.usedUsd = (this.usedUsd + cents) as USDCents;
+    this.state.usedUsd = (this.state.usedUsd + cents) as USDCents;
+    this.tracked.usd += cents;
     await this.ensureWithinBudget();
   }
 
+  /**
+   * A tracker that charges the same budget but counts its own usage, so the
+   * engine can tell what one node attempt reported (see getTracked).
+   */
+  scope(): BudgetTracker {
+    return new BudgetTracker(this.config, this.orchestrationId, this.state);
+  }
+
+  getTracked(): { tokens: TokenCount; usd: USDCents } {
+    return {
+      tokens: this.tracked.tokens as TokenCount,
+      usd: this.tracked.usd as USDCents,
+    };
+  }
+
+  // Give back a charge that turned out not to be spent (an estimate replaced
+  // by metered usage)
+  refund(tokens: TokenCount, usd: USDCents): void {
+    this.state.usedTokens = Math.max(
+      0,
+      this.state.usedTokens - tokens,
+    ) as TokenCount;
+    this.state.usedUsd = Math.max(0, this.state.usedUsd - usd) as USDCents;
+    this.tracked.tokens -= tokens;
+    this.tracked.usd -= usd;
+  }
+
   async ensureWithinBudget(): Promise<void> {
     // Check token budget
     if (this.usedTokens > this.config.maxTokens) {
@@ -674,6 +1158,38 @@ export class BudgetTracker {
     }
   }
 
+  /**
+   * Budgets whose usage crossed `threshold` (a fraction of the limit) since
+   * the last call; each budget type is reported at most once
+   */
+  takeWarnings(
+    threshold: number = 0.8,
+  ): Array<{ budgetType: BudgetType; used: number; limit: number }> {
+    const usage: Array<{
+      budgetType: BudgetType;
+      used: number;
+      limit: number;
+    }> = [
+      {
+        budgetType: "tokens",
+        used: this.usedTokens,
+        limit: this.config.maxTokens,
+      },
+      { budgetType: "usd", used: this.usedUsd, limit: this.config.maxUsd },
+      {
+        budgetType: "time",
+        used: Date.now() - this.startTime,
+        limit: this.config.maxWallClockMs,
+      },
+    ];
+
+    const crossed = usage.filter(
+      (u) => !this.warned.has(u.budgetType) && u.used >= u.limit * threshold,
+    );
+    for (const u of crossed) this.warned.add(u.budgetType);
+    return crossed;
+  }
+
   getUsage() {
     return {
       tokens: this.usedTokens,
@@ -687,7 +1203,10 @@ export class BudgetTracker {
 // ============= STORAGE ADAPTER =============
 
 export interface StorageAdapter {
-  saveArtifact(path: string, content: Buffer | string): Promise<string>;
+  saveArtifact(path: string, content: Uint8Array | string): Promise<string>;
+  copyArtifact(fromPath: string, toPath: string): Promise<string>;
+  /** UTF-8 content of an artifact, or null when there is none */
+  readArtifact(path: string): Promise<string | null>;
   getSignedUrl(path: string, expiresIn?: number): Promise<string>;
   listArtifacts(prefix: string): Promise<string[]>;
 }
@@ -698,7 +1217,10 @@ export class SupabaseStorageAdapter implements StorageAdapter {
     private readonly bucket: string = "artifacts",
   ) {}
 
-  async saveArtifact(path: string, content: Buffer | string): Promise<string> {
+  async saveArtifact(
+    path: string,
+    content: Uint8Array | string,
+  ): Promise<string> {
     const { error } = await this.supabase.storage
       .from(this.bucket)
       .upload(path, content, { upsert: true });
@@ -707,6 +1229,29 @@ export class SupabaseStorageAdapter implements StorageAdapter {
     return path;
   }
 
+  async copyArtifact(fromPath: string, toPath: string): Promise<string> {
+    if (fromPath === toPath) return toPath;
+    // download + upload instead of storage.copy, which refuses to overwrite
+    const { data, error } = await this.supabase.storage
+      .from(this.bucket)
+      .download(fromPath);
+
+    if (error) throw new Error(`Failed to copy artifact: ${error.message}`);
+    return this.saveArtifact(toPath, new Uint8Array(await data.arrayBuffer()));
+  }
+
+  async readArtifact(path: string): Promise<string | null> {
+    const { data, error } = await this.supabase.storage
+      .from(this.bucket)
+      .download(path);
+
+    if (error) {
+      if (/not found/i.test(error.message)) return null;
+      throw new Error(`Failed to read artifact: ${error.message}`);
+    }
+    return data.text();
+  }
+
   async getSignedUrl(path: string, expiresIn: number = 900): Promise<string> {
     const { data, error } = await this.supabase.storage
       .from(this.bucket)
@@ -726,28 +1271,91 @@ export class SupabaseStorageAdapter implements StorageAdapter {
   }
 }
 
+// Wraps a StorageAdapter to remember which artifacts a node wrote
+export class RecordingStorageAdapter implements StorageAdapter {
+  readonly written: string[] = [];
+
+  constructor(
+    private readonly inner: StorageAdapter,
+    private readonly onSaved?: (path: string) => void,
+  ) {}
+
+  async saveArtifact(
+    path: string,
+    content: Uint8Array | string,
+  ): Promise<string> {
+    const saved = await this.inner.saveArtifact(path, content);
+    this.record(path);
+    return saved;
+  }
+
+  async copyArtifact(fromPath: string, toPath: string): Promise<string> {
+    const saved = await this.inner.copyArtifact(fromPath, toPath);
+    this.record(toPath);
+    return saved;
+  }
+
+  readArtifact(path: string): Promise<string | null> {
+    return this.inner.readArtifact(path);
+  }
+
+  getSignedUrl(path: string, expiresIn?: number): Promise<string> {
+    return this.inner.getSignedUrl(path, expiresIn);
+  }
+
+  listArtifacts(prefix: string): Promise<string[]> {
+    return this.inner.listArtifacts(prefix);
+  }
+
+  private record(path: string): void {
+    if (!this.written.includes(path)) this.written.push(path);
+    this.onSaved?.(path);
+  }
+}
+
 // ============= CHECKPOINT MANAGER =============
 
-export class CheckpointManager {
+export interface CheckpointManager {
+  save(checkpoint: Checkpoint): Promise<void>;
+  load(): Promise<Checkpoint | null>;
+  markNodeComplete(nodeId: NodeId): Promise<void>;
+}
+
+// Convert Set/Date fields for JSON storage
+export function serializeCheckpoint(
+  checkpoint: Checkpoint,
+): SerializableCheckpoint {
+  return {
+    phase: checkpoint.phase,
+    batchIndex: checkpoint.batchIndex,
+    completedNodes: Array.from(checkpoint.completedNodes),
+    stateBlob: checkpoint.stateBlob,
+    updatedAt: checkpoint.updatedAt.toISOString(),
+  };
+}
+
+// Reconstruct Set/Date fields from JSON storage
+export function deserializeCheckpoint(raw: SerializableCheckpoint): Checkpoint {
+  return {
+    phase: raw.phase,
+    batchIndex: raw.batchIndex,
+    completedNodes: new Set<NodeId>((raw.completedNodes || []) as NodeId[]),
+    stateBlob: raw.stateBlob,
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
+
+export class SupabaseCheckpointManager implements CheckpointManager {
   constructor(
     private readonly supabase: SupabaseClient,
     private readonly orchestrationId: OrchestrationId,
   ) {}
 
   async save(checkpoint: Checkpoint): Promise<void> {
-    // Convert Set to Array for JSON serialization
-    const serializable: SerializableCheckpoint = {
-      phase: checkpoint.phase,
-      batchIndex: checkpoint.batchIndex,
-      completedNodes: Array.from(checkpoint.completedNodes),
-      stateBlob: checkpoint.stateBlob,
-      updatedAt: checkpoint.updatedAt.toISOString(),
-    };
-
     const { error } = await this.supabase
       .from("orchestrations")
       .update({
-        checkpoint: serializable,
+        checkpoint: serializeCheckpoint(checkpoint),
         updated_at: new Date().toISOString(),
       })
       .eq("id", this.orchestrationId);
@@ -764,16 +1372,7 @@ export class CheckpointManager {
 
     if (error || !data?.checkpoint) return null;
 
-    const raw = data.checkpoint as SerializableCheckpoint;
-
-    // Reconstruct Set from Array
-    return {
-      phase: raw.phase,
-      batchIndex: raw.batchIndex,
-      completedNodes: new Set<NodeId>((raw.completedNodes || []) as NodeId[]),
-      stateBlob: raw.stateBlob,
-      updatedAt: new Date(raw.updatedAt),
-    };
+    return deserializeCheckpoint(data.checkpoint as SerializableCheckpoint);
   }
 
   async markNodeComplete(nodeId: NodeId): Promise<void> {
@@ -788,65 +1387,476 @@ export class CheckpointManager {
   }
 }
 
-// ============= PLAN HASH UTILITY =============
+// ============= ENGINE BACKEND =============
+
+// Supplies the per-orchestration storage and checkpoint adapters
+export interface EngineBackend {
+  createStorage(orchestrationId: OrchestrationId): StorageAdapter;
+  createCheckpointManager(orchestrationId: OrchestrationId): CheckpointManager;
+}
+
+export class SupabaseBackend implements EngineBackend {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly bucket: string = "artifacts",
+  ) {}
+
+  createStorage(_orchestrationId: OrchestrationId): StorageAdapter {
+    return new SupabaseStorageAdapter(this.supabase, this.bucket);
+  }
+
+  createCheckpointManager(orchestrationId: OrchestrationId): CheckpointManager {
+    return new SupabaseCheckpointManager(this.supabase, orchestrationId);
+  }
+}
+
+// ============= HASHING & NODE CACHE =============
+
+// JSON with object keys sorted, so equal values always hash the same
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+        )
+      : v,
+  );
+}
+
+function sha256(payload: string): string {
+  return createHash("sha256").update(payload, "utf8").digest("hex");
+}
 
 export function computePlanHash(
   blueprint: Blueprint,
   batches: NodeId[][],
 ): string {
   // Create a deterministic representation of the plan
-  const payload = JSON.stringify({
+  const payload = stableStringify({
     blueprintId: blueprint.id,
     blueprintVersion: blueprint.version,
     nodes: blueprint.nodes
       .map((n) => ({ id: n.id, phase: n.phase }))
       .sort((a, b) => a.id.localeCompare(b.id)),
     edges: blueprint.edges.map((e) => `${e.from}->${e.to}`).sort(),
-    batches: batches.map((batch) => batch.sort()),
+    batches: batches.map((batch) => [...batch].sort()),
   });
 
-  // Simple hash function for MVP (consider crypto.subtle.digest for production)
-  let hash = 0;
-  for (let i = 0; i < payload.length; i++) {
-    hash = (Math.imul(31, hash) + payload.charCodeAt(i)) | 0;
-  }
-  return `plan_${(hash >>> 0).toString(16)}`;
+  return `plan_${sha256(payload)}`;
 }
 
-// ============= REPOSITORY =============
+/**
+ * Nodes write artifacts under `artifacts/<orchestrationId>/`, so outputs and
+ * artifact lists embed the orchestration id. Rewrite those prefixes to move
+ * a cached result from one orchestration to another.
+ */
+export function relocateArtifactPaths<T>(
+  value: T,
+  fromOrchestrationId: string,
+  toOrchestrationId: string,
+): T {
+  const from = `artifacts/${fromOrchestrationId}/`;
+  const to = `artifacts/${toOrchestrationId}/`;
+  if (from === to) return value;
+
+  const walk = (v: unknown): unknown => {
+    if (typeof v === "string") return v.split(from).join(to);
+    if (Array.isArray(v)) return v.map(walk);
+    if (v && typeof v === "object") {
+      return Object.fromEntries(
+        Object.entries(v).map(([k, child]) => [k, walk(child)]),
+      );
+    }
+    return v;
+  };
+  return walk(value) as T;
+}
 
-// ============= REPOSITORY =============
+/**
+ * Content-addressed key for a node run: SHA-256 over the node id, its
+ * version and its input (which carries the upstream outputs it reads).
+ * Artifact paths are normalized so identical work in another orchestration
+ * produces the same key.
+ */
+export function computeNodeCacheKey(
+  node: NodeSpec,
+  input: unknown,
+  orchestrationId: OrchestrationId,
+): string {
+  return sha256(
+    stableStringify({
+      nodeId: node.id,
+      version: node.version ?? null,
+      input: relocateArtifactPaths(input, orchestrationId, "{orchestration}"),
+    }),
+  );
+}
 
-export interface Repository {
-  createOrchestration(args: {
-    id: OrchestrationId;
-    userId: UserId;
-    blueprintId: string;
-    idempotencyKey?: IdempotencyKey;
-    planHash?: string;
-    metadata?: Record<string, unknown>;
-    correlationId: string;
-  }): Promise<void>;
+// ============= OUTBOX =============
+
+// A side effect recorded in the same transaction as a state change and
+// delivered at least once afterwards by the outbox dispatcher (lib/outbox.ts).
+// Delivery is deduplicated on uniqueKey.
+export type OutboxMessage =
+  | {
+      kind: "webhook";
+      uniqueKey: string;
+      payload: {
+        url: string;
+        body: unknown;
+        headers?: Record<string, string>;
+      };
+    }
+  | {
+      kind: "realtime";
+      uniqueKey: string;
+      payload: {
+        entity: string;
+        event: string;
+        payload: Record<string, unknown>;
+      };
+    }
+  | {
+      kind: "job";
+      uniqueKey: string;
+      payload: {
+        jobName: string;
+        payload: unknown;
+        delaySeconds?: number;
+        priority?: number;
+        maxAttempts?: number;
+        orchestrationId?: string;
+      };
+    };
 
-  updateStatus(
-    id: OrchestrationId,
-    status: OrchestrationStatus,
-    statusReason?: string,
-  ): Promise<void>;
+export type OutboxKind = OutboxMessage["kind"];
 
-  saveNodeResult(args: {
-    orchestrationId: OrchestrationId;
-    nodeId: NodeId;
-    status: NodeStatus;
-    attemptNo: number;
-    startedAt?: Date;
-    finishedAt?: Date;
-    output?: unknown;
-    error?: Error;
-    correlationId: string;
-  }): Promise<void>;
+export interface OutboxRecorder {
+  record(message: OutboxMessage): void;
+}
 
-  savePlanHash(id: OrchestrationId, planHash: string): Promise<void>;
+/**
+ * Messages recorded during one node attempt. Keys are prefixed with the
+ * scope (orchestration and node), so a retried or resumed node that records
+ * the same message again is deduplicated; a failed attempt's messages are
+ * simply dropped.
+ */
+export class OutboxBuffer implements OutboxRecorder {
+  private readonly recorded: OutboxMessage[] = [];
+
+  constructor(private readonly scope: string) {}
+
+  record(message: OutboxMessage): void {
+    this.recorded.push({
+      ...message,
+      uniqueKey: `${this.scope}:${message.uniqueKey}`,
+    });
+  }
+
+  get messages(): OutboxMessage[] {
+    return [...this.recorded];
+  }
+}
+
+// outbox rows as accepted by the write_with_outbox() SQL function
+export function toOutboxRows(messages: OutboxMessage[]) {
+  return messages.map((m) => ({
+    kind: m.kind,
+    payload: m.payload,
+    unique_key: m.uniqueKey,
+  }));
+}
+
+// ============= QUOTAS =============
+
+// null means unlimited
+export interface UsageLimits {
+  runs: number | null;
+  tokens: number | null;
+  usdCents: number | null;
+}
+
+// A row of quota_plans; users without a user_plans row get the default plan
+export interface QuotaPlan {
+  id: string;
+  name: string;
+  daily: UsageLimits;
+  monthly: UsageLimits;
+}
+
+export interface UsageTotals {
+  runs: number;
+  tokens: number;
+  usdCents: number;
+}
+
+// Consumption for the current UTC day and month (from usage_aggregates)
+export interface UsageSummary {
+  plan: QuotaPlan;
+  day: string; // YYYY-MM-DD
+  month: string; // YYYY-MM
+  daily: UsageTotals;
+  monthly: UsageTotals;
+}
+
+export interface QuotaViolation {
+  period: "daily" | "monthly";
+  metric: keyof UsageTotals;
+  used: number;
+  limit: number;
+}
+
+// Mirrors the is_default row seeded by 0008_usage_quotas.sql
+export const DEFAULT_QUOTA_PLAN: QuotaPlan = {
+  id: "free",
+  name: "Free",
+  daily: { runs: 10, tokens: 500_000, usdCents: 500 },
+  monthly: { runs: 100, tokens: 5_000_000, usdCents: 2_000 },
+};
+
+export function emptyUsageTotals(): UsageTotals {
+  return { runs: 0, tokens: 0, usdCents: 0 };
+}
+
+/** First limit the user has reached, if any. A reached limit blocks new runs. */
+export function findQuotaViolation(usage: UsageSummary): QuotaViolation | null {
+  for (const period of ["daily", "monthly"] as const) {
+    for (const metric of ["runs", "tokens", "usdCents"] as const) {
+      const limit = usage.plan[period][metric];
+      const used = usage[period][metric];
+      if (limit !== null && used >= limit) {
+        return { period, metric, used, limit };
+      }
+    }
+  }
+  return null;
+}
+
+export function describeQuotaViolation(violation: QuotaViolation): string {
+  const unit =
+    violation.metric === "usdCents"
+      ? `$${(violation.used / 100).toFixed(2)}/$${(violation.limit / 100).toFixed(2)}`
+      : `${violation.used}/${violation.limit} ${violation.metric}`;
+  const period = violation.period === "daily" ? "Daily" : "Monthly";
+  return `${period} quota exceeded: ${unit}`;
+}
+
+// ============= REPOSITORY =============
+
+// An orchestrations row as the engine and API layers see it
+export interface OrchestrationRecord {
+  id: OrchestrationId;
+  userId: UserId;
+  blueprintId: string;
+  status: OrchestrationStatus;
+  statusReason: string | null;
+  planHash: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The orchestrations columns needed to build an OrchestrationRecord
+export interface OrchestrationRow {
+  id: string;
+  user_id: string;
+  blueprint_id: string;
+  status: OrchestrationStatus;
+  status_reason: string | null;
+  plan_hash: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function toOrchestrationRecord(
+  row: OrchestrationRow,
+): OrchestrationRecord {
+  return {
+    id: row.id as OrchestrationId,
+    userId: row.user_id as UserId,
+    blueprintId: row.blueprint_id,
+    status: row.status,
+    statusReason: row.status_reason,
+    planHash: row.plan_hash,
+    metadata: row.metadata,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+// A successful node run that can stand in for an identical one
+export interface CachedNodeResult {
+  orchestrationId: OrchestrationId;
+  output: unknown;
+  artifacts: string[];
+}
+
+// One attempt of a node, as stored in orchestration_nodes
+export interface NodeResultRecord {
+  nodeId: NodeId;
+  status: NodeStatus;
+  attemptNo: number;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  error: { message: string; name: string; stack?: string } | null;
+}
+
+// The orchestration_nodes columns needed to build a NodeResultRecord
+export interface NodeResultRow {
+  node_id: string;
+  status: NodeStatus;
+  attempt_no: number;
+  started_at: string | null;
+  finished_at: string | null;
+  error: { message: string; name: string; stack?: string } | null;
+}
+
+export function toNodeResultRecord(row: NodeResultRow): NodeResultRecord {
+  return {
+    nodeId: row.node_id as NodeId,
+    status: row.status,
+    attemptNo: row.attempt_no,
+    startedAt: row.started_at ? new Date(row.started_at) : null,
+    finishedAt: row.finished_at ? new Date(row.finished_at) : null,
+    error: row.error,
+  };
+}
+
+// A quota_plans row; usd columns are dollars (numeric)
+export interface QuotaPlanRow {
+  id: string;
+  name: string;
+  daily_runs: number | null;
+  daily_tokens: number | null;
+  daily_usd: number | string | null;
+  monthly_runs: number | null;
+  monthly_tokens: number | null;
+  monthly_usd: number | string | null;
+}
+
+function dollarsToCents(value: number | string): number {
+  // numeric(12,4) dollars are whole hundredths of a cent
+  return Math.round(Number(value) * 10_000) / 100;
+}
+
+export function toQuotaPlan(row: QuotaPlanRow): QuotaPlan {
+  const cents = (usd: number | string | null) =>
+    usd === null ? null : dollarsToCents(usd);
+  return {
+    id: row.id,
+    name: row.name,
+    daily: {
+      runs: row.daily_runs,
+      tokens: row.daily_tokens,
+      usdCents: cents(row.daily_usd),
+    },
+    monthly: {
+      runs: row.monthly_runs,
+      tokens: row.monthly_tokens,
+      usdCents: cents(row.monthly_usd),
+    },
+  };
+}
+
+// The usage_aggregates columns needed to build a UsageSummary
+export interface UsageRow {
+  day: string;
+  orchestrations_started: number;
+  tokens_used: number;
+  usd_spent: number | string;
+}
+
+/** Sum a user's usage rows into today's and this month's totals (UTC). */
+export function toUsageSummary(
+  plan: QuotaPlan,
+  rows: UsageRow[],
+  now: Date,
+): UsageSummary {
+  const day = now.toISOString().split("T")[0]!;
+  const month = day.slice(0, 7);
+  const daily = emptyUsageTotals();
+  const monthly = emptyUsageTotals();
+
+  for (const row of rows) {
+    if (!row.day.startsWith(month) || row.day > day) continue;
+    const totals = [monthly, ...(row.day === day ? [daily] : [])];
+    for (const t of totals) {
+      t.runs += row.orchestrations_started;
+      t.tokens += Number(row.tokens_used);
+      t.usdCents += dollarsToCents(row.usd_spent);
+    }
+  }
+  return { plan, day, month, daily, monthly };
+}
+
+export interface Repository {
+  createOrchestration(args: {
+    id: OrchestrationId;
+    userId: UserId;
+    blueprintId: string;
+    idempotencyKey?: IdempotencyKey;
+    planHash?: string;
+    metadata?: Record<string, unknown>;
+    correlationId: string;
+    outbox?: OutboxMessage[];
+  }): Promise<void>;
+
+  getOrchestration(id: OrchestrationId): Promise<OrchestrationRecord | null>;
+
+  findOrchestrationByIdempotencyKey(
+    userId: UserId,
+    idempotencyKey: IdempotencyKey,
+  ): Promise<OrchestrationRecord | null>;
+
+  // A user's orchestrations, newest first; `before` pages by created_at
+  listOrchestrations(
+    userId: UserId,
+    options?: { limit?: number; before?: Date },
+  ): Promise<OrchestrationRecord[]>;
+
+  // Every attempt of every node, ordered by node and attempt
+  listNodeResults(
+    orchestrationId: OrchestrationId,
+  ): Promise<NodeResultRecord[]>;
+
+  // Side effects in `outbox` are recorded atomically with the change
+  updateStatus(
+    id: OrchestrationId,
+    status: OrchestrationStatus,
+    statusReason?: string,
+    outbox?: OutboxMessage[],
+  ): Promise<void>;
+
+  saveNodeResult(args: {
+    orchestrationId: OrchestrationId;
+    nodeId: NodeId;
+    status: NodeStatus;
+    attemptNo: number;
+    startedAt?: Date;
+    finishedAt?: Date;
+    output?: unknown;
+    error?: Error;
+    correlationId: string;
+    cacheKey?: string;
+    artifacts?: string[];
+    outbox?: OutboxMessage[];
+  }): Promise<void>;
+
+  // Latest successful result of a node with this cache key, among the user's
+  // own orchestrations
+  findCachedNode(args: {
+    userId: UserId;
+    nodeId: NodeId;
+    cacheKey: string;
+  }): Promise<CachedNodeResult | null>;
+
+  // Plan hash plus metadata.batches, for rows created before the plan was known
+  savePlan(
+    id: OrchestrationId,
+    planHash: string,
+    batches: NodeId[][],
+  ): Promise<void>;
 
   trackUsage(args: {
     orchestrationId: OrchestrationId;
@@ -855,7 +1865,8 @@ export interface Repository {
     correlationId: string;
   }): Promise<void>;
 
-  checkQuota(userId: UserId): Promise<{ used: number; limit: number }>;
+  // The user's plan and today's/this month's consumption (UTC)
+  getUsage(userId: UserId, now?: Date): Promise<UsageSummary>;
 
   listArtifacts(
     orchestrationId: OrchestrationId,
@@ -864,6 +1875,11 @@ export interface Repository {
   signArtifact(artifact: { path: string }, ttl?: number): Promise<string>;
 }
 
+// output_ref holds the JSON-encoded node output
+export function parseOutputRef(outputRef: unknown): unknown {
+  return typeof outputRef === "string" ? JSON.parse(outputRef) : outputRef;
+}
+
 export class SupabaseRepository implements Repository {
   constructor(private readonly supabase: SupabaseClient) {}
 
@@ -875,8 +1891,9 @@ export class SupabaseRepository implements Repository {
     planHash?: string;
     metadata?: Record<string, unknown>;
     correlationId: string;
+    outbox?: OutboxMessage[];
   }): Promise<void> {
-    const { error } = await this.supabase.from("orchestrations").insert({
+    const row = {
       id: args.id,
       user_id: args.userId,
       blueprint_id: args.blueprintId,
@@ -887,7 +1904,16 @@ export class SupabaseRepository implements Repository {
       correlation_id: args.correlationId,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
-    });
+    };
+    const { error } = args.outbox?.length
+      ? await this.writeWithOutbox(
+          "orchestrations",
+          "insert",
+          row,
+          ["id"],
+          args.outbox,
+        )
+      : await this.supabase.from("orchestrations").insert(row);
 
     // Ignore duplicate key errors (idempotency)
     if (error && !error.message.includes("duplicate")) {
@@ -895,19 +1921,97 @@ export class SupabaseRepository implements Repository {
     }
   }
 
+  async getOrchestration(
+    id: OrchestrationId,
+  ): Promise<OrchestrationRecord | null> {
+    const { data, error } = await this.supabase
+      .from("orchestrations")
+      .select(
+        "id, user_id, blueprint_id, status, status_reason, plan_hash, metadata, created_at, updated_at",
+      )
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error)
+      throw new Error(`Failed to load orchestration: ${error.message}`);
+    return data ? toOrchestrationRecord(data as OrchestrationRow) : null;
+  }
+
+  async findOrchestrationByIdempotencyKey(
+    userId: UserId,
+    idempotencyKey: IdempotencyKey,
+  ): Promise<OrchestrationRecord | null> {
+    const { data, error } = await this.supabase
+      .from("orchestrations")
+      .select(
+        "id, user_id, blueprint_id, status, status_reason, plan_hash, metadata, created_at, updated_at",
+      )
+      .eq("user_id", userId)
+      .eq("idempotency_key", idempotencyKey)
+      .maybeSingle();
+
+    if (error)
+      throw new Error(`Failed to load orchestration: ${error.message}`);
+    return data ? toOrchestrationRecord(data as OrchestrationRow) : null;
+  }
+
+  async listOrchestrations(
+    userId: UserId,
+    options: { limit?: number; before?: Date } = {},
+  ): Promise<OrchestrationRecord[]> {
+    let query = this.supabase
+      .from("orchestrations")
+      .select(
+        "id, user_id, blueprint_id, status, status_reason, plan_hash, metadata, created_at, updated_at",
+      )
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(options.limit ?? 50);
+    if (options.before) {
+      query = query.lt("created_at", options.before.toISOString());
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list orchestrations: ${error.message}`);
+    }
+    return (data as OrchestrationRow[]).map(toOrchestrationRecord);
+  }
+
+  async listNodeResults(
+    orchestrationId: OrchestrationId,
+  ): Promise<NodeResultRecord[]> {
+    const { data, error } = await this.supabase
+      .from("orchestration_nodes")
+      .select("node_id, status, attempt_no, started_at, finished_at, error")
+      .eq("orchestration_id", orchestrationId)
+      .order("node_id")
+      .order("attempt_no");
+
+    if (error) throw new Error(`Failed to list node results: ${error.message}`);
+    return (data as NodeResultRow[]).map(toNodeResultRecord);
+  }
+
   async updateStatus(
     id: OrchestrationId,
     status: OrchestrationStatus,
     statusReason?: string,
+    outbox?: OutboxMessage[],
   ): Promise<void> {
-    const { error } = await this.supabase
-      .from("orchestrations")
-      .update({
-        status,
-        status_reason: statusReason,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", id);
+    const values = {
+      status,
+      status_reason: statusReason,
+      updated_at: new Date().toISOString(),
+    };
+    const { error } = outbox?.length
+      ? await this.writeWithOutbox(
+          "orchestrations",
+          "update",
+          { id, ...values },
+          ["id"],
+          outbox,
+        )
+      : await this.supabase.from("orchestrations").update(values).eq("id", id);
 
     if (error) throw new Error(`Failed to update status: ${error.message}`);
   }
@@ -922,43 +2026,92 @@ export class SupabaseRepository implements Repository {
     output?: unknown;
     error?: Error;
     correlationId: string;
+    cacheKey?: string;
+    artifacts?: string[];
+    outbox?: OutboxMessage[];
   }): Promise<void> {
-    const { error } = await this.supabase.from("orchestration_nodes").upsert(
-      {
-        orchestration_id: args.orchestrationId,
-        node_id: args.nodeId,
-        status: args.status,
-        attempt_no: args.attemptNo,
-        started_at: args.startedAt?.toISOString(),
-        finished_at: args.finishedAt?.toISOString(),
-        output_ref: args.output ? JSON.stringify(args.output) : null,
-        error: args.error
-          ? {
-              message: args.error.message,
-              stack: args.error.stack,
-              name: args.error.name,
-            }
-          : null,
-        correlation_id: args.correlationId,
-      },
-      {
-        onConflict: "orchestration_id, node_id, attempt_no",
-      },
-    );
+    const row = {
+      orchestration_id: args.orchestrationId,
+      node_id: args.nodeId,
+      status: args.status,
+      attempt_no: args.attemptNo,
+      started_at: args.startedAt?.toISOString(),
+      finished_at: args.finishedAt?.toISOString(),
+      output_ref: args.output ? JSON.stringify(args.output) : null,
+      error: args.error
+        ? {
+            message: args.error.message,
+            stack: args.error.stack,
+            name: args.error.name,
+          }
+        : null,
+      correlation_id: args.correlationId,
+      cache_key: args.cacheKey ?? null,
+      artifacts: args.artifacts ?? null,
+    };
+    const conflictKey = ["orchestration_id", "node_id", "attempt_no"];
+    const { error } = args.outbox?.length
+      ? await this.writeWithOutbox(
+          "orchestration_nodes",
+          "upsert",
+          row,
+          conflictKey,
+          args.outbox,
+        )
+      : await this.supabase
+          .from("orchestration_nodes")
+          .upsert(row, { onConflict: conflictKey.join(", ") });
 
     if (error) throw new Error(`Failed to save node result: ${error.message}`);
   }
 
-  async savePlanHash(id: OrchestrationId, planHash: string): Promise<void> {
+  async findCachedNode(args: {
+    userId: UserId;
+    nodeId: NodeId;
+    cacheKey: string;
+  }): Promise<CachedNodeResult | null> {
+    const { data, error } = await this.supabase
+      .from("orchestration_nodes")
+      .select("orchestration_id, output_ref, artifacts, orchestrations!inner()")
+      .eq("node_id", args.nodeId)
+      .eq("cache_key", args.cacheKey)
+      .eq("status", "complete")
+      .eq("orchestrations.user_id", args.userId)
+      .order("finished_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error)
+      throw new Error(`Failed to look up node cache: ${error.message}`);
+    if (!data) return null;
+
+    return {
+      orchestrationId: data.orchestration_id as OrchestrationId,
+      output: parseOutputRef(data.output_ref),
+      artifacts: (data.artifacts as string[] | null) ?? [],
+    };
+  }
+
+  async savePlan(
+    id: OrchestrationId,
+    planHash: string,
+    batches: NodeId[][],
+  ): Promise<void> {
+    const record = await this.getOrchestration(id);
+    if (!record) {
+      throw new Error(`Failed to save plan: orchestration ${id} not found`);
+    }
+
     const { error } = await this.supabase
       .from("orchestrations")
       .update({
         plan_hash: planHash,
+        metadata: { ...record.metadata, batches },
         updated_at: new Date().toISOString(),
       })
       .eq("id", id);
 
-    if (error) throw new Error(`Failed to save plan hash: ${error.message}`);
+    if (error) throw new Error(`Failed to save plan: ${error.message}`);
   }
 
   async trackUsage(args: {
@@ -975,38 +2128,45 @@ export class SupabaseRepository implements Repository {
 
     if (!data) return;
 
-    const today = new Date().toISOString().split("T")[0];
-
-    const { error } = await this.supabase.from("usage_aggregates").upsert(
-      {
-        user_id: data.user_id,
-        day: today,
-        tokens_used: args.tokens,
-        usd_spent: args.usd / 100, // Convert cents to dollars
-        correlation_id: args.correlationId,
-      },
-      {
-        onConflict: "user_id,day",
-      },
-    );
+    // Added to the day's totals in SQL, so concurrent runs don't overwrite
+    // each other
+    const { error } = await this.supabase.rpc("increment_usage", {
+      p_user_id: data.user_id,
+      p_day: new Date().toISOString().split("T")[0],
+      p_tokens: args.tokens,
+      p_usd: args.usd / 100, // Convert cents to dollars
+      p_correlation_id: args.correlationId,
+    });
 
     if (error) console.error("Failed to track usage:", error);
   }
 
-  async checkQuota(userId: UserId): Promise<{ used: number; limit: number }> {
-    const today = new Date().toISOString().split("T")[0];
-
-    const { data } = await this.supabase
-      .from("usage_aggregates")
-      .select("orchestrations_started")
-      .eq("user_id", userId)
-      .eq("day", today)
-      .single();
-
-    return {
-      used: data?.orchestrations_started || 0,
-      limit: 10, // MVP limit
-    };
+  async getUsage(
+    userId: UserId,
+    now: Date = new Date(),
+  ): Promise<UsageSummary> {
+    const day = now.toISOString().split("T")[0]!;
+    const [plan, usage] = await Promise.all([
+      this.supabase.rpc("quota_plan_for", { p_user_id: userId }).maybeSingle(),
+      this.supabase
+        .from("usage_aggregates")
+        .select("day, orchestrations_started, tokens_used, usd_spent")
+        .eq("user_id", userId)
+        .gte("day", `${day.slice(0, 7)}-01`)
+        .lte("day", day),
+    ]);
+
+    if (plan.error) {
+      throw new Error(`Failed to load quota plan: ${plan.error.message}`);
+    }
+    if (usage.error) {
+      throw new Error(`Failed to load usage: ${usage.error.message}`);
+    }
+    return toUsageSummary(
+      plan.data ? toQuotaPlan(plan.data as QuotaPlanRow) : DEFAULT_QUOTA_PLAN,
+      usage.data as UsageRow[],
+      now,
+    );
   }
 
   async listArtifacts(
@@ -1036,20 +2196,123 @@ export class SupabaseRepository implements Repository {
     if (error) throw new Error(`Failed to sign artifact: ${error.message}`);
     return data.signedUrl;
   }
+
+  // One transaction for the row change and its outbox messages
+  private async writeWithOutbox(
+    table: string,
+    op: "insert" | "upsert" | "update",
+    row: Record<string, unknown>,
+    key: string[],
+    outbox: OutboxMessage[],
+  ) {
+    return this.supabase.rpc("write_with_outbox", {
+      p_table: table,
+      p_op: op,
+      p_row: row,
+      p_key: key,
+      p_outbox: toOutboxRows(outbox),
+    });
+  }
+}
+
+// ============= RUN CONTROL =============
+
+// Statuses a run cannot be paused or cancelled from
+const FINISHED_STATUSES: ReadonlySet<OrchestrationStatus> = new Set([
+  "complete",
+  "failed",
+  "cancelled",
+  "partially_complete",
+]);
+
+/**
+ * Persist a pause or cancel request for an orchestration.
+ * The process executing the run picks it up at its next poll (see
+ * EngineConfig.stopPollIntervalMs); a run that has not started yet stops
+ * before its first node. Requesting the current status again is a no-op.
+ */
+export async function requestStop(
+  repository: Repository,
+  orchestrationId: OrchestrationId,
+  action: StopAction,
+  reason?: string,
+): Promise<OrchestrationRecord> {
+  const record = await repository.getOrchestration(orchestrationId);
+  if (!record) {
+    throw new OrchestrationError(
+      `Orchestration ${orchestrationId} not found`,
+      "NOT_FOUND",
+      orchestrationId,
+    );
+  }
+
+  const status = action === "cancel" ? "cancelled" : "paused";
+  if (record.status === status) return record;
+  if (FINISHED_STATUSES.has(record.status)) {
+    throw new OrchestrationError(
+      `Orchestration ${orchestrationId} is already ${record.status}`,
+      "INVALID_STATE",
+      orchestrationId,
+      { status: record.status, action },
+    );
+  }
+
+  const statusReason =
+    reason ??
+    (action === "cancel" ? "Cancelled by request" : "Paused by request");
+  await repository.updateStatus(orchestrationId, status, statusReason);
+  return { ...record, status, statusReason };
 }
 
 // ============= MAIN ORCHESTRATION ENGINE =============
 
+// Statuses resume() continues from the checkpoint
+const RESUMABLE_STATUSES: ReadonlySet<OrchestrationStatus> = new Set([
+  "paused",
+  "failed",
+  "partially_complete",
+]);
+
+export interface ExecuteArgs {
+  orchestrationId: OrchestrationId;
+  userId: UserId;
+  blueprint: Blueprint;
+  input: Record<string, unknown>;
+  idempotencyKey?: IdempotencyKey;
+  correlationId?: string;
+}
+
+export interface ExecutionResult {
+  status: OrchestrationStatus;
+  artifacts: string[];
+  metrics: any;
+  planHash: string;
+  phases: Record<Phase, number>;
+  executionTime: number;
+  // Nodes that failed under a "continue" or "optional" FailurePolicy
+  failedNodes: Array<{ nodeId: NodeId; error: string }>;
+  // Nodes that did not run in this execution, and why
+  skippedNodes: Array<{ nodeId: NodeId; reason: string }>;
+}
+
+// Control state of a run executing in this process
+interface RunHandle {
+  controller: AbortController;
+  stop?: OrchestrationStoppedError;
+}
+
 export class OrchestrationEngine {
   private readonly resolver = new DependencyResolver();
   private readonly globalPool: TaskPool;
   private readonly logger: Logger;
   private readonly metrics: MetricsCollector;
+  private readonly runs = new Map<OrchestrationId, RunHandle>();
 
   constructor(
     private readonly config: EngineConfig,
     private readonly repository: Repository,
-    private readonly supabase: SupabaseClient,
+    private readonly backend: EngineBackend,
+    readonly events: EventBus = new EventBus(),
   ) {
     // Validate budget configuration at construction time
     const budgetValidation = BudgetConfigSchema.safeParse(config.budget);
@@ -1081,21 +2344,7 @@ export class OrchestrationEngine {
   /**
    * Execute a blueprint with checkpoint-based resumption
    */
-  async execute(args: {
-    orchestrationId: OrchestrationId;
-    userId: UserId;
-    blueprint: Blueprint;
-    input: Record<string, unknown>;
-    idempotencyKey?: IdempotencyKey;
-    correlationId?: string;
-  }): Promise<{
-    status: OrchestrationStatus;
-    artifacts: string[];
-    metrics: any;
-    planHash: string;
-    phases: Record<Phase, number>;
-    executionTime: number;
-  }> {
+  async execute(args: ExecuteArgs): Promise<ExecutionResult> {
     const startTime = Date.now();
     const timer = this.metrics.startTimer("orchestration_duration");
     const correlationId = args.correlationId || uuidv4();
@@ -1116,29 +2365,53 @@ export class OrchestrationEngine {
       finalize: 0,
     };
 
+    // Pause/cancel control: in-process requests stop the handle directly,
+    // requests from other processes are picked up by polling the status
+    const handle: RunHandle = { controller: new AbortController() };
+    this.runs.set(args.orchestrationId, handle);
+    const stopPoller = setInterval(
+      () => void this.pollStopRequest(handle, args.orchestrationId, logger),
+      this.config.stopPollIntervalMs ?? 2000,
+    );
+    stopPoller.unref?.();
+    // Outside the try so spend before a failure still counts towards usage
+    const budget = new BudgetTracker(this.config.budget, args.orchestrationId);
+    // Runs rejected before their row exists (invalid blueprint, quota) have
+    // no status to record
+    let recorded = false;
+
     try {
       // Enhanced blueprint validation
       validateBlueprint(args.blueprint);
 
       // Budget is already validated at construction time, no need to re-validate here
 
-      // Check user quota
-      const quota = await this.repository.checkQuota(args.userId);
-      if (quota.used >= quota.limit) {
-        throw new OrchestrationError(
-          `Daily quota exceeded: ${quota.used}/${quota.limit}`,
-          "QUOTA_EXCEEDED",
-          args.orchestrationId,
-          { quota },
-        );
+      // Check user quota. Existing rows (queued by the API, which checked the
+      // quota already, or resumed runs) were counted when they were created.
+      const existing = await this.repository.getOrchestration(
+        args.orchestrationId,
+      );
+      recorded = existing !== null;
+      if (!existing) {
+        const usage = await this.repository.getUsage(args.userId);
+        const violation = findQuotaViolation(usage);
+        if (violation) {
+          throw new OrchestrationError(
+            describeQuotaViolation(violation),
+            "QUOTA_EXCEEDED",
+            args.orchestrationId,
+            { quota: violation },
+          );
+        }
       }
 
       // Get execution batches and compute plan hash
       const batches = this.resolver.getBatches(args.blueprint);
       const planHash = computePlanHash(args.blueprint, batches);
+      const ancestors = this.resolver.getAncestors(args.blueprint, batches);
 
-      // Use plan hash for caching/short-circuiting identical re-runs (future optimization)
-      // For now, we store it for drift detection and observability
+      // The plan hash is stored for drift detection and observability;
+      // identical work is short-circuited per node (see computeNodeCacheKey)
       logger.info(
         `Executing ${batches.length} batches with ${args.blueprint.nodes.length} nodes, plan: ${planHash}`,
       );
@@ -1150,13 +2423,20 @@ export class OrchestrationEngine {
         blueprintId: args.blueprint.id,
         idempotencyKey: args.idempotencyKey,
         planHash,
-        metadata: { input: args.input },
+        // Batches are kept so dashboards can lay out the run's timeline
+        metadata: { input: args.input, batches },
         correlationId,
       });
-
-      // Update status to running
-      await this.repository.updateStatus(args.orchestrationId, "running");
-      this.metrics.incrementCounter("orchestrations_started");
+      recorded = true;
+      // The row may already exist (queued runs, resumes) with an older plan
+      await this.repository.savePlan(args.orchestrationId, planHash, batches);
+
+      // A pause or cancel may have been requested before the run started
+      await this.pollStopRequest(handle, args.orchestrationId, logger);
+      if (!handle.stop) {
+        await this.repository.updateStatus(args.orchestrationId, "running");
+        this.metrics.incrementCounter("orchestrations_started");
+      }
 
       // Create execution context with proper budget tracking
       const context: ExecutionContext = {
@@ -1165,152 +2445,315 @@ export class OrchestrationEngine {
         correlationId,
         logger,
         metrics: this.metrics,
-        storage: new SupabaseStorageAdapter(this.supabase),
-        checkpoint: new CheckpointManager(this.supabase, args.orchestrationId),
-        budget: new BudgetTracker(this.config.budget, args.orchestrationId),
+        storage: this.backend.createStorage(args.orchestrationId),
+        checkpoint: this.backend.createCheckpointManager(args.orchestrationId),
+        budget,
+        signal: handle.controller.signal,
+        // Nodes get their own buffer per attempt (see executeNode)
+        outbox: new OutboxBuffer(args.orchestrationId),
+        findOwnOrchestration: async (id) => {
+          const record = await this.repository.getOrchestration(
+            id as OrchestrationId,
+          );
+          return record?.userId === args.userId ? record : null;
+        },
       };
 
       // Check for existing checkpoint (resumption)
       const existingCheckpoint = await context.checkpoint.load();
       let startBatchIndex = 0;
       let completedNodes = new Set<NodeId>();
+      let dataflow: DataflowState = {
+        input: args.input,
+        outputs: {},
+        skipped: [],
+      };
+
+      // Where the run stands: every finished node (map children included),
+      // and the first plan batch with unfinished work
+      const checkpointNow = (): Checkpoint => {
+        const frontier = batches.findIndex((batch) =>
+          batch.some((nodeId) => !completedNodes.has(nodeId)),
+        );
+        const batchIndex = frontier === -1 ? batches.length : frontier;
+        return {
+          phase: this.getPhaseForBatch(
+            args.blueprint,
+            batches[batchIndex] || [],
+          ),
+          batchIndex,
+          completedNodes,
+          stateBlob: { ...dataflow },
+          updatedAt: new Date(),
+        };
+      };
+      const saveCheckpoint = () => context.checkpoint.save(checkpointNow());
 
       if (existingCheckpoint) {
         startBatchIndex = existingCheckpoint.batchIndex;
-        completedNodes = new Set(existingCheckpoint.completedNodes);
+        // Batches before batchIndex are finished; completedNodes covers the
+        // rest (older checkpoints only listed nodes of the current batch)
+        completedNodes = new Set([
+          ...batches.slice(0, startBatchIndex).flat(),
+          ...existingCheckpoint.completedNodes,
+        ]);
+        // Rehydrate upstream outputs instead of re-executing finished nodes
+        dataflow = readDataflowState(existingCheckpoint.stateBlob, args.input);
         logger.info(
           `Resuming from batch ${startBatchIndex} with ${completedNodes.size} completed nodes`,
+          { rehydratedOutputs: Object.keys(dataflow.outputs).length },
         );
       } else {
         // Save initial checkpoint
-        await context.checkpoint.save({
-          phase: this.getPhaseForBatch(args.blueprint, batches[0] || []),
-          batchIndex: 0,
-          completedNodes: new Set(),
-          stateBlob: { input: args.input },
-          updatedAt: new Date(),
-        });
+        await saveCheckpoint();
       }
 
-      // Execute batches
-      for (
-        let batchIndex = startBatchIndex;
-        batchIndex < batches.length;
-        batchIndex++
-      ) {
-        const batch = batches[batchIndex];
-        const batchTimer = this.metrics.startTimer("batch_duration");
-
-        // Track phase distribution
-        const batchPhase = this.getPhaseForBatch(args.blueprint, batch || []);
-        phaseCount[batchPhase] += (batch || []).length;
-
-        // Filter out already completed nodes
-        const remainingNodes = (batch || []).filter(
-          (nodeId) => !completedNodes.has(nodeId),
-        );
+      this.events.emit({
+        type: "orchestration.started",
+        orchestrationId: args.orchestrationId,
+        planHash,
+        totalBatches: batches.length,
+        totalNodes: args.blueprint.nodes.length,
+        resumedFromBatch: startBatchIndex,
+      });
 
-        if (remainingNodes.length === 0) {
-          logger.info(
-            `Batch ${batchIndex + 1}/${batches.length} already completed, skipping`,
-          );
-          continue;
+      // Ready-queue scheduling: a node starts as soon as its last predecessor
+      // completes. Batches only order the queue (and name progress events).
+      const batchOf = new Map<NodeId, number>();
+      batches.forEach((batch, i) => batch.forEach((id) => batchOf.set(id, i)));
+      const waitingOn = new Map<NodeId, number>();
+      const dependents = new Map<NodeId, NodeId[]>();
+      for (const edge of args.blueprint.edges) {
+        dependents.set(edge.from, [
+          ...(dependents.get(edge.from) || []),
+          edge.to,
+        ]);
+        if (!completedNodes.has(edge.from)) {
+          waitingOn.set(edge.to, (waitingOn.get(edge.to) ?? 0) + 1);
         }
+      }
+      const pending = batches
+        .flat()
+        .filter((nodeId) => !completedNodes.has(nodeId));
+      for (const nodeId of pending) {
+        const phase = this.getPhaseForBatch(args.blueprint, [nodeId]);
+        phaseCount[phase] += 1;
+      }
+      const ready = pending.filter((nodeId) => !waitingOn.get(nodeId));
 
-        logger.info(
-          `Executing batch ${batchIndex + 1}/${batches.length} with ${remainingNodes.length} remaining nodes`,
-        );
+      const orchestrationPool = new TaskPool(
+        this.config.maxConcurrencyPerOrchestration,
+      );
+      const running = new Map<NodeId, Promise<void>>();
+      const durations = new Map<NodeId, number>();
+      const startedBatches = new Set<number>();
+      let failure: { error: unknown } | undefined;
+      // Tolerated failures (see FailurePolicy). Failed nodes and the
+      // dependents skipped because of them stay out of completedNodes, so
+      // resume() runs them again.
+      const failedNodes: ExecutionResult["failedNodes"] = [];
+      const skippedNodes: ExecutionResult["skippedNodes"] = [];
+      const blockingFailures = new Set<NodeId>();
+
+      // A permit from both pools, taken in the same order everywhere
+      const acquireSlot = async (): Promise<() => void> => {
+        const globalRelease = await this.globalPool.acquire();
+        const localRelease = await orchestrationPool.acquire();
+        return () => {
+          localRelease();
+          globalRelease();
+        };
+      };
 
-        // Execute nodes in parallel with per-orchestration concurrency limit
-        const orchestrationPool = new TaskPool(
-          this.config.maxConcurrencyPerOrchestration,
-        );
-        const nodePromises = remainingNodes.map(async (nodeId) => {
-          // Acquire permits from both pools
-          const globalRelease = await this.globalPool.acquire();
-          const localRelease = await orchestrationPool.acquire();
+      const runNode = async (nodeId: NodeId): Promise<void> => {
+        const release = await acquireSlot();
 
-          try {
-            await this.executeNode(
-              nodeId,
-              args.blueprint,
-              args.input, // Pass actual input
-              context,
-            );
-            completedNodes.add(nodeId);
-
-            // Update checkpoint after each node completion
-            await context.checkpoint.save({
-              phase: this.getPhaseForBatch(args.blueprint, batch || []),
+        try {
+          // Once stopped or failed, queued nodes release their permits
+          // without running
+          if (handle.stop || failure) return;
+
+          const batchIndex = batchOf.get(nodeId) ?? 0;
+          if (!startedBatches.has(batchIndex)) {
+            startedBatches.add(batchIndex);
+            this.events.emit({
+              type: "batch.started",
+              orchestrationId: args.orchestrationId,
               batchIndex,
-              completedNodes,
-              stateBlob: { input: args.input },
-              updatedAt: new Date(),
+              totalBatches: batches.length,
+              nodeIds: (batches[batchIndex] || []).filter(
+                (id) => !completedNodes.has(id),
+              ),
             });
-          } finally {
-            // Always release permits
-            localRelease();
-            globalRelease();
-
-            // Record pool metrics
-            this.metrics.recordGauge(
-              "pool_global_inuse",
-              this.globalPool.stats.inUse,
-            );
-            this.metrics.recordGauge(
-              "pool_local_inuse",
-              orchestrationPool.stats.inUse,
+          }
+
+          const startedAt = Date.now();
+          const nodeInput = resolveNodeInput(
+            ancestors.get(nodeId) || [],
+            dataflow.input,
+            dataflow.outputs,
+          );
+          const node = args.blueprint.nodes.find((n) => n.id === nodeId);
+          if (!node) throw new Error(`Node ${nodeId} not found in blueprint`);
+          const policy =
+            node.onFailure ?? args.blueprint.failurePolicy ?? "fail-fast";
+          const failedAncestor = [...(ancestors.get(nodeId) || [])]
+            .reverse()
+            .find((a) => blockingFailures.has(a));
+          const skipReason = getSkipReason(
+            node,
+            ancestors.get(nodeId) || [],
+            new Set(dataflow.skipped),
+            nodeInput,
+          );
+          let completed = true;
+          try {
+            if (failedAncestor) {
+              const reason = `depends on failed node ${failedAncestor}`;
+              await this.skipNode(nodeId, reason, context);
+              skippedNodes.push({ nodeId, reason });
+              completed = false;
+            } else if (skipReason) {
+              await this.skipNode(nodeId, skipReason, context);
+              dataflow.skipped.push(nodeId);
+              skippedNodes.push({ nodeId, reason: skipReason });
+            } else if (node.fanOut) {
+              dataflow.outputs[nodeId] = await this.executeFanOut(
+                node as NodeSpec & { fanOut: FanOutSpec },
+                nodeInput,
+                context,
+                {
+                  dataflow,
+                  completedNodes,
+                  saveCheckpoint,
+                  acquireSlot,
+                  stopped: () => handle.stop,
+                },
+              );
+              durations.set(nodeId, Date.now() - startedAt);
+            } else {
+              const output = await this.executeNode(node, nodeInput, context);
+              dataflow.outputs[nodeId] = output;
+              durations.set(nodeId, Date.now() - startedAt);
+            }
+          } catch (error) {
+            if (policy === "fail-fast" || handle.stop || isRunFatal(error)) {
+              throw error;
+            }
+            const message =
+              error instanceof Error ? error.message : String(error);
+            failedNodes.push({ nodeId, error: message });
+            if (policy === "continue") blockingFailures.add(nodeId);
+            completed = false;
+            logger.warn(
+              `Node ${nodeId} failed; continuing (${policy}): ${message}`,
+              { nodeId, policy },
             );
+            this.metrics.incrementCounter("nodes_failed_tolerated");
           }
-        });
+          if (completed) completedNodes.add(nodeId);
 
-        // Wait for all nodes in batch to complete
-        const results = await Promise.allSettled(nodePromises);
-        const failed = results.filter((r) => r.status === "rejected");
-
-        if (failed.length > 0) {
-          const firstFailed = failed[0]!;
-          const error =
-            firstFailed.status === "rejected"
-              ? (firstFailed as PromiseRejectedResult).reason
-              : new Error("Batch execution failed");
-          logger.error(
-            `Batch ${batchIndex} had ${failed.length} failures`,
-            error,
+          // Update checkpoint after each node completion
+          await saveCheckpoint();
+
+          // Check budget after each node
+          this.emitBudgetWarnings(context);
+          await context.budget.ensureWithinBudget();
+
+          // Release dependents whose predecessors are now all complete
+          for (const dependent of dependents.get(nodeId) || []) {
+            const remaining = (waitingOn.get(dependent) ?? 1) - 1;
+            waitingOn.set(dependent, remaining);
+            if (remaining === 0) ready.push(dependent);
+          }
+        } finally {
+          // Always release permits
+          release();
+
+          // Record pool metrics
+          this.metrics.recordGauge(
+            "pool_global_inuse",
+            this.globalPool.stats.inUse,
+          );
+          this.metrics.recordGauge(
+            "pool_local_inuse",
+            orchestrationPool.stats.inUse,
           );
-          throw error;
         }
+      };
 
-        batchTimer();
-
-        // Check budget after each batch
-        await context.budget.ensureWithinBudget();
-
-        // Clear completed nodes for next batch
-        completedNodes = new Set();
-
-        // Update checkpoint for next batch
-        if (batchIndex < batches.length - 1) {
-          await context.checkpoint.save({
-            phase: this.getPhaseForBatch(
-              args.blueprint,
-              batches[batchIndex + 1] || [],
-            ),
-            batchIndex: batchIndex + 1,
-            completedNodes: new Set(),
-            stateBlob: { input: args.input },
-            updatedAt: new Date(),
-          });
+      while (ready.length > 0 || running.size > 0) {
+        // Start everything that is ready; the pools bound how much runs,
+        // map node children included (see executeFanOut)
+        while (ready.length > 0 && !handle.stop && !failure) {
+          const nodeId = ready.shift()!;
+          running.set(
+            nodeId,
+            runNode(nodeId)
+              .catch((error) => {
+                failure ??= { error };
+              })
+              .finally(() => running.delete(nodeId)),
+          );
         }
+        if (running.size === 0) break;
+        await Promise.race(running.values());
+      }
+
+      const criticalPath = this.resolver.getCriticalPath(
+        args.blueprint,
+        batches,
+        durations,
+      );
+      this.metrics.recordHistogram("critical_path_ms", criticalPath.durationMs);
+      logger.info(`Critical path ${criticalPath.durationMs}ms`, {
+        nodeIds: criticalPath.nodeIds,
+        wallClockMs: Date.now() - startTime,
+      });
+
+      // Failures caused by a cancel are expected; report the stop instead
+      if (handle.stop) {
+        timer();
+        return await this.finishStopped(handle.stop, {
+          context,
+          checkpoint: checkpointNow(),
+          planHash,
+          phases: phaseCount,
+          startTime,
+          failedNodes,
+          skippedNodes,
+        });
+      }
+
+      if (failure) {
+        logger.error("Node execution failed", failure.error as Error);
+        throw failure.error;
       }
 
-      // Mark as complete
+      // Mark as complete, or partially complete after tolerated failures
+      const status = failedNodes.length > 0 ? "partially_complete" : "complete";
+      const statusReason =
+        status === "complete"
+          ? "All batches executed successfully"
+          : `${failedNodes.length} node(s) failed: ${failedNodes
+              .map((f) => f.nodeId)
+              .join(", ")}`;
       await this.repository.updateStatus(
         args.orchestrationId,
-        "complete",
-        "All batches executed successfully",
+        status,
+        statusReason,
+      );
+      this.metrics.incrementCounter(
+        status === "complete"
+          ? "orchestrations_completed"
+          : "orchestrations_partially_completed",
       );
-      this.metrics.incrementCounter("orchestrations_completed");
+      this.events.emit({
+        type: "orchestration.finished",
+        orchestrationId: args.orchestrationId,
+        status,
+        reason: status === "complete" ? undefined : statusReason,
+      });
 
       // Track final usage
       const usage = context.budget.getUsage();
@@ -1332,21 +2775,27 @@ export class OrchestrationEngine {
       timer();
       const executionTime = Date.now() - startTime;
       logger.info(
-        `Orchestration completed successfully with ${signedUrls.length} artifacts`,
+        status === "complete"
+          ? `Orchestration completed successfully with ${signedUrls.length} artifacts`
+          : `Orchestration partially completed with ${signedUrls.length} artifacts`,
         {
           executionTime,
           planHash,
           phases: phaseCount,
+          failedNodes: failedNodes.map((f) => f.nodeId),
+          skippedNodes: skippedNodes.map((s) => s.nodeId),
         },
       );
 
       return {
-        status: "complete",
+        status,
         artifacts: signedUrls,
         metrics: (this.metrics as SimpleMetricsCollector).getMetrics(),
         planHash,
         phases: phaseCount,
         executionTime,
+        failedNodes,
+        skippedNodes,
       };
     } catch (error) {
       timer();
@@ -1367,28 +2816,354 @@ export class OrchestrationEngine {
         logger.error("Orchestration failed", error as Error);
       }
 
-      await this.repository.updateStatus(
+      if (recorded) {
+        await this.repository.updateStatus(
+          args.orchestrationId,
+          "failed",
+          statusReason,
+        );
+      }
+      this.events.emit({
+        type: "orchestration.finished",
+        orchestrationId: args.orchestrationId,
+        status: "failed",
+        reason: statusReason,
+      });
+
+      const usage = budget.getUsage();
+      if (usage.tokens > 0 || usage.usd > 0) {
+        await this.repository
+          .trackUsage({
+            orchestrationId: args.orchestrationId,
+            tokens: usage.tokens,
+            usd: usage.usd,
+            correlationId,
+          })
+          .catch((trackError) =>
+            logger.error("Failed to track usage", trackError as Error),
+          );
+      }
+
+      throw error;
+    } finally {
+      clearInterval(stopPoller);
+      this.runs.delete(args.orchestrationId);
+    }
+  }
+
+  /**
+   * Cancel an orchestration: in-flight nodes are aborted via
+   * ExecutionContext.signal and the run ends with status "cancelled".
+   * Runs executing in other processes stop at their next status poll.
+   */
+  async cancel(orchestrationId: OrchestrationId, reason?: string) {
+    await requestStop(this.repository, orchestrationId, "cancel", reason);
+    const handle = this.runs.get(orchestrationId);
+    if (handle) {
+      this.stopRun(
+        handle,
+        new OrchestrationStoppedError("cancel", orchestrationId, reason),
+      );
+    }
+  }
+
+  /**
+   * Pause an orchestration: in-flight nodes finish, no new nodes start and
+   * the checkpoint is kept so resume() continues where the run left off.
+   */
+  async pause(orchestrationId: OrchestrationId, reason?: string) {
+    await requestStop(this.repository, orchestrationId, "pause", reason);
+    const handle = this.runs.get(orchestrationId);
+    if (handle) {
+      this.stopRun(
+        handle,
+        new OrchestrationStoppedError("pause", orchestrationId, reason),
+      );
+    }
+  }
+
+  /**
+   * Continue a paused, failed or partially complete orchestration from its
+   * last checkpoint. Completed nodes are not re-executed; their outputs are
+   * rehydrated. Failed nodes and the dependents skipped because of them run
+   * again.
+   */
+  async resume(args: ExecuteArgs): Promise<ExecutionResult> {
+    const record = await this.repository.getOrchestration(args.orchestrationId);
+    if (!record) {
+      throw new OrchestrationError(
+        `Orchestration ${args.orchestrationId} not found`,
+        "NOT_FOUND",
         args.orchestrationId,
-        "failed",
-        statusReason,
       );
+    }
+    if (!RESUMABLE_STATUSES.has(record.status)) {
+      throw new OrchestrationError(
+        `Only paused, failed or partially complete orchestrations can be resumed (status: ${record.status})`,
+        "INVALID_STATE",
+        args.orchestrationId,
+        { status: record.status },
+      );
+    }
 
-      throw error;
+    // Clear the stop request so execute() does not stop again immediately
+    await this.repository.updateStatus(
+      args.orchestrationId,
+      "pending",
+      "Resume requested",
+    );
+    return this.execute(args);
+  }
+
+  /**
+   * Record a stop on a run; cancel wins over an earlier pause
+   */
+  private stopRun(handle: RunHandle, stop: OrchestrationStoppedError): void {
+    if (handle.stop?.action === "cancel") return;
+    handle.stop = stop;
+    if (stop.action === "cancel") handle.controller.abort(stop);
+  }
+
+  /**
+   * Pick up a pause/cancel persisted by another process
+   */
+  private async pollStopRequest(
+    handle: RunHandle,
+    orchestrationId: OrchestrationId,
+    logger: Logger,
+  ): Promise<void> {
+    try {
+      const record = await this.repository.getOrchestration(orchestrationId);
+      if (record?.status === "paused" || record?.status === "cancelled") {
+        this.stopRun(
+          handle,
+          new OrchestrationStoppedError(
+            record.status === "cancelled" ? "cancel" : "pause",
+            orchestrationId,
+            record.statusReason ?? undefined,
+          ),
+        );
+      }
+    } catch (error) {
+      // A missed poll only delays the stop until the next one
+      logger.warn("Failed to poll for stop requests", {
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
   /**
-   * Execute a single node with retry logic
+   * Persist progress of a paused or cancelled run and report it
    */
-  private async executeNode(
+  private async finishStopped(
+    stop: OrchestrationStoppedError,
+    run: {
+      context: ExecutionContext;
+      checkpoint: Checkpoint;
+      planHash: string;
+      phases: Record<Phase, number>;
+      startTime: number;
+      failedNodes: ExecutionResult["failedNodes"];
+      skippedNodes: ExecutionResult["skippedNodes"];
+    },
+  ): Promise<ExecutionResult> {
+    const { context } = run;
+    const status = stop.action === "cancel" ? "cancelled" : "paused";
+
+    // Nodes completed before the stop are kept; resume() starts after them
+    await context.checkpoint.save(run.checkpoint);
+    await this.repository.updateStatus(
+      context.orchestrationId,
+      status,
+      stop.reason ??
+        (status === "cancelled" ? "Cancelled by request" : "Paused by request"),
+    );
+    this.metrics.incrementCounter(`orchestrations_${status}`);
+    this.events.emit({
+      type: "orchestration.finished",
+      orchestrationId: context.orchestrationId,
+      status,
+      reason: stop.reason,
+    });
+
+    // Work done before the stop still counts towards usage
+    const usage = context.budget.getUsage();
+    await this.repository.trackUsage({
+      orchestrationId: context.orchestrationId,
+      tokens: usage.tokens,
+      usd: usage.usd,
+      correlationId: context.correlationId,
+    });
+
+    const artifacts = await this.repository.listArtifacts(
+      context.orchestrationId,
+    );
+    const signedUrls = await Promise.all(
+      artifacts.map((a) => this.repository.signArtifact(a)),
+    );
+
+    const executionTime = Date.now() - run.startTime;
+    context.logger.info(`Orchestration ${status}`, {
+      executionTime,
+      batchIndex: run.checkpoint.batchIndex,
+      completedNodes: run.checkpoint.completedNodes.size,
+    });
+
+    return {
+      status,
+      artifacts: signedUrls,
+      metrics: (this.metrics as SimpleMetricsCollector).getMetrics(),
+      planHash: run.planHash,
+      phases: run.phases,
+      executionTime,
+      failedNodes: run.failedNodes,
+      skippedNodes: run.skippedNodes,
+    };
+  }
+
+  /**
+   * Run a map node: expand its input, run one child node per item, then the
+   * fan-in over their outputs. The first child runs on the parent's permit;
+   * each further concurrent child takes its own from the global and the
+   * run's pool, so map nodes stay within maxConcurrencyGlobal and
+   * maxConcurrencyPerOrchestration like any other node. After a pause or
+   * cancel no further child starts; children completed before a pause or
+   * failure are not run again on resume. A failed child fails the node once
+   * its siblings have finished.
+   */
+  private async executeFanOut(
+    node: NodeSpec & { fanOut: FanOutSpec },
+    input: unknown,
+    context: ExecutionContext,
+    run: {
+      dataflow: DataflowState;
+      completedNodes: Set<NodeId>;
+      saveCheckpoint: () => Promise<void>;
+      acquireSlot: () => Promise<() => void>;
+      stopped: () => OrchestrationStoppedError | undefined;
+    },
+  ): Promise<unknown> {
+    const parsed = this.parseNodeInput(node, input);
+    const items = node.fanOut.expand(parsed);
+    const keys = new Set<string>();
+    for (const item of items) {
+      if (keys.has(item.key)) {
+        throw new ValidationError(
+          `Node ${node.id} expanded to duplicate item key "${item.key}"`,
+          new z.ZodError([]),
+        );
+      }
+      keys.add(item.key);
+    }
+    context.logger.info(
+      `Node ${node.id} expanded to ${items.length} children`,
+      { nodeId: node.id, keys: [...keys] },
+    );
+
+    const queue = items.filter(
+      (item) => !run.completedNodes.has(fanOutChildId(node.id, item.key)),
+    );
+    const errors: unknown[] = [];
+    const inFlight = new Set<Promise<void>>();
+    const runChild = async (item: (typeof items)[number]) => {
+      const childId = fanOutChildId(node.id, item.key);
+      try {
+        const child: NodeSpec = {
+          ...node.fanOut.child,
+          id: childId,
+          phase: node.phase,
+        };
+        run.dataflow.outputs[childId] = await this.executeNode(
+          child,
+          item.input,
+          context,
+        );
+        run.completedNodes.add(childId);
+        await run.saveCheckpoint();
+      } catch (error) {
+        errors.push(error);
+      }
+    };
+    // Each worker runs queued children one at a time until none are left
+    // or the run is paused or cancelled
+    const work = async () => {
+      while (queue.length > 0 && !run.stopped()) {
+        const child = runChild(queue.shift()!);
+        inFlight.add(child);
+        await child;
+        inFlight.delete(child);
+      }
+    };
+    // Extra workers may still be waiting for a permit when the queue runs
+    // dry; the node doesn't wait for them (they release straight away), or
+    // two map nodes holding the last permits would wait on each other.
+    const extraWorkers =
+      Math.min(queue.length, this.config.maxConcurrencyPerOrchestration) - 1;
+    for (let i = 0; i < extraWorkers; i++) {
+      void run.acquireSlot().then(async (release) => {
+        try {
+          await work();
+        } finally {
+          release();
+        }
+      });
+    }
+    await work();
+    await Promise.all(inFlight);
+    const stop = run.stopped();
+    if (stop) throw stop;
+    if (errors.length > 0) throw errors[0];
+
+    const fanIn: FanInInput = {
+      input: parsed,
+      results: Object.fromEntries(
+        items.map((item) => [
+          item.key,
+          run.dataflow.outputs[fanOutChildId(node.id, item.key)],
+        ]),
+      ),
+    };
+    // The fan-in is the node itself; its input is already parsed
+    return this.executeNode({ ...node, input: undefined }, fanIn, context);
+  }
+
+  /**
+   * Record a node that will not run; dependents see no output from it
+   */
+  private async skipNode(
     nodeId: NodeId,
-    blueprint: Blueprint,
-    input: Record<string, unknown>,
+    reason: string,
     context: ExecutionContext,
   ): Promise<void> {
-    const node = blueprint.nodes.find((n) => n.id === nodeId);
-    if (!node) throw new Error(`Node ${nodeId} not found in blueprint`);
+    const now = new Date();
+    await this.repository.saveNodeResult({
+      orchestrationId: context.orchestrationId,
+      nodeId,
+      status: "skipped",
+      attemptNo: 1,
+      startedAt: now,
+      finishedAt: now,
+      correlationId: context.correlationId,
+    });
+    context.logger.info(`Node ${nodeId} skipped: ${reason}`, { nodeId });
+    this.metrics.incrementCounter("nodes_skipped");
+    this.events.emit({
+      type: "node.skipped",
+      orchestrationId: context.orchestrationId,
+      nodeId,
+      reason,
+    });
+  }
 
+  /**
+   * Execute a single node with retry logic and return its output
+   */
+  private async executeNode(
+    node: NodeSpec,
+    input: unknown,
+    context: ExecutionContext,
+  ): Promise<unknown> {
+    const nodeId = node.id;
     const nodeLogger = new StructuredLogger({
       correlationId: context.correlationId,
       orchestrationId: context.orchestrationId,
@@ -1406,108 +3181,207 @@ export class OrchestrationEngine {
     let attemptNo = 0;
     const startedAt = new Date();
 
+    // Serve identical earlier work from the node cache instead of re-running
+    const cacheKey = this.nodeCacheKey(node, input, context);
+    if (cacheKey) {
+      const cached = await this.reuseCachedNode(
+        node,
+        cacheKey,
+        context,
+        nodeLogger,
+      );
+      if (cached) {
+        nodeTimer();
+        return cached.output;
+      }
+    }
+
     try {
       // Execute with retry
-      const output = await retry(async () => {
-        attemptNo++;
-        const timeout = node.timeout || this.config.defaultNodeTimeoutMs;
-
-        nodeLogger.info(
-          `Executing node ${nodeId} (attempt ${attemptNo}/${retryConfig.maxAttempts})`,
-          {
-            timeout,
-            phase: node.phase,
-          },
-        );
-
-        try {
-          // Estimate cost if estimator provided (with actual input)
-          let estimatedTokens: TokenCount | undefined;
-          let estimatedUsd: USDCents | undefined;
-
-          if (node.estimate) {
-            const estimate = node.estimate(input);
-            estimatedTokens = estimate.tokens;
-            estimatedUsd = estimate.usd;
+      const output = await retry(
+        async () => {
+          attemptNo++;
+          const timeout = node.timeout || this.config.defaultNodeTimeoutMs;
+
+          nodeLogger.info(
+            `Executing node ${nodeId} (attempt ${attemptNo}/${retryConfig.maxAttempts})`,
+            {
+              timeout,
+              phase: node.phase,
+            },
+          );
+          this.events.emit({
+            type: "node.attempt.started",
+            orchestrationId: context.orchestrationId,
+            nodeId,
+            attemptNo,
+            maxAttempts: retryConfig.maxAttempts,
+          });
 
-            if (estimate.tokens) {
-              await context.budget.trackTokens(estimate.tokens);
-            }
-            if (estimate.usd) {
-              await context.budget.trackUsd(estimate.usd);
+          try {
+            // Estimate cost if estimator provided (with actual input)
+            let estimatedTokens: TokenCount | undefined;
+            let estimatedUsd: USDCents | undefined;
+            // Usage the node meters itself (e.g. LLM calls) replaces the estimate
+            const budget = context.budget.scope();
+
+            // Don't start another attempt once the run is cancelled
+            context.signal.throwIfAborted();
+
+            // Contract violations are deterministic, so they are never retried
+            const nodeInput = this.parseNodeInput(node, input);
+
+            if (node.estimate) {
+              const estimate = this.checkEstimate(
+                node,
+                node.estimate(nodeInput),
+              );
+              estimatedTokens = estimate.tokens;
+              estimatedUsd = estimate.usd;
+
+              if (estimate.tokens) {
+                await context.budget.trackTokens(estimate.tokens);
+              }
+              if (estimate.usd) {
+                await context.budget.trackUsd(estimate.usd);
+              }
+
+              // Always ensure within budget after estimation (even if estimates are 0)
+              this.emitBudgetWarnings(context);
+              await context.budget.ensureWithinBudget();
+
+              nodeLogger.info(`Node cost estimated`, {
+                estimatedTokens,
+                estimatedUsd,
+                nodeId,
+              });
             }
 
-            // Always ensure within budget after estimation (even if estimates are 0)
-            await context.budget.ensureWithinBudget();
+            // Execute with timeout (with actual input), recording artifacts
+            // so a cache hit can re-emit them later
+            const outbox = new OutboxBuffer(
+              `${context.orchestrationId}:${nodeId}`,
+            );
+            const storage = new RecordingStorageAdapter(
+              context.storage,
+              (path) =>
+                this.events.emit({
+                  type: "artifact.saved",
+                  orchestrationId: context.orchestrationId,
+                  nodeId,
+                  path,
+                }),
+            );
+            let output: unknown;
+            try {
+              output = await this.withTimeout(
+                node.run(nodeInput, {
+                  ...context,
+                  logger: nodeLogger,
+                  storage,
+                  outbox,
+                  budget,
+                }),
+                timeout,
+                context.signal,
+              );
+            } finally {
+              this.replaceEstimate(
+                context,
+                budget,
+                { tokens: estimatedTokens, usd: estimatedUsd },
+                nodeLogger,
+              );
+            }
+            const result = this.parseNodeOutput(node, output);
 
-            nodeLogger.info(`Node cost estimated`, {
-              estimatedTokens,
-              estimatedUsd,
+            // Save successful result
+            await this.repository.saveNodeResult({
+              orchestrationId: context.orchestrationId,
               nodeId,
+              status: "complete",
+              attemptNo,
+              startedAt,
+              finishedAt: new Date(),
+              output: result,
+              correlationId: context.correlationId,
+              cacheKey,
+              artifacts: storage.written,
+              outbox: outbox.messages,
             });
-          }
-
-          // Execute with timeout (with actual input)
-          const result = await this.withTimeout(
-            node.run(input, context),
-            timeout,
-          );
-
-          // Save successful result
-          await this.repository.saveNodeResult({
-            orchestrationId: context.orchestrationId,
-            nodeId,
-            status: "complete",
-            attemptNo,
-            startedAt,
-            finishedAt: new Date(),
-            output: result,
-            correlationId: context.correlationId,
-          });
 
-          // Check budget after execution
-          await context.budget.ensureWithinBudget();
+            // Check budget after execution
+            await context.budget.ensureWithinBudget();
 
-          return result;
-        } catch (error) {
-          // Log attempt failure with details
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          const isTimeout = errorMessage.includes("timed out");
-
-          nodeLogger.warn(`Node attempt ${attemptNo} failed`, {
-            error: errorMessage,
-            isTimeout,
-            timeout,
-            attemptNo,
-            maxAttempts: retryConfig.maxAttempts,
-          } as any);
+            return result;
+          } catch (error) {
+            // Log attempt failure with details
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            const isTimeout = errorMessage.includes("timed out");
+
+            nodeLogger.warn(`Node attempt ${attemptNo} failed`, {
+              error: errorMessage,
+              isTimeout,
+              timeout,
+              attemptNo,
+              maxAttempts: retryConfig.maxAttempts,
+            } as any);
+
+            const willRetry =
+              attemptNo < retryConfig.maxAttempts && isRetryable(error);
+            this.events.emit({
+              type: "node.attempt.failed",
+              orchestrationId: context.orchestrationId,
+              nodeId,
+              attemptNo,
+              error: errorMessage,
+              willRetry,
+            });
 
-          // Save failed attempt (but don't throw yet, retry will handle it)
-          await this.repository.saveNodeResult({
-            orchestrationId: context.orchestrationId,
-            nodeId,
-            status: attemptNo >= retryConfig.maxAttempts ? "failed" : "running",
-            attemptNo,
-            startedAt,
-            finishedAt: new Date(),
-            error: error as Error,
-            correlationId: context.correlationId,
-          });
+            // Save failed attempt (but don't throw yet, retry will handle it)
+            await this.repository.saveNodeResult({
+              orchestrationId: context.orchestrationId,
+              nodeId,
+              status: willRetry ? "running" : "failed",
+              attemptNo,
+              startedAt,
+              finishedAt: new Date(),
+              error: error as Error,
+              correlationId: context.correlationId,
+            });
 
-          throw error;
-        }
-      }, retryConfig);
+            throw error;
+          }
+        },
+        retryConfig,
+        isRetryable,
+      );
 
       nodeTimer();
+      const durationMs = Date.now() - startedAt.getTime();
       nodeLogger.info(`Node ${nodeId} completed successfully`, {
         attempts: attemptNo,
         phase: node.phase,
-        durationMs: Date.now() - startedAt.getTime(),
+        durationMs,
       });
       this.metrics.incrementCounter("nodes_completed");
+      this.events.emit({
+        type: "node.completed",
+        orchestrationId: context.orchestrationId,
+        nodeId,
+        attempts: attemptNo,
+        cached: false,
+        durationMs,
+      });
+      return output;
     } catch (error) {
       nodeTimer();
+      if (error instanceof OrchestrationStoppedError) {
+        nodeLogger.warn(`Node ${nodeId} aborted: ${error.message}`);
+        this.metrics.incrementCounter("nodes_aborted");
+        throw error;
+      }
       nodeLogger.error(
         `Node ${nodeId} failed after ${attemptNo} attempts`,
         error as Error,
@@ -1520,27 +3394,221 @@ export class OrchestrationEngine {
   }
 
   /**
-   * Execute a promise with timeout (with proper cleanup)
+   * Refund the estimated tokens/USD of a node attempt that reported metered
+   * usage of the same kind through its budget scope, so spend is not
+   * counted twice. Estimates stay charged for nodes that meter nothing.
+   */
+  private replaceEstimate(
+    context: ExecutionContext,
+    scope: BudgetTracker,
+    estimate: { tokens?: TokenCount; usd?: USDCents },
+    logger: Logger,
+  ): void {
+    const metered = scope.getTracked();
+    if (metered.tokens === 0 && metered.usd === 0) return;
+
+    const refundTokens = metered.tokens > 0 ? (estimate.tokens ?? 0) : 0;
+    const refundUsd = metered.usd > 0 ? (estimate.usd ?? 0) : 0;
+    context.budget.refund(refundTokens as TokenCount, refundUsd as USDCents);
+    logger.info("Node usage metered", {
+      meteredTokens: metered.tokens,
+      meteredUsd: metered.usd,
+      estimatedTokens: estimate.tokens,
+      estimatedUsd: estimate.usd,
+    });
+  }
+
+  /**
+   * Emit a budget.warning for every budget that just crossed 80% of its limit
+   */
+  private emitBudgetWarnings(context: ExecutionContext): void {
+    for (const warning of context.budget.takeWarnings()) {
+      this.events.emit({
+        type: "budget.warning",
+        orchestrationId: context.orchestrationId,
+        ...warning,
+      });
+    }
+  }
+
+  /**
+   * Cache key over the node's parsed input, i.e. only the upstream data the
+   * node can actually read. Undefined when caching is off or the input is
+   * invalid (the attempt loop reports that).
+   */
+  private nodeCacheKey(
+    node: NodeSpec,
+    input: unknown,
+    context: ExecutionContext,
+  ): string | undefined {
+    if (this.config.nodeCache === false || node.cache === false) return;
+    const parsed = node.input ? node.input.safeParse(input) : undefined;
+    if (parsed && !parsed.success) return;
+    return computeNodeCacheKey(
+      node,
+      parsed ? parsed.data : input,
+      context.orchestrationId,
+    );
+  }
+
+  /**
+   * Complete a node from a matching earlier run: copy its artifacts into this
+   * orchestration and record the relocated output. Returns null on a miss or
+   * when the cached artifacts can no longer be copied.
+   */
+  private async reuseCachedNode(
+    node: NodeSpec,
+    cacheKey: string,
+    context: ExecutionContext,
+    nodeLogger: Logger,
+  ): Promise<{ output: unknown } | null> {
+    const cached = await this.repository.findCachedNode({
+      userId: context.userId,
+      nodeId: node.id,
+      cacheKey,
+    });
+    if (!cached) return null;
+
+    const startedAt = new Date();
+    const artifacts: string[] = [];
+    try {
+      for (const from of cached.artifacts) {
+        const to = relocateArtifactPaths(
+          from,
+          cached.orchestrationId,
+          context.orchestrationId,
+        );
+        await context.storage.copyArtifact(from, to);
+        artifacts.push(to);
+        this.events.emit({
+          type: "artifact.saved",
+          orchestrationId: context.orchestrationId,
+          nodeId: node.id,
+          path: to,
+        });
+      }
+    } catch (error) {
+      nodeLogger.warn(`Cached result for ${node.id} unusable, re-running`, {
+        cacheKey,
+        sourceOrchestrationId: cached.orchestrationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+
+    const output = relocateArtifactPaths(
+      cached.output,
+      cached.orchestrationId,
+      context.orchestrationId,
+    );
+    await this.repository.saveNodeResult({
+      orchestrationId: context.orchestrationId,
+      nodeId: node.id,
+      status: "complete",
+      attemptNo: 1,
+      startedAt,
+      finishedAt: new Date(),
+      output,
+      correlationId: context.correlationId,
+      cacheKey,
+      artifacts,
+    });
+
+    nodeLogger.info(`Node ${node.id} served from cache`, {
+      cacheKey,
+      sourceOrchestrationId: cached.orchestrationId,
+      artifacts: artifacts.length,
+    });
+    this.metrics.incrementCounter("nodes_cached");
+    this.events.emit({
+      type: "node.completed",
+      orchestrationId: context.orchestrationId,
+      nodeId: node.id,
+      attempts: 0,
+      cached: true,
+      durationMs: Date.now() - startedAt.getTime(),
+    });
+    return { output };
+  }
+
+  /**
+   * Parse node input against its declared schema (defaults applied)
+   */
+  private parseNodeInput(node: NodeSpec, input: unknown): unknown {
+    if (!node.input) return input;
+    const parsed = node.input.safeParse(input);
+    if (!parsed.success) {
+      throw new ValidationError(
+        `Node ${node.id} received invalid input`,
+        parsed.error,
+      );
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Validate node output against its declared schema
+   */
+  private parseNodeOutput(node: NodeSpec, output: unknown): unknown {
+    if (!node.output) return output;
+    const parsed = node.output.safeParse(output);
+    if (!parsed.success) {
+      throw new ValidationError(
+        `Node ${node.id} returned invalid output`,
+        parsed.error,
+      );
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Ensure an estimate is whole tokens and whole USD cents
+   */
+  private checkEstimate(
+    node: NodeSpec,
+    estimate: { tokens: TokenCount; usd: USDCents },
+  ): { tokens: TokenCount; usd: USDCents } {
+    const parsed = EstimateSchema.safeParse(estimate);
+    if (!parsed.success) {
+      throw new ValidationError(
+        `Node ${node.id} returned an invalid estimate (expected integer tokens and USD cents)`,
+        parsed.error,
+      );
+    }
+    return estimate;
+  }
+
+  /**
+   * Execute a promise with timeout and abort signal (with proper cleanup).
+   * Rejects as soon as the signal aborts, even if the node ignores it.
    */
   private async withTimeout<T>(
     promise: Promise<T>,
     timeoutMs: number,
+    signal: AbortSignal,
   ): Promise<T> {
     let timeoutId: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
 
     const timeoutPromise = new Promise<never>((_, reject) => {
       timeoutId = setTimeout(() => {
         reject(new Error(`Operation timed out after ${timeoutMs}ms`));
       }, timeoutMs);
     });
+    const abortPromise = new Promise<never>((_, reject) => {
+      onAbort = () => reject(signal.reason);
+      if (signal.aborted) onAbort();
+      else signal.addEventListener("abort", onAbort, { once: true });
+    });
 
     try {
-      return await Promise.race([promise, timeoutPromise]);
+      return await Promise.race([promise, timeoutPromise, abortPromise]);
     } finally {
       // Critical: Clear the timer to prevent memory leak and unhandled rejection
       if (timeoutId) {
         clearTimeout(timeoutId);
       }
+      if (onAbort) signal.removeEventListener("abort", onAbort);
     }
   }
 
@@ -1604,9 +3672,13 @@ const engine = new OrchestrationEngine(
     }
   },
   new SupabaseRepository(supabase),
-  supabase
+  new SupabaseBackend(supabase)
 )
 
+// Or fully offline (see engine/localBackend.ts)
+// const store = new LocalStore('.lesiab/state.json')
+// new OrchestrationEngine(config, new LocalRepository(store), new LocalBackend(store))
+
 // Define blueprint
 const blueprint: Blueprint = {
   id: 'code-gen-v1',
@@ -1670,117 +3742,17 @@ console.log('Stats:', engine.getStats())
 // ============= DATABASE SCHEMA (PostgreSQL/Supabase) =============
 
 /*
--- Orchestrations table with idempotency
-CREATE TABLE orchestrations (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL,
-  blueprint_id TEXT NOT NULL,
-  status TEXT NOT NULL DEFAULT 'pending',
-  status_reason TEXT,
-  checkpoint JSONB,
-  plan_hash TEXT,
-  idempotency_key TEXT,
-  correlation_id TEXT,
-  metadata JSONB,
-  created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW(),
-  UNIQUE(user_id, idempotency_key)
-);
-
-CREATE INDEX idx_orchestrations_user_status ON orchestrations(user_id, status);
-CREATE INDEX idx_orchestrations_created ON orchestrations(created_at DESC);
-
--- Node execution results with idempotency
-CREATE TABLE orchestration_nodes (
-  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-  orchestration_id TEXT NOT NULL REFERENCES orchestrations(id) ON DELETE CASCADE,
-  node_id TEXT NOT NULL,
-  status TEXT NOT NULL,
-  attempt_no INTEGER NOT NULL DEFAULT 1,
-  started_at TIMESTAMPTZ,
-  finished_at TIMESTAMPTZ,
-  output_ref JSONB,
-  error JSONB,
-  correlation_id TEXT,
-  created_at TIMESTAMPTZ DEFAULT NOW(),
-  UNIQUE(orchestration_id, node_id, attempt_no)
-);
-
-CREATE INDEX idx_nodes_orchestration ON orchestration_nodes(orchestration_id);
-
--- Job queue for background processing
-CREATE TABLE job_queue (
-  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-  orchestration_id TEXT NOT NULL,
-  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-  status TEXT NOT NULL DEFAULT 'pending',
-  attempts INTEGER DEFAULT 0,
-  locked_by TEXT,
-  locked_at TIMESTAMPTZ,
-  priority INTEGER DEFAULT 0,
-  created_at TIMESTAMPTZ DEFAULT NOW()
-);
-
-CREATE INDEX idx_job_queue_status_run ON job_queue(status, run_at);
-
--- Artifacts storage references
-CREATE TABLE artifacts (
-  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-  orchestration_id TEXT NOT NULL REFERENCES orchestrations(id) ON DELETE CASCADE,
-  path TEXT NOT NULL,
-  kind TEXT,
-  bytes INTEGER,
-  created_at TIMESTAMPTZ DEFAULT NOW()
-);
-
-CREATE INDEX idx_artifacts_orchestration ON artifacts(orchestration_id);
-
--- Usage aggregates for quotas
-CREATE TABLE usage_aggregates (
-  user_id TEXT NOT NULL,
-  day DATE NOT NULL,
-  orchestrations_started INTEGER DEFAULT 0,
-  tokens_used INTEGER DEFAULT 0,
-  usd_spent DECIMAL(10,2) DEFAULT 0,
-  correlation_id TEXT,
-  updated_at TIMESTAMPTZ DEFAULT NOW(),
-  PRIMARY KEY (user_id, day)
-);
-
--- Outbox for reliable side effects
-CREATE TABLE outbox (
-  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-  kind TEXT NOT NULL,
-  payload JSONB NOT NULL,
-  unique_key TEXT UNIQUE,
-  processed_at TIMESTAMPTZ,
-  created_at TIMESTAMPTZ DEFAULT NOW()
-);
-
--- Enable Row Level Security
-ALTER TABLE orchestrations ENABLE ROW LEVEL SECURITY;
-ALTER TABLE orchestration_nodes ENABLE ROW LEVEL SECURITY;
-ALTER TABLE artifacts ENABLE ROW LEVEL SECURITY;
-ALTER TABLE usage_aggregates ENABLE ROW LEVEL SECURITY;
-
--- RLS Policies
-CREATE POLICY orchestrations_user_isolation ON orchestrations
-  USING (auth.uid() = user_id);
-
-CREATE POLICY nodes_user_isolation ON orchestration_nodes
-  USING (EXISTS (
-    SELECT 1 FROM orchestrations 
-    WHERE orchestrations.id = orchestration_nodes.orchestration_id 
-    AND orchestrations.user_id = auth.uid()
-  ));
-
-CREATE POLICY artifacts_user_isolation ON artifacts
-  USING (EXISTS (
-    SELECT 1 FROM orchestrations 
-    WHERE orchestrations.id = artifacts.orchestration_id 
-    AND orchestrations.user_id = auth.uid()
-  ));
-
-CREATE POLICY usage_user_isolation ON usage_aggregates
-  USING (auth.uid() = user_id);
+The tables used by SupabaseRepository, SupabaseCheckpointManager and the job
+queue live in supabase/migrations (apply with `npx tsx scripts/migrate.ts` or
+`supabase db push`):
+
+  0004_job_queue.sql            job_queue, claim_jobs()
+  0005_outbox.sql               outbox, write_with_outbox(), claim_outbox()
+  0006_orchestrations.sql       orchestrations, orchestration_nodes, artifacts,
+                                usage_aggregates (orchestrations_started is
+                                bumped by an insert trigger), artifacts bucket
+  0007_orchestrations_rls.sql   owner read policies (user_id = auth.uid())
+  0008_usage_quotas.sql         quota_plans, user_plans, increment_usage(),
+                                quota_plan_for()
+  0009_partially_complete.sql   'partially_complete' orchestration status
 */
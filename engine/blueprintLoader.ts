@@ -0,0 +1,137 @@
+// path: engine/blueprintLoader.ts
+/**
+ * Declarative blueprint loading.
+ *
+ * A blueprint file (see blueprint/blueprint.example.json) only lists node ids,
+ * phases and edges, plus optional failure policies: `failurePolicy` for the
+ * whole blueprint and `onFailure` per node, which overrides the one the node
+ * was registered with. The loader resolves every id against a node registry,
+ * validates the resulting Blueprint and computes its execution batches, so a
+ * new node only has to be registered once to become runnable.
+ */
+import { promises as fs } from "fs";
+import { z } from "zod";
+import {
+  DependencyResolver,
+  ValidationError,
+  validateBlueprint,
+  type Blueprint,
+  type NodeId,
+  type NodeSpec,
+} from "./OrchestrationEngine";
+
+// ============= NODE REGISTRY =============
+
+export type NodeRegistry = ReadonlyMap<string, NodeSpec>;
+
+export function createNodeRegistry(nodes: NodeSpec[]): NodeRegistry {
+  const registry = new Map<string, NodeSpec>();
+  for (const node of nodes) {
+    if (registry.has(node.id)) {
+      throw new ValidationError(
+        `Node registered twice: ${node.id}`,
+        new z.ZodError([]),
+      );
+    }
+    registry.set(node.id, node);
+  }
+  return registry;
+}
+
+// ============= BLUEPRINT FILES =============
+
+const PhaseSchema = z.enum([
+  "processResponses",
+  "analyze",
+  "validate",
+  "plan",
+  "execute",
+  "codeGeneration",
+  "integrate",
+  "finalize",
+]);
+
+const FailurePolicySchema = z.enum(["fail-fast", "continue", "optional"]);
+
+const BlueprintFileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).optional(),
+  version: z.string(),
+  nodes: z.array(
+    z.object({
+      id: z.string().min(1),
+      phase: PhaseSchema,
+      onFailure: FailurePolicySchema.optional(),
+    }),
+  ),
+  edges: z.array(z.object({ from: z.string().min(1), to: z.string().min(1) })),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  failurePolicy: FailurePolicySchema.optional(),
+});
+
+export type BlueprintFile = z.infer<typeof BlueprintFileSchema>;
+
+export interface LoadedBlueprint {
+  blueprint: Blueprint;
+  batches: NodeId[][];
+}
+
+/**
+ * Bind a parsed blueprint document to registered nodes.
+ * Throws ValidationError for unknown node ids, phase mismatches, invalid
+ * edges and cycles.
+ */
+export function loadBlueprint(
+  source: unknown,
+  registry: NodeRegistry,
+): LoadedBlueprint {
+  const parsed = BlueprintFileSchema.safeParse(source);
+  if (!parsed.success) {
+    throw new ValidationError("Invalid blueprint file", parsed.error);
+  }
+  const file = parsed.data;
+
+  const nodes = file.nodes.map((entry) => {
+    const node = registry.get(entry.id);
+    if (!node) {
+      throw new ValidationError(
+        `Blueprint references unregistered node: ${entry.id}`,
+        new z.ZodError([]),
+      );
+    }
+    if (node.phase !== entry.phase) {
+      throw new ValidationError(
+        `Phase mismatch for ${entry.id}: blueprint says ${entry.phase}, node declares ${node.phase}`,
+        new z.ZodError([]),
+      );
+    }
+    return entry.onFailure ? { ...node, onFailure: entry.onFailure } : node;
+  });
+
+  const blueprint: Blueprint = {
+    id: file.id,
+    name: file.name ?? file.id,
+    version: file.version,
+    nodes,
+    edges: file.edges.map((e) => ({
+      from: e.from as NodeId,
+      to: e.to as NodeId,
+    })),
+    metadata: file.metadata,
+    failurePolicy: file.failurePolicy,
+  };
+
+  validateBlueprint(blueprint);
+  const batches = new DependencyResolver().getBatches(blueprint);
+
+  return { blueprint, batches };
+}
+
+/** Read a blueprint JSON file from disk and bind it to registered nodes */
+export async function loadBlueprintFile(
+  filePath: string,
+  registry: NodeRegistry,
+): Promise<LoadedBlueprint> {
+  const raw = await fs.readFile(filePath, "utf8");
+  return loadBlueprint(JSON.parse(raw), registry);
+}
@@ -0,0 +1,448 @@
+// path: engine/cassette.ts
+/**
+ * Record/replay for the engine's I/O seams.
+ *
+ * A Cassette captures request/response pairs to a JSON fixture file while a
+ * run talks to real services ("record"), then answers the same requests from
+ * the file with no network or database ("replay"). CassetteRepository and
+ * CassetteBackend wrap the Repository and EngineBackend (storage and
+ * checkpoints); CassetteLlmProvider (lib/ai/gateway.ts) wraps LLM providers.
+ *
+ * Requests are matched by a hash of their content, so concurrent nodes may
+ * replay in any order. Timestamps are left out of the match; everything else,
+ * including artifact bytes, must be identical. A request that was never
+ * recorded throws CassetteMissError, which is what makes a replayed run a
+ * snapshot test: change what a node generates and its saveArtifact misses.
+ * Responses are stored with superjson (Dates, Maps, bytes) and come back
+ * byte-for-byte; recorded errors are thrown again by message.
+ */
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import SuperJSON from "superjson";
+import type { SuperJSONResult } from "superjson";
+import type {
+  CachedNodeResult,
+  Checkpoint,
+  CheckpointManager,
+  EngineBackend,
+  IdempotencyKey,
+  NodeId,
+  NodeResultRecord,
+  OrchestrationId,
+  OrchestrationRecord,
+  OrchestrationStatus,
+  OutboxMessage,
+  Repository,
+  StorageAdapter,
+  UsageSummary,
+  UserId,
+} from "./OrchestrationEngine";
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteEntry {
+  kind: string;
+  key: string;
+  /** Position among calls with the same key */
+  seq: number;
+  /** The request as matched (canonical form), for reading diffs */
+  request: unknown;
+  response?: SuperJSONResult;
+  error?: { name: string; message: string };
+}
+
+interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+/** Replay met a request that is not on the cassette. */
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly kind: string,
+    public readonly request: unknown,
+  ) {
+    const preview = JSON.stringify(request);
+    super(
+      `No recorded ${kind} call matches ${
+        preview.length > 300 ? `${preview.slice(0, 300)}…` : preview
+      }`,
+    );
+    this.name = "CassetteMissError";
+  }
+}
+
+// Stores artifact bytes as base64 rather than a JSON array of numbers
+const serializer = new SuperJSON();
+serializer.registerCustom<Uint8Array, string>(
+  {
+    isApplicable: (v): v is Uint8Array => v instanceof Uint8Array,
+    serialize: (v) => Buffer.from(v).toString("base64"),
+    deserialize: (v) => new Uint8Array(Buffer.from(v, "base64")),
+  },
+  "Uint8Array",
+);
+
+const LONG_STRING = 1000;
+
+function sha256(payload: string | Uint8Array): string {
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+/**
+ * The part of a request that must match on replay. Dates are wall-clock
+ * noise; long strings and bytes are kept as hashes so the file stays
+ * readable; object keys are sorted and undefined fields dropped.
+ */
+export function canonicalizeRequest(value: unknown): unknown {
+  if (value instanceof Date) return "<date>";
+  if (value instanceof Uint8Array) return { bytes: sha256(value) };
+  if (value instanceof Error)
+    return { name: value.name, message: value.message };
+  if (typeof value === "string") {
+    return value.length > LONG_STRING ? { sha256: sha256(value) } : value;
+  }
+  if (value instanceof Set) {
+    return Array.from(value, canonicalizeRequest).sort((a, b) =>
+      JSON.stringify(a).localeCompare(JSON.stringify(b)),
+    );
+  }
+  if (value instanceof Map) {
+    return canonicalizeRequest(Object.fromEntries(value));
+  }
+  if (Array.isArray(value)) return value.map(canonicalizeRequest);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([k, v]) => [k, canonicalizeRequest(v)]),
+    );
+  }
+  return value;
+}
+
+export class Cassette {
+  private readonly entries: CassetteEntry[] = [];
+  // record: calls seen per key; replay: entries per key and the next one
+  private readonly seen = new Map<string, number>();
+  private readonly byKey = new Map<string, CassetteEntry[]>();
+  private readonly played = new Map<string, number>();
+
+  private constructor(
+    readonly file: string,
+    readonly mode: CassetteMode,
+    entries: CassetteEntry[] = [],
+  ) {
+    for (const entry of entries) {
+      this.entries.push(entry);
+      const list = this.byKey.get(entry.key) ?? [];
+      list.push(entry);
+      this.byKey.set(entry.key, list);
+    }
+    for (const list of this.byKey.values()) list.sort((a, b) => a.seq - b.seq);
+  }
+
+  /** Start an empty recording, or load one to replay. */
+  static async open(file: string, mode: CassetteMode): Promise<Cassette> {
+    if (mode === "record") return new Cassette(file, mode);
+    const raw = JSON.parse(await fs.readFile(file, "utf8")) as CassetteFile;
+    if (raw.version !== 1) {
+      throw new Error(`Unsupported cassette version in ${file}`);
+    }
+    return new Cassette(file, mode, raw.entries);
+  }
+
+  /**
+   * Record `live()` under (kind, request), or answer from the recording.
+   * Repeated identical requests replay in recorded order; once those run out
+   * the last answer repeats (pollers ask more or less often than they did).
+   */
+  async call<T>(
+    kind: string,
+    request: unknown,
+    live: (() => Promise<T>) | undefined,
+  ): Promise<T> {
+    const canonical = canonicalizeRequest(request);
+    const key = sha256(`${kind}\n${JSON.stringify(canonical)}`).slice(0, 32);
+
+    if (this.mode === "replay") {
+      const list = this.byKey.get(key);
+      if (!list) throw new CassetteMissError(kind, canonical);
+      const next = this.played.get(key) ?? 0;
+      this.played.set(key, next + 1);
+      const entry = list[Math.min(next, list.length - 1)]!;
+      if (entry.error) {
+        throw Object.assign(new Error(entry.error.message), {
+          name: entry.error.name,
+        });
+      }
+      return serializer.deserialize<T>(entry.response!);
+    }
+
+    if (!live) throw new Error(`Cannot record ${kind} without a live target`);
+    const seq = this.seen.get(key) ?? 0;
+    this.seen.set(key, seq + 1);
+    const entry: CassetteEntry = { kind, key, seq, request: canonical };
+    this.entries.push(entry);
+    try {
+      const response = await live();
+      entry.response = serializer.serialize(response);
+      return response;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      entry.error = { name: err.name, message: err.message };
+      throw error;
+    }
+  }
+
+  /** Recorded calls replay never asked for, e.g. an artifact no longer written */
+  unplayed(): CassetteEntry[] {
+    return this.entries.filter(
+      (entry) => (this.played.get(entry.key) ?? 0) <= entry.seq,
+    );
+  }
+
+  /**
+   * Write the recording, sorted by kind and key so that re-recording an
+   * unchanged run diffs cleanly however its nodes interleaved.
+   */
+  async save(): Promise<void> {
+    if (this.mode !== "record") return;
+    const entries = [...this.entries].sort(
+      (a, b) =>
+        a.kind.localeCompare(b.kind) ||
+        a.key.localeCompare(b.key) ||
+        a.seq - b.seq,
+    );
+    const body: CassetteFile = { version: 1, entries };
+    await fs.mkdir(path.dirname(path.resolve(this.file)), { recursive: true });
+    await fs.writeFile(this.file, `${JSON.stringify(body, null, 2)}\n`);
+  }
+}
+
+// ============= WRAPPERS =============
+
+/** A Repository that records to, or replays from, a cassette. */
+export class CassetteRepository implements Repository {
+  /** `inner` may be omitted when replaying */
+  constructor(
+    private readonly cassette: Cassette,
+    private readonly inner?: Repository,
+  ) {}
+
+  private call<T>(
+    method: keyof Repository,
+    args: unknown[],
+    live: (inner: Repository) => Promise<T>,
+  ): Promise<T> {
+    const inner = this.inner;
+    return this.cassette.call(
+      `repository.${method}`,
+      args,
+      inner && (() => live(inner)),
+    );
+  }
+
+  createOrchestration(args: Parameters<Repository["createOrchestration"]>[0]) {
+    return this.call("createOrchestration", [args], (r) =>
+      r.createOrchestration(args),
+    );
+  }
+
+  getOrchestration(id: OrchestrationId): Promise<OrchestrationRecord | null> {
+    return this.call("getOrchestration", [id], (r) => r.getOrchestration(id));
+  }
+
+  findOrchestrationByIdempotencyKey(
+    userId: UserId,
+    idempotencyKey: IdempotencyKey,
+  ): Promise<OrchestrationRecord | null> {
+    return this.call(
+      "findOrchestrationByIdempotencyKey",
+      [userId, idempotencyKey],
+      (r) => r.findOrchestrationByIdempotencyKey(userId, idempotencyKey),
+    );
+  }
+
+  listOrchestrations(
+    userId: UserId,
+    options?: { limit?: number; before?: Date },
+  ): Promise<OrchestrationRecord[]> {
+    return this.call("listOrchestrations", [userId, options], (r) =>
+      r.listOrchestrations(userId, options),
+    );
+  }
+
+  listNodeResults(
+    orchestrationId: OrchestrationId,
+  ): Promise<NodeResultRecord[]> {
+    return this.call("listNodeResults", [orchestrationId], (r) =>
+      r.listNodeResults(orchestrationId),
+    );
+  }
+
+  updateStatus(
+    id: OrchestrationId,
+    status: OrchestrationStatus,
+    statusReason?: string,
+    outbox?: OutboxMessage[],
+  ): Promise<void> {
+    return this.call("updateStatus", [id, status, statusReason, outbox], (r) =>
+      r.updateStatus(id, status, statusReason, outbox),
+    );
+  }
+
+  saveNodeResult(args: Parameters<Repository["saveNodeResult"]>[0]) {
+    return this.call("saveNodeResult", [args], (r) => r.saveNodeResult(args));
+  }
+
+  findCachedNode(args: {
+    userId: UserId;
+    nodeId: NodeId;
+    cacheKey: string;
+  }): Promise<CachedNodeResult | null> {
+    return this.call("findCachedNode", [args], (r) => r.findCachedNode(args));
+  }
+
+  savePlan(
+    id: OrchestrationId,
+    planHash: string,
+    batches: NodeId[][],
+  ): Promise<void> {
+    return this.call("savePlan", [id, planHash, batches], (r) =>
+      r.savePlan(id, planHash, batches),
+    );
+  }
+
+  trackUsage(args: Parameters<Repository["trackUsage"]>[0]) {
+    return this.call("trackUsage", [args], (r) => r.trackUsage(args));
+  }
+
+  getUsage(userId: UserId, now?: Date): Promise<UsageSummary> {
+    return this.call("getUsage", [userId, now], (r) => r.getUsage(userId, now));
+  }
+
+  listArtifacts(
+    orchestrationId: OrchestrationId,
+  ): Promise<Array<{ path: string; size: number }>> {
+    return this.call("listArtifacts", [orchestrationId], (r) =>
+      r.listArtifacts(orchestrationId),
+    );
+  }
+
+  signArtifact(artifact: { path: string }, ttl?: number): Promise<string> {
+    return this.call("signArtifact", [artifact, ttl], (r) =>
+      r.signArtifact(artifact, ttl),
+    );
+  }
+}
+
+class CassetteStorageAdapter implements StorageAdapter {
+  constructor(
+    private readonly cassette: Cassette,
+    private readonly orchestrationId: OrchestrationId,
+    private readonly inner?: StorageAdapter,
+  ) {}
+
+  private call<T>(
+    method: keyof StorageAdapter,
+    args: unknown[],
+    live: (inner: StorageAdapter) => Promise<T>,
+  ): Promise<T> {
+    const inner = this.inner;
+    return this.cassette.call(
+      `storage.${method}`,
+      [this.orchestrationId, ...args],
+      inner && (() => live(inner)),
+    );
+  }
+
+  saveArtifact(path: string, content: Uint8Array | string): Promise<string> {
+    return this.call("saveArtifact", [path, content], (s) =>
+      s.saveArtifact(path, content),
+    );
+  }
+
+  copyArtifact(fromPath: string, toPath: string): Promise<string> {
+    return this.call("copyArtifact", [fromPath, toPath], (s) =>
+      s.copyArtifact(fromPath, toPath),
+    );
+  }
+
+  readArtifact(path: string): Promise<string | null> {
+    return this.call("readArtifact", [path], (s) => s.readArtifact(path));
+  }
+
+  getSignedUrl(path: string, expiresIn?: number): Promise<string> {
+    return this.call("getSignedUrl", [path, expiresIn], (s) =>
+      s.getSignedUrl(path, expiresIn),
+    );
+  }
+
+  listArtifacts(prefix: string): Promise<string[]> {
+    return this.call("listArtifacts", [prefix], (s) => s.listArtifacts(prefix));
+  }
+}
+
+class CassetteCheckpointManager implements CheckpointManager {
+  constructor(
+    private readonly cassette: Cassette,
+    private readonly orchestrationId: OrchestrationId,
+    private readonly inner?: CheckpointManager,
+  ) {}
+
+  private call<T>(
+    method: keyof CheckpointManager,
+    args: unknown[],
+    live: (inner: CheckpointManager) => Promise<T>,
+  ): Promise<T> {
+    const inner = this.inner;
+    return this.cassette.call(
+      `checkpoint.${method}`,
+      [this.orchestrationId, ...args],
+      inner && (() => live(inner)),
+    );
+  }
+
+  // Matched without its content: which nodes a checkpoint holds depends on
+  // how concurrent nodes happened to finish
+  save(checkpoint: Checkpoint): Promise<void> {
+    return this.call("save", [], (c) => c.save(checkpoint));
+  }
+
+  load(): Promise<Checkpoint | null> {
+    return this.call("load", [], (c) => c.load());
+  }
+
+  markNodeComplete(nodeId: NodeId): Promise<void> {
+    return this.call("markNodeComplete", [nodeId], (c) =>
+      c.markNodeComplete(nodeId),
+    );
+  }
+}
+
+/** Storage and checkpoints through a cassette; `inner` only when recording. */
+export class CassetteBackend implements EngineBackend {
+  constructor(
+    private readonly cassette: Cassette,
+    private readonly inner?: EngineBackend,
+  ) {}
+
+  createStorage(orchestrationId: OrchestrationId): StorageAdapter {
+    return new CassetteStorageAdapter(
+      this.cassette,
+      orchestrationId,
+      this.inner?.createStorage(orchestrationId),
+    );
+  }
+
+  createCheckpointManager(orchestrationId: OrchestrationId): CheckpointManager {
+    return new CassetteCheckpointManager(
+      this.cassette,
+      orchestrationId,
+      this.inner?.createCheckpointManager(orchestrationId),
+    );
+  }
+}
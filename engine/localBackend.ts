@@ -0,0 +1,692 @@
+// path: engine/localBackend.ts
+/**
+ * Offline implementations of the engine's persistence seams.
+ *
+ * Everything is kept in a single JSON file whose "tables" mirror the Supabase
+ * schema (snake_case columns), so the engine runs the exact same code path —
+ * quotas, retries, checkpoints, node results — on a laptop or in CI.
+ * Artifacts are written to the local filesystem.
+ *
+ * Writes are serialized per store instance and persisted atomically
+ * (write to a temp file, then rename). Pass a fixed `now` for deterministic runs.
+ */
+import { promises as fs } from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import type {
+  CachedNodeResult,
+  Checkpoint,
+  CheckpointManager,
+  EngineBackend,
+  IdempotencyKey,
+  NodeId,
+  NodeResultRecord,
+  NodeStatus,
+  OrchestrationId,
+  OrchestrationRecord,
+  OrchestrationStatus,
+  OutboxKind,
+  OutboxMessage,
+  QuotaPlan,
+  Repository,
+  SerializableCheckpoint,
+  StorageAdapter,
+  TokenCount,
+  USDCents,
+  UsageSummary,
+  UserId,
+} from "./OrchestrationEngine";
+import {
+  DEFAULT_QUOTA_PLAN,
+  deserializeCheckpoint,
+  parseOutputRef,
+  serializeCheckpoint,
+  toNodeResultRecord,
+  toOrchestrationRecord,
+  toUsageSummary,
+} from "./OrchestrationEngine";
+
+// ============= LOCAL STORE =============
+
+export interface LocalOrchestrationRow {
+  id: string;
+  user_id: string;
+  blueprint_id: string;
+  status: OrchestrationStatus;
+  status_reason: string | null;
+  checkpoint: SerializableCheckpoint | null;
+  plan_hash: string | null;
+  idempotency_key: string | null;
+  correlation_id: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LocalNodeRow {
+  orchestration_id: string;
+  node_id: string;
+  status: NodeStatus;
+  attempt_no: number;
+  started_at: string | null;
+  finished_at: string | null;
+  output_ref: string | null;
+  error: { message: string; stack?: string; name: string } | null;
+  correlation_id: string | null;
+  cache_key: string | null;
+  artifacts: string[] | null;
+  created_at: string;
+}
+
+export interface LocalArtifactRow {
+  orchestration_id: string;
+  path: string;
+  kind: string | null;
+  bytes: number;
+  created_at: string;
+}
+
+export interface LocalUsageRow {
+  user_id: string;
+  day: string;
+  orchestrations_started: number;
+  tokens_used: number;
+  usd_spent: number;
+  correlation_id: string | null;
+  updated_at: string;
+}
+
+export interface LocalOutboxRow {
+  kind: OutboxKind;
+  payload: unknown;
+  unique_key: string;
+  processed_at: string | null;
+  created_at: string;
+}
+
+export interface LocalTables {
+  orchestrations: LocalOrchestrationRow[];
+  orchestration_nodes: LocalNodeRow[];
+  artifacts: LocalArtifactRow[];
+  usage_aggregates: LocalUsageRow[];
+  // Recorded only; nothing dispatches offline
+  outbox: LocalOutboxRow[];
+}
+
+export interface LocalStoreOptions {
+  now?: () => Date;
+}
+
+const emptyTables = (): LocalTables => ({
+  orchestrations: [],
+  orchestration_nodes: [],
+  artifacts: [],
+  usage_aggregates: [],
+  outbox: [],
+});
+
+export class LocalStore {
+  private queue: Promise<unknown> = Promise.resolve();
+  readonly now: () => Date;
+
+  constructor(
+    private readonly filePath: string,
+    options: LocalStoreOptions = {},
+  ) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Read a snapshot of all tables (waits for pending writes) */
+  async read(): Promise<LocalTables> {
+    await this.queue.catch(() => undefined);
+    return this.load();
+  }
+
+  /**
+   * Run a read-modify-write against the tables.
+   * Transactions run one at a time; the file is only rewritten on success.
+   */
+  transact<T>(fn: (tables: LocalTables) => T): Promise<T> {
+    const run = async () => {
+      const tables = await this.load();
+      const result = fn(tables);
+      await this.persist(tables);
+      return result;
+    };
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /** Remove an orchestration and everything that belongs to it */
+  async deleteOrchestration(id: OrchestrationId): Promise<void> {
+    await this.transact((t) => {
+      t.orchestrations = t.orchestrations.filter((o) => o.id !== id);
+      t.orchestration_nodes = t.orchestration_nodes.filter(
+        (n) => n.orchestration_id !== id,
+      );
+      t.artifacts = t.artifacts.filter((a) => a.orchestration_id !== id);
+    });
+  }
+
+  /**
+   * Prepare an orchestration to run again from scratch: drop its checkpoint,
+   * status and artifact rows, but keep successful node results (as attempt 1)
+   * so unchanged nodes are served from the node cache.
+   */
+  async resetOrchestration(id: OrchestrationId): Promise<void> {
+    await this.transact((t) => {
+      const row = t.orchestrations.find((o) => o.id === id);
+      if (!row) return;
+      row.status = "pending";
+      row.status_reason = null;
+      row.checkpoint = null;
+      row.updated_at = this.now().toISOString();
+
+      t.orchestration_nodes = t.orchestration_nodes
+        .filter((n) => n.orchestration_id !== id || n.status === "complete")
+        .map((n) => (n.orchestration_id === id ? { ...n, attempt_no: 1 } : n));
+      t.artifacts = t.artifacts.filter((a) => a.orchestration_id !== id);
+    });
+  }
+
+  private async load(): Promise<LocalTables> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      return { ...emptyTables(), ...(JSON.parse(raw) as Partial<LocalTables>) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return emptyTables();
+      }
+      throw error;
+    }
+  }
+
+  private async persist(tables: LocalTables): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(tables, null, 2) + "\n");
+    await fs.rename(tmp, this.filePath);
+  }
+}
+
+// ============= LOCAL REPOSITORY =============
+
+// Same dedupe as the UNIQUE(unique_key) constraint in SQL
+function recordOutbox(
+  tables: LocalTables,
+  messages: OutboxMessage[] | undefined,
+  now: string,
+): void {
+  for (const message of messages ?? []) {
+    if (tables.outbox.some((o) => o.unique_key === message.uniqueKey)) continue;
+    tables.outbox.push({
+      kind: message.kind,
+      payload: message.payload,
+      unique_key: message.uniqueKey,
+      processed_at: null,
+      created_at: now,
+    });
+  }
+}
+
+export class LocalRepository implements Repository {
+  constructor(
+    private readonly store: LocalStore,
+    // quota_plans has no local table; every user is on this plan
+    private readonly plan: QuotaPlan = DEFAULT_QUOTA_PLAN,
+  ) {}
+
+  async createOrchestration(args: {
+    id: OrchestrationId;
+    userId: UserId;
+    blueprintId: string;
+    idempotencyKey?: IdempotencyKey;
+    planHash?: string;
+    metadata?: Record<string, unknown>;
+    correlationId: string;
+    outbox?: OutboxMessage[];
+  }): Promise<void> {
+    const date = this.store.now();
+    const now = date.toISOString();
+    await this.store.transact((t) => {
+      // Ignore duplicates (idempotency), same as the UNIQUE constraints in SQL
+      const duplicate = t.orchestrations.some(
+        (o) =>
+          o.id === args.id ||
+          (args.idempotencyKey !== undefined &&
+            o.user_id === args.userId &&
+            o.idempotency_key === args.idempotencyKey),
+      );
+      if (duplicate) return;
+
+      t.orchestrations.push({
+        id: args.id,
+        user_id: args.userId,
+        blueprint_id: args.blueprintId,
+        status: "pending",
+        status_reason: null,
+        checkpoint: null,
+        plan_hash: args.planHash ?? null,
+        idempotency_key: args.idempotencyKey ?? null,
+        correlation_id: args.correlationId,
+        metadata: args.metadata ?? null,
+        created_at: now,
+        updated_at: now,
+      });
+      // Counted towards the daily quota, like the insert trigger in SQL
+      const usage = this.usageRow(t, args.userId, now.split("T")[0]!, date);
+      usage.orchestrations_started += 1;
+      usage.updated_at = now;
+      recordOutbox(t, args.outbox, now);
+    });
+  }
+
+  async getOrchestration(
+    id: OrchestrationId,
+  ): Promise<OrchestrationRecord | null> {
+    const tables = await this.store.read();
+    const row = tables.orchestrations.find((o) => o.id === id);
+    return row ? toOrchestrationRecord(row) : null;
+  }
+
+  async findOrchestrationByIdempotencyKey(
+    userId: UserId,
+    idempotencyKey: IdempotencyKey,
+  ): Promise<OrchestrationRecord | null> {
+    const tables = await this.store.read();
+    const row = tables.orchestrations.find(
+      (o) => o.user_id === userId && o.idempotency_key === idempotencyKey,
+    );
+    return row ? toOrchestrationRecord(row) : null;
+  }
+
+  async listOrchestrations(
+    userId: UserId,
+    options: { limit?: number; before?: Date } = {},
+  ): Promise<OrchestrationRecord[]> {
+    const tables = await this.store.read();
+    const before = options.before?.toISOString();
+    return tables.orchestrations
+      .filter((o) => o.user_id === userId && (!before || o.created_at < before))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, options.limit ?? 50)
+      .map(toOrchestrationRecord);
+  }
+
+  async listNodeResults(
+    orchestrationId: OrchestrationId,
+  ): Promise<NodeResultRecord[]> {
+    const tables = await this.store.read();
+    return tables.orchestration_nodes
+      .filter((n) => n.orchestration_id === orchestrationId)
+      .sort(
+        (a, b) =>
+          a.node_id.localeCompare(b.node_id) || a.attempt_no - b.attempt_no,
+      )
+      .map(toNodeResultRecord);
+  }
+
+  async updateStatus(
+    id: OrchestrationId,
+    status: OrchestrationStatus,
+    statusReason?: string,
+    outbox?: OutboxMessage[],
+  ): Promise<void> {
+    await this.updateOrchestration(id, (row, t) => {
+      row.status = status;
+      row.status_reason = statusReason ?? null;
+      recordOutbox(t, outbox, row.updated_at);
+    });
+  }
+
+  async saveNodeResult(args: {
+    orchestrationId: OrchestrationId;
+    nodeId: NodeId;
+    status: NodeStatus;
+    attemptNo: number;
+    startedAt?: Date;
+    finishedAt?: Date;
+    output?: unknown;
+    error?: Error;
+    correlationId: string;
+    cacheKey?: string;
+    artifacts?: string[];
+    outbox?: OutboxMessage[];
+  }): Promise<void> {
+    const now = this.store.now().toISOString();
+    const row: LocalNodeRow = {
+      orchestration_id: args.orchestrationId,
+      node_id: args.nodeId,
+      status: args.status,
+      attempt_no: args.attemptNo,
+      started_at: args.startedAt?.toISOString() ?? null,
+      finished_at: args.finishedAt?.toISOString() ?? null,
+      output_ref: args.output ? JSON.stringify(args.output) : null,
+      error: args.error
+        ? {
+            message: args.error.message,
+            stack: args.error.stack,
+            name: args.error.name,
+          }
+        : null,
+      correlation_id: args.correlationId,
+      cache_key: args.cacheKey ?? null,
+      artifacts: args.artifacts ?? null,
+      created_at: now,
+    };
+
+    await this.store.transact((t) => {
+      // Upsert on (orchestration_id, node_id, attempt_no)
+      const index = t.orchestration_nodes.findIndex(
+        (n) =>
+          n.orchestration_id === row.orchestration_id &&
+          n.node_id === row.node_id &&
+          n.attempt_no === row.attempt_no,
+      );
+      if (index >= 0) {
+        row.created_at = t.orchestration_nodes[index]!.created_at;
+        t.orchestration_nodes[index] = row;
+      } else {
+        t.orchestration_nodes.push(row);
+      }
+      recordOutbox(t, args.outbox, now);
+    });
+  }
+
+  async findCachedNode(args: {
+    userId: UserId;
+    nodeId: NodeId;
+    cacheKey: string;
+  }): Promise<CachedNodeResult | null> {
+    const tables = await this.store.read();
+    const ownOrchestrations = new Set(
+      tables.orchestrations
+        .filter((o) => o.user_id === args.userId)
+        .map((o) => o.id),
+    );
+    const latest = tables.orchestration_nodes
+      .filter(
+        (n) =>
+          n.node_id === args.nodeId &&
+          n.cache_key === args.cacheKey &&
+          n.status === "complete" &&
+          ownOrchestrations.has(n.orchestration_id),
+      )
+      .sort((a, b) =>
+        (b.finished_at ?? "").localeCompare(a.finished_at ?? ""),
+      )[0];
+    if (!latest) return null;
+
+    return {
+      orchestrationId: latest.orchestration_id as OrchestrationId,
+      output: parseOutputRef(latest.output_ref),
+      artifacts: latest.artifacts ?? [],
+    };
+  }
+
+  async savePlan(
+    id: OrchestrationId,
+    planHash: string,
+    batches: NodeId[][],
+  ): Promise<void> {
+    await this.updateOrchestration(id, (row) => {
+      row.plan_hash = planHash;
+      row.metadata = { ...row.metadata, batches };
+    });
+  }
+
+  async trackUsage(args: {
+    orchestrationId: OrchestrationId;
+    tokens: TokenCount;
+    usd: USDCents;
+    correlationId: string;
+  }): Promise<void> {
+    const now = this.store.now();
+    const day = now.toISOString().split("T")[0]!;
+    await this.store.transact((t) => {
+      const orchestration = t.orchestrations.find(
+        (o) => o.id === args.orchestrationId,
+      );
+      if (!orchestration) return;
+
+      const usage = this.usageRow(t, orchestration.user_id, day, now);
+      usage.tokens_used += args.tokens;
+      usage.usd_spent += args.usd / 100; // Convert cents to dollars
+      usage.correlation_id = args.correlationId;
+      usage.updated_at = now.toISOString();
+    });
+  }
+
+  async getUsage(
+    userId: UserId,
+    now: Date = this.store.now(),
+  ): Promise<UsageSummary> {
+    const tables = await this.store.read();
+    return toUsageSummary(
+      this.plan,
+      tables.usage_aggregates.filter((u) => u.user_id === userId),
+      now,
+    );
+  }
+
+  async listArtifacts(
+    orchestrationId: OrchestrationId,
+  ): Promise<Array<{ path: string; size: number }>> {
+    const tables = await this.store.read();
+    return tables.artifacts
+      .filter((a) => a.orchestration_id === orchestrationId)
+      .map((a) => ({ path: a.path, size: a.bytes }));
+  }
+
+  async signArtifact(
+    artifact: { path: string },
+    _ttl: number = 900,
+  ): Promise<string> {
+    // Local files need no signing; hand back a file:// URL
+    return pathToFileURL(path.resolve(artifact.path)).toString();
+  }
+
+  private usageRow(
+    t: LocalTables,
+    userId: string,
+    day: string,
+    now: Date,
+  ): LocalUsageRow {
+    let usage = t.usage_aggregates.find(
+      (u) => u.user_id === userId && u.day === day,
+    );
+    if (!usage) {
+      usage = {
+        user_id: userId,
+        day,
+        orchestrations_started: 0,
+        tokens_used: 0,
+        usd_spent: 0,
+        correlation_id: null,
+        updated_at: now.toISOString(),
+      };
+      t.usage_aggregates.push(usage);
+    }
+    return usage;
+  }
+
+  private async updateOrchestration(
+    id: OrchestrationId,
+    update: (row: LocalOrchestrationRow, tables: LocalTables) => void,
+  ): Promise<void> {
+    const now = this.store.now().toISOString();
+    await this.store.transact((t) => {
+      const row = t.orchestrations.find((o) => o.id === id);
+      if (!row) throw new Error(`Orchestration ${id} not found`);
+      row.updated_at = now;
+      update(row, t);
+    });
+  }
+}
+
+// ============= LOCAL CHECKPOINTS =============
+
+export class LocalCheckpointManager implements CheckpointManager {
+  constructor(
+    private readonly store: LocalStore,
+    private readonly orchestrationId: OrchestrationId,
+  ) {}
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    const now = this.store.now().toISOString();
+    await this.store.transact((t) => {
+      const row = t.orchestrations.find((o) => o.id === this.orchestrationId);
+      if (!row) {
+        throw new Error(
+          `Failed to save checkpoint: orchestration ${this.orchestrationId} not found`,
+        );
+      }
+      row.checkpoint = serializeCheckpoint(checkpoint);
+      row.updated_at = now;
+    });
+  }
+
+  async load(): Promise<Checkpoint | null> {
+    const tables = await this.store.read();
+    const row = tables.orchestrations.find(
+      (o) => o.id === this.orchestrationId,
+    );
+    if (!row?.checkpoint) return null;
+    return deserializeCheckpoint(row.checkpoint);
+  }
+
+  async markNodeComplete(nodeId: NodeId): Promise<void> {
+    const checkpoint = await this.load();
+    if (!checkpoint) {
+      throw new Error("No checkpoint found");
+    }
+
+    checkpoint.completedNodes.add(nodeId);
+    checkpoint.updatedAt = this.store.now();
+    await this.save(checkpoint);
+  }
+}
+
+// ============= LOCAL STORAGE =============
+
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(
+    private readonly store: LocalStore,
+    private readonly orchestrationId: OrchestrationId,
+    private readonly baseDir: string = process.cwd(),
+  ) {}
+
+  async saveArtifact(
+    artifactPath: string,
+    content: Uint8Array | string,
+  ): Promise<string> {
+    const abs = path.resolve(this.baseDir, artifactPath);
+    await fs.mkdir(path.dirname(abs), { recursive: true });
+    await fs.writeFile(abs, content);
+
+    const bytes =
+      typeof content === "string"
+        ? Buffer.byteLength(content, "utf8")
+        : content.byteLength;
+    await this.recordArtifact(artifactPath, bytes);
+    return artifactPath;
+  }
+
+  async copyArtifact(fromPath: string, toPath: string): Promise<string> {
+    const from = path.resolve(this.baseDir, fromPath);
+    const to = path.resolve(this.baseDir, toPath);
+    if (from !== to) {
+      await fs.mkdir(path.dirname(to), { recursive: true });
+      await fs.copyFile(from, to);
+    }
+    // Same path (a re-run of this orchestration): only re-record the row
+    const { size } = await fs.stat(to);
+    await this.recordArtifact(toPath, size);
+    return toPath;
+  }
+
+  async readArtifact(artifactPath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(
+        path.resolve(this.baseDir, artifactPath),
+        "utf8",
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async getSignedUrl(
+    artifactPath: string,
+    _expiresIn: number = 900,
+  ): Promise<string> {
+    return pathToFileURL(path.resolve(this.baseDir, artifactPath)).toString();
+  }
+
+  async listArtifacts(prefix: string): Promise<string[]> {
+    const root = path.resolve(this.baseDir, prefix);
+    const out: string[] = [];
+    const walk = async (dir: string, rel: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const childRel = rel ? `${rel}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), childRel);
+        } else {
+          out.push(`${prefix}/${childRel}`);
+        }
+      }
+    };
+    await walk(root, "");
+    return out.sort();
+  }
+
+  private async recordArtifact(
+    artifactPath: string,
+    bytes: number,
+  ): Promise<void> {
+    const now = this.store.now().toISOString();
+    await this.store.transact((t) => {
+      const existing = t.artifacts.find(
+        (a) =>
+          a.orchestration_id === this.orchestrationId &&
+          a.path === artifactPath,
+      );
+      if (existing) {
+        existing.bytes = bytes;
+        return;
+      }
+      t.artifacts.push({
+        orchestration_id: this.orchestrationId,
+        path: artifactPath,
+        kind: path.extname(artifactPath).slice(1) || null,
+        bytes,
+        created_at: now,
+      });
+    });
+  }
+}
+
+// ============= LOCAL BACKEND =============
+
+export class LocalBackend implements EngineBackend {
+  constructor(
+    private readonly store: LocalStore,
+    private readonly baseDir: string = process.cwd(),
+  ) {}
+
+  createStorage(orchestrationId: OrchestrationId): StorageAdapter {
+    return new LocalStorageAdapter(this.store, orchestrationId, this.baseDir);
+  }
+
+  createCheckpointManager(orchestrationId: OrchestrationId): CheckpointManager {
+    return new LocalCheckpointManager(this.store, orchestrationId);
+  }
+}
@@ -0,0 +1,200 @@
+// path: engine/nodeSdk.ts
+/**
+ * Node SDK — the one contract every module in nodes/ is written against.
+ *
+ * Nodes declare zod schemas for their input and output; the engine parses the
+ * input before `run` (so `run` receives defaults-applied, typed data) and
+ * validates the output afterwards. Estimates are integer tokens and integer
+ * USD cents, checked at runtime. Any mismatch fails the node immediately with
+ * a ValidationError instead of being retried.
+ *
+ * Optional features declare `when(profile)`; the engine skips the node, and
+ * every node downstream of it, when the profile doesn't ask for the feature.
+ * Per-entity work uses defineMapNode, which the engine expands into one child
+ * node per item so a bad item fails (and retries) on its own.
+ */
+import { z } from "zod";
+import type {
+  ExecutionContext,
+  FailurePolicy,
+  FanInInput,
+  NodeId,
+  NodeSpec,
+  Phase,
+  RetryConfig,
+  TokenCount,
+  USDCents,
+} from "./OrchestrationEngine";
+
+export type {
+  ExecutionContext,
+  FailurePolicy,
+  FanInInput,
+  NodeId,
+  NodeSpec,
+  OrchestrationId,
+  Phase,
+} from "./OrchestrationEngine";
+
+// Throw for input a node can never succeed with; it fails without retries
+export { ValidationError } from "./OrchestrationEngine";
+
+// ============= COMMON SCHEMAS =============
+
+/**
+ * For nodes that ignore their input entirely. Parses to undefined, so
+ * upstream changes never invalidate the node's cached result.
+ */
+export const NoInput = z.unknown().transform((): undefined => undefined);
+
+/** The output shared by most generator nodes: paths of written artifacts */
+export const FilesOutput = z.object({ files: z.array(z.string()) });
+export type FilesOutput = z.infer<typeof FilesOutput>;
+
+/**
+ * The profile as `when` predicates see it: profile.normalize's output for
+ * nodes downstream of it, the raw orchestration input otherwise. Fields may
+ * be missing, so treat absence as "not requested".
+ */
+export type ProfileView = {
+  id?: string;
+  entities?: Array<{
+    name?: string;
+    realtime?: boolean;
+    vectorSearch?: boolean;
+    storageBuckets?: string[];
+  }>;
+  llm?: { providerPreference?: string; useLangGraph?: boolean };
+  [key: string]: unknown;
+};
+
+/** True when any entity in the profile matches */
+export function someEntity(
+  profile: ProfileView,
+  predicate: (entity: NonNullable<ProfileView["entities"]>[number]) => boolean,
+): boolean {
+  return (
+    Array.isArray(profile.entities) &&
+    profile.entities.some((e) => !!e && typeof e === "object" && predicate(e))
+  );
+}
+
+// ============= DEFINITION =============
+
+export interface NodeDefinition<TInput, TOutput> {
+  id: string;
+  phase: Phase;
+  input: z.ZodType<TInput>;
+  output: z.ZodType<TOutput>;
+  /**
+   * Static cost estimate: whole tokens and whole USD cents. Charged before the
+   * node runs; replaced by metered usage when the node passes ctx.budget to
+   * its LLM calls (lib/ai/metering.ts).
+   */
+  estimate?: (input: TInput) => { tokens: number; usd: number };
+  retry?: RetryConfig;
+  timeout?: number; // milliseconds
+  /** Bump when the generated output changes to invalidate cached results */
+  version?: string;
+  /** Set to false for nodes with side effects beyond their artifacts */
+  cache?: boolean;
+  /** Run only when this holds for the profile; skips propagate downstream */
+  when?: (profile: ProfileView) => boolean;
+  /** What a failure does to the run; defaults to the blueprint's policy */
+  onFailure?: FailurePolicy;
+  run: (input: TInput, ctx: ExecutionContext) => Promise<TOutput>;
+}
+
+type Estimator<T> = (input: T) => { tokens: number; usd: number };
+
+function brandEstimate<T>(
+  estimate: Estimator<T> | undefined,
+): NodeSpec<T>["estimate"] {
+  return estimate
+    ? (input) => {
+        const { tokens, usd } = estimate(input);
+        return { tokens: tokens as TokenCount, usd: usd as USDCents };
+      }
+    : undefined;
+}
+
+/** Declare a node; returns the engine's NodeSpec with branded id and estimates */
+export function defineNode<TInput, TOutput>(
+  def: NodeDefinition<TInput, TOutput>,
+): NodeSpec<TInput, TOutput> {
+  return {
+    id: def.id as NodeId,
+    phase: def.phase,
+    input: def.input,
+    output: def.output,
+    retry: def.retry,
+    timeout: def.timeout,
+    version: def.version,
+    cache: def.cache,
+    when: def.when,
+    onFailure: def.onFailure,
+    run: def.run,
+    estimate: brandEstimate(def.estimate),
+  };
+}
+
+// ============= MAP NODES =============
+
+export interface MapNodeDefinition<TInput, TItem, TItemOutput, TOutput>
+  extends Omit<NodeDefinition<TInput, TOutput>, "estimate" | "run"> {
+  /**
+   * The items to expand into children, e.g. one per profile entity. Keys name
+   * the children (`db.schema[Todo]`) and must be unique; items must be
+   * JSON-serializable, as each child's cache key is computed over its item.
+   */
+  items: (input: TInput) => Array<{ key: string; item: TItem }>;
+  /** The child run once per item; `version` and `cache` apply to it too */
+  each: {
+    output: z.ZodType<TItemOutput>;
+    estimate?: Estimator<TItem>;
+    retry?: RetryConfig;
+    timeout?: number; // milliseconds
+    run: (item: TItem, ctx: ExecutionContext) => Promise<TItemOutput>;
+  };
+  /** Fan-in estimate, charged after the children ran */
+  estimate?: Estimator<FanInInput<TInput, TItemOutput>>;
+  /** Fan-in: `results` holds every child's output, keyed like `items` */
+  run: (
+    input: FanInInput<TInput, TItemOutput>,
+    ctx: ExecutionContext,
+  ) => Promise<TOutput>;
+}
+
+/** Declare a map node: per-item children plus a fan-in over their outputs */
+export function defineMapNode<TInput, TItem, TItemOutput, TOutput>(
+  def: MapNodeDefinition<TInput, TItem, TItemOutput, TOutput>,
+): NodeSpec {
+  const { items, each } = def;
+  return {
+    id: def.id as NodeId,
+    phase: def.phase,
+    input: def.input,
+    output: def.output,
+    retry: def.retry,
+    timeout: def.timeout,
+    version: def.version,
+    cache: def.cache,
+    when: def.when,
+    onFailure: def.onFailure,
+    run: def.run as NodeSpec["run"],
+    estimate: brandEstimate(def.estimate) as NodeSpec["estimate"],
+    fanOut: {
+      expand: (input) =>
+        items(input as TInput).map(({ key, item }) => ({ key, input: item })),
+      child: {
+        output: each.output,
+        retry: each.retry,
+        timeout: each.timeout,
+        version: def.version,
+        cache: def.cache,
+        run: each.run as NodeSpec["run"],
+        estimate: brandEstimate(each.estimate) as NodeSpec["estimate"],
+      },
+    },
+  };
+}
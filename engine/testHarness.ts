@@ -0,0 +1,120 @@
+// path: engine/testHarness.ts
+/**
+ * Helpers for engine and node tests (`pnpm test`): an engine over a local
+ * JSON store and file artifacts in a temporary directory, removed afterwards.
+ */
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import {
+  OrchestrationEngine,
+  type Blueprint,
+  type NodeSpec,
+  type OrchestrationId,
+  type QuotaPlan,
+  type TokenCount,
+  type USDCents,
+  type UserId,
+} from "./OrchestrationEngine";
+import { LocalBackend, LocalRepository, LocalStore } from "./localBackend";
+import { defineNode } from "./nodeSdk";
+
+export interface TestEngineOptions {
+  global?: number;
+  perOrchestration?: number;
+  maxAttemptsPerNode?: number;
+  // Every user's quota plan; the default plan when omitted
+  plan?: QuotaPlan;
+}
+
+export interface TestEngine {
+  engine: OrchestrationEngine;
+  store: LocalStore;
+  repository: LocalRepository;
+  /** An artifact as the runs wrote it, or null */
+  readArtifact(artifactPath: string): Promise<string | null>;
+}
+
+export async function withEngine(
+  options: TestEngineOptions,
+  fn: (env: TestEngine) => Promise<void>,
+) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "lesiab-test-"));
+  try {
+    const store = new LocalStore(path.join(dir, "state.json"));
+    const repository = new LocalRepository(store, options.plan);
+    const engine = new OrchestrationEngine(
+      {
+        maxConcurrencyGlobal: options.global ?? 4,
+        maxConcurrencyPerOrchestration: options.perOrchestration ?? 4,
+        maxAttemptsPerNode: options.maxAttemptsPerNode ?? 1,
+        defaultNodeTimeoutMs: 5000,
+        budget: {
+          maxUsd: 500 as USDCents,
+          maxTokens: 200000 as TokenCount,
+          maxWallClockMs: 60000,
+        },
+      },
+      repository,
+      new LocalBackend(store, dir),
+    );
+    const readArtifact = async (artifactPath: string) => {
+      try {
+        return await fs.readFile(path.join(dir, artifactPath), "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    };
+    await fn({ engine, store, repository, readArtifact });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Nodes are ready as soon as the edges allow; none by default
+export const blueprintOf = (
+  id: string,
+  nodes: NodeSpec[],
+  edges: Array<{ from: string; to: string }> = [],
+): Blueprint => ({
+  id,
+  name: id,
+  version: "1.0.0",
+  nodes,
+  edges: edges as Blueprint["edges"],
+});
+
+/**
+ * Hands the orchestration input's `profile` downstream, as profile.normalize
+ * does; nodes after a root only see their ancestors' outputs.
+ */
+export const ProfileSourceNode = defineNode({
+  id: "profile.source",
+  phase: "analyze",
+  input: z.object({ profile: z.unknown() }),
+  output: z.object({ profile: z.unknown() }),
+  async run(input) {
+    return { profile: input.profile };
+  },
+});
+
+export const TEST_USER = "test-user" as UserId;
+
+/** Run a blueprint as orchestration `blueprint.id` (or `orchestrationId`) */
+export const execute = (
+  engine: OrchestrationEngine,
+  blueprint: Blueprint,
+  args: {
+    input?: Record<string, unknown>;
+    orchestrationId?: string;
+    userId?: UserId;
+  } = {},
+) =>
+  engine.execute({
+    orchestrationId: (args.orchestrationId ?? blueprint.id) as OrchestrationId,
+    userId: args.userId ?? TEST_USER,
+    blueprint,
+    input: args.input ?? {},
+  });
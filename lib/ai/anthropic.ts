@@ -1,6 +1,8 @@
 // path: lib/ai/anthropic.ts
 import Anthropic from "@anthropic-ai/sdk";
 import { env } from "../../env.mjs";
+import type { LlmCompletion, LlmProviderClient, LlmRequest } from "./gateway";
+import { fromAnthropicUsage } from "./metering";
 
 let _client: Anthropic | null = null;
 
@@ -10,34 +12,47 @@ export function getAnthropic() {
   return _client;
 }
 
-type JsonOk<T> = { ok: true; data: T };
-type JsonErr = { ok: false; rawText: string };
+/**
+ * Anthropic Messages API, for LlmGateway. There is no JSON mode, so the
+ * schema goes into the system prompt and the gateway validates the reply.
+ */
+export class AnthropicProvider implements LlmProviderClient {
+  readonly name = "anthropic";
 
-export async function jsonMessage<T = unknown>(
-  prompt: string,
-  system = "Return strict JSON only. No prose.",
-): Promise<JsonOk<T> | JsonErr> {
-  const client = getAnthropic();
-  const model = process.env.ANTHROPIC_MODEL || "claude-sonnet-4-20250514";
+  constructor(
+    private readonly model: string = process.env.ANTHROPIC_MODEL ||
+      "claude-sonnet-4-20250514",
+    private readonly client: Anthropic = getAnthropic(),
+  ) {}
 
-  const msg = await client.messages.create({
-    model,
-    max_tokens: 4024,
-    system,
-    messages: [{ role: "user", content: prompt }],
-    response_format: { type: "json_object" },
-  } as any);
+  async complete(
+    request: LlmRequest,
+    signal?: AbortSignal,
+  ): Promise<LlmCompletion> {
+    const system = [
+      request.system ?? "Return strict JSON only. No prose.",
+      request.jsonSchema
+        ? `The reply must be JSON matching this JSON Schema:\n${JSON.stringify(request.jsonSchema)}`
+        : "",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
 
-  // Try to get a single text blob
-  const text =
-    (msg as any)?.content?.map((c: any) => c?.text ?? "").join("") ??
-    (msg as any)?.output_text ??
-    "";
+    const msg = await this.client.messages.create(
+      {
+        model: this.model,
+        max_tokens: request.maxOutputTokens ?? 4024,
+        system,
+        messages: [{ role: "user", content: request.prompt }],
+      },
+      { signal },
+    );
 
-  try {
-    const parsed = JSON.parse(text || "{}") as T;
-    return { ok: true, data: parsed };
-  } catch {
-    return { ok: false, rawText: String(text ?? "") };
+    return {
+      text: msg.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join(""),
+      usage: fromAnthropicUsage(msg.model || this.model, msg.usage),
+    };
   }
 }
@@ -0,0 +1,292 @@
+// path: lib/ai/gateway.ts
+/**
+ * Provider-agnostic structured LLM calls.
+ *
+ * LlmGateway.generate() takes a zod schema and returns validated data. A reply
+ * that isn't valid JSON or doesn't match the schema is repaired locally when
+ * possible (code fences, surrounding prose) and otherwise re-prompted with the
+ * validation errors. A provider that keeps failing, or throws, hands over to
+ * the next one in order. Every call's usage is metered (metering.ts).
+ *
+ * Providers: OpenAIProvider (openai.ts), AnthropicProvider (anthropic.ts) and
+ * MockLlmProvider below for offline runs. createLlmGateway (llm.ts) orders the
+ * real ones by the profile's llm.providerPreference. CassetteLlmProvider
+ * records any of them to a cassette (engine/cassette.ts) and replays it.
+ */
+import { z } from "zod";
+import {
+  BudgetExceededError,
+  OrchestrationStoppedError,
+  type Logger,
+} from "../../engine/OrchestrationEngine";
+import type { Cassette } from "../../engine/cassette";
+import { reportUsage, type LlmUsage, type UsageSink } from "./metering";
+
+export interface LlmRequest {
+  system?: string;
+  prompt: string;
+  /** JSON Schema of the expected reply, for providers with structured output */
+  jsonSchema?: Record<string, unknown>;
+  /** Name for the schema in provider requests */
+  schemaName?: string;
+  maxOutputTokens?: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  usage: LlmUsage;
+}
+
+export interface LlmProviderClient {
+  readonly name: string;
+  complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmCompletion>;
+}
+
+export interface GenerateRequest<T> {
+  schema: z.ZodType<T>;
+  prompt: string;
+  system?: string;
+  schemaName?: string;
+  maxOutputTokens?: number;
+  /** Receives every call's usage, repairs included (a node's ctx.budget) */
+  budget?: UsageSink;
+  signal?: AbortSignal;
+}
+
+export interface GenerateResult<T> {
+  data: T;
+  provider: string;
+  model: string;
+  /** Calls made, across providers */
+  calls: number;
+  usage: LlmUsage[];
+}
+
+export type LlmFailure = { provider: string; error: string };
+
+/** Every provider failed; `failures` has one entry per provider tried. */
+export class LlmGatewayError extends Error {
+  constructor(public readonly failures: LlmFailure[]) {
+    super(
+      `All LLM providers failed: ${failures
+        .map((f) => `${f.provider}: ${f.error}`)
+        .join("; ")}`,
+    );
+    this.name = "LlmGatewayError";
+  }
+}
+
+// The reply could not be turned into schema-valid data
+class LlmOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly rawText: string,
+  ) {
+    super(message);
+    this.name = "LlmOutputError";
+  }
+}
+
+/**
+ * Pull a JSON value out of a reply: the whole text, a ```json fence, or the
+ * outermost {...} / [...] span.
+ */
+export function extractJson(text: string): unknown {
+  const candidates = [text.trim()];
+  const fence = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  if (fence?.[1]) candidates.push(fence[1].trim());
+  for (const [open, close] of [
+    ["{", "}"],
+    ["[", "]"],
+  ] as const) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start)
+      candidates.push(text.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next candidate
+    }
+  }
+  throw new LlmOutputError("Reply is not valid JSON", text);
+}
+
+function parseReply<T>(schema: z.ZodType<T>, text: string): T {
+  const result = schema.safeParse(extractJson(text));
+  if (!result.success) {
+    throw new LlmOutputError(
+      `Reply does not match the schema: ${z.prettifyError(result.error)}`,
+      text,
+    );
+  }
+  return result.data;
+}
+
+function repairPrompt(prompt: string, error: LlmOutputError): string {
+  return [
+    prompt,
+    "",
+    "Your previous reply could not be used:",
+    error.message,
+    "",
+    "Previous reply:",
+    error.rawText.slice(0, 4000),
+    "",
+    "Reply again with only the corrected JSON.",
+  ].join("\n");
+}
+
+// Out of budget or stopped: another provider won't help
+function isFatal(error: unknown): boolean {
+  return (
+    error instanceof BudgetExceededError ||
+    error instanceof OrchestrationStoppedError ||
+    (error instanceof Error && error.name === "AbortError")
+  );
+}
+
+export interface LlmGatewayOptions {
+  /** Re-prompts per provider after an invalid reply (default 2) */
+  maxRepairs?: number;
+  logger?: Logger;
+}
+
+export class LlmGateway {
+  private readonly maxRepairs: number;
+  private readonly logger?: Logger;
+
+  constructor(
+    private readonly providers: LlmProviderClient[],
+    options: LlmGatewayOptions = {},
+  ) {
+    if (providers.length === 0) {
+      throw new Error("LlmGateway needs at least one provider");
+    }
+    this.maxRepairs = options.maxRepairs ?? 2;
+    this.logger = options.logger;
+  }
+
+  async generate<T>(request: GenerateRequest<T>): Promise<GenerateResult<T>> {
+    const base: LlmRequest = {
+      system: request.system ?? "Reply with JSON only. No prose.",
+      prompt: request.prompt,
+      jsonSchema: z.toJSONSchema(request.schema, {
+        unrepresentable: "any",
+      }) as Record<string, unknown>,
+      schemaName: request.schemaName ?? "Output",
+      maxOutputTokens: request.maxOutputTokens,
+    };
+    const usage: LlmUsage[] = [];
+    const failures: LlmFailure[] = [];
+
+    for (const provider of this.providers) {
+      let prompt = base.prompt;
+      try {
+        for (let repair = 0; repair <= this.maxRepairs; repair++) {
+          request.signal?.throwIfAborted();
+          const completion = await provider.complete(
+            { ...base, prompt },
+            request.signal,
+          );
+          usage.push(completion.usage);
+          await reportUsage(request.budget, completion.usage);
+
+          try {
+            return {
+              data: parseReply(request.schema, completion.text),
+              provider: provider.name,
+              model: completion.usage.model,
+              calls: usage.length,
+              usage,
+            };
+          } catch (error) {
+            if (!(error instanceof LlmOutputError)) throw error;
+            this.logger?.warn("LLM reply rejected", {
+              provider: provider.name,
+              repair,
+              error: error.message,
+            });
+            if (repair === this.maxRepairs) throw error;
+            prompt = repairPrompt(base.prompt, error);
+          }
+        }
+      } catch (error) {
+        if (isFatal(error)) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push({ provider: provider.name, error: message });
+        this.logger?.warn("LLM provider failed; trying the next one", {
+          provider: provider.name,
+          error: message,
+        });
+      }
+    }
+
+    throw new LlmGatewayError(failures);
+  }
+}
+
+// ============= OFFLINE PROVIDER =============
+
+export type MockResponder = (request: LlmRequest) => unknown | Promise<unknown>;
+
+/**
+ * Answers from a function instead of the network. Non-string answers are
+ * sent as JSON. Usage is approximated (4 characters per token) and priced at
+ * zero, so budgets still see activity.
+ */
+export class MockLlmProvider implements LlmProviderClient {
+  readonly calls: LlmRequest[] = [];
+
+  constructor(
+    private readonly respond: MockResponder,
+    readonly name: string = "mock",
+  ) {}
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    this.calls.push(request);
+    const answer = await this.respond(request);
+    const text = typeof answer === "string" ? answer : JSON.stringify(answer);
+    return {
+      text,
+      usage: {
+        provider: "mock",
+        model: "mock",
+        inputTokens: Math.ceil(
+          ((request.system ?? "").length + request.prompt.length) / 4,
+        ),
+        cachedInputTokens: 0,
+        cacheWriteTokens: 0,
+        outputTokens: Math.ceil(text.length / 4),
+      },
+    };
+  }
+}
+
+/**
+ * Records another provider's completions, or replays them with no network.
+ * Calls match on the request (prompt, system, schema, limits); the abort
+ * signal is not part of it. When replaying, `inner` is only used for its name.
+ */
+export class CassetteLlmProvider implements LlmProviderClient {
+  readonly name: string;
+
+  constructor(
+    private readonly cassette: Cassette,
+    private readonly inner: LlmProviderClient | { name: string },
+  ) {
+    this.name = inner.name;
+  }
+
+  complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmCompletion> {
+    const inner = this.inner;
+    return this.cassette.call(
+      `llm.${this.name}`,
+      request,
+      "complete" in inner ? () => inner.complete(request, signal) : undefined,
+    );
+  }
+}
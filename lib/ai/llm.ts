@@ -0,0 +1,35 @@
+// path: lib/ai/llm.ts
+import type { Logger } from "../../engine/OrchestrationEngine";
+import { AnthropicProvider } from "./anthropic";
+import { LlmGateway, type LlmProviderClient } from "./gateway";
+import { OpenAIProvider } from "./openai";
+
+export type ProviderPreference = "openai" | "anthropic";
+
+/**
+ * Gateway over OpenAI and Anthropic, preferred provider first (the profile's
+ * llm.providerPreference); the other one is the fallback. `wrap` decorates
+ * each provider, e.g. with a CassetteLlmProvider to record calls. Server-only.
+ */
+export function createLlmGateway(
+  options: {
+    preference?: ProviderPreference;
+    maxRepairs?: number;
+    logger?: Logger;
+    wrap?: (provider: LlmProviderClient) => LlmProviderClient;
+  } = {},
+): LlmGateway {
+  const providers: Record<ProviderPreference, () => LlmProviderClient> = {
+    openai: () => new OpenAIProvider(),
+    anthropic: () => new AnthropicProvider(),
+  };
+  const preferred = options.preference ?? "openai";
+  const fallback = preferred === "openai" ? "anthropic" : "openai";
+
+  const ordered = [providers[preferred](), providers[fallback]()];
+
+  return new LlmGateway(ordered.map(options.wrap ?? ((p) => p)), {
+    maxRepairs: options.maxRepairs,
+    logger: options.logger,
+  });
+}
@@ -0,0 +1,194 @@
+// path: lib/ai/metering.ts
+/**
+ * Token and cost metering for LLM calls.
+ *
+ * The providers (openai.ts, anthropic.ts) read the `usage` block of each
+ * response into an LlmUsage; LlmGateway prices it with MODEL_PRICES and, when
+ * given a budget (a node's ExecutionContext.budget), reports the real tokens
+ * and cents to it. The engine then drops the node's static estimate, so
+ * budgets and usage_aggregates reflect actual spend.
+ */
+import type {
+  BudgetTracker,
+  TokenCount,
+  USDCents,
+} from "../../engine/OrchestrationEngine";
+
+export type LlmProvider = "openai" | "anthropic" | "mock";
+
+export interface LlmUsage {
+  provider: LlmProvider;
+  model: string;
+  /** Input billed at the full rate (excludes cache reads and writes) */
+  inputTokens: number;
+  /** Input served from the prompt cache */
+  cachedInputTokens: number;
+  /** Input written to the prompt cache (Anthropic) */
+  cacheWriteTokens: number;
+  outputTokens: number;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  cachedInput: number;
+  cacheWrite: number;
+  output: number;
+}
+
+// Public list prices. Model ids are matched by longest prefix, so dated
+// snapshots ("gpt-4.1-mini-2025-04-14", "claude-sonnet-4-20250514") resolve to
+// their family.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4.1": { input: 2, cachedInput: 0.5, cacheWrite: 2, output: 8 },
+  "gpt-4.1-mini": {
+    input: 0.4,
+    cachedInput: 0.1,
+    cacheWrite: 0.4,
+    output: 1.6,
+  },
+  "gpt-4.1-nano": {
+    input: 0.1,
+    cachedInput: 0.025,
+    cacheWrite: 0.1,
+    output: 0.4,
+  },
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, cacheWrite: 2.5, output: 10 },
+  "gpt-4o-mini": {
+    input: 0.15,
+    cachedInput: 0.075,
+    cacheWrite: 0.15,
+    output: 0.6,
+  },
+  "o4-mini": { input: 1.1, cachedInput: 0.275, cacheWrite: 1.1, output: 4.4 },
+  "claude-opus-4": {
+    input: 15,
+    cachedInput: 1.5,
+    cacheWrite: 18.75,
+    output: 75,
+  },
+  "claude-sonnet-4": {
+    input: 3,
+    cachedInput: 0.3,
+    cacheWrite: 3.75,
+    output: 15,
+  },
+  "claude-3-7-sonnet": {
+    input: 3,
+    cachedInput: 0.3,
+    cacheWrite: 3.75,
+    output: 15,
+  },
+  "claude-3-5-haiku": {
+    input: 0.8,
+    cachedInput: 0.08,
+    cacheWrite: 1,
+    output: 4,
+  },
+  // MockLlmProvider (gateway.ts): offline, free
+  mock: { input: 0, cachedInput: 0, cacheWrite: 0, output: 0 },
+};
+
+// Unknown models are charged like the most expensive known one, so a new
+// model can't slip past the budget
+const FALLBACK_PRICE: ModelPrice = MODEL_PRICES["claude-opus-4"]!;
+
+export function findModelPrice(model: string): ModelPrice | undefined {
+  const family = Object.keys(MODEL_PRICES)
+    .filter((id) => model === id || model.startsWith(`${id}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? MODEL_PRICES[family] : undefined;
+}
+
+export function totalTokens(usage: LlmUsage): TokenCount {
+  return (usage.inputTokens +
+    usage.cachedInputTokens +
+    usage.cacheWriteTokens +
+    usage.outputTokens) as TokenCount;
+}
+
+export function priceUsage(usage: LlmUsage): USDCents {
+  const price = findModelPrice(usage.model) ?? FALLBACK_PRICE;
+  const usd =
+    (usage.inputTokens * price.input +
+      usage.cachedInputTokens * price.cachedInput +
+      usage.cacheWriteTokens * price.cacheWrite +
+      usage.outputTokens * price.output) /
+    1_000_000;
+  return (usd * 100) as USDCents;
+}
+
+type OpenAIUsageBlock = {
+  input_tokens?: number;
+  output_tokens?: number;
+  input_tokens_details?: { cached_tokens?: number | null } | null;
+  // Chat Completions naming
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number | null } | null;
+};
+
+/** Responses and Chat Completions report cached tokens as part of the input. */
+export function fromOpenAIUsage(
+  model: string,
+  usage: OpenAIUsageBlock | null | undefined,
+): LlmUsage {
+  const input = usage?.input_tokens ?? usage?.prompt_tokens ?? 0;
+  const cached =
+    usage?.input_tokens_details?.cached_tokens ??
+    usage?.prompt_tokens_details?.cached_tokens ??
+    0;
+  return {
+    provider: "openai",
+    model,
+    inputTokens: Math.max(0, input - cached),
+    cachedInputTokens: cached,
+    cacheWriteTokens: 0,
+    outputTokens: usage?.output_tokens ?? usage?.completion_tokens ?? 0,
+  };
+}
+
+type AnthropicUsageBlock = {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+};
+
+/** Anthropic reports cache reads and writes separately from input_tokens. */
+export function fromAnthropicUsage(
+  model: string,
+  usage: AnthropicUsageBlock | null | undefined,
+): LlmUsage {
+  return {
+    provider: "anthropic",
+    model,
+    inputTokens: usage?.input_tokens ?? 0,
+    cachedInputTokens: usage?.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: usage?.cache_creation_input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+  };
+}
+
+/** Where metered usage is reported; a node passes its ctx.budget. */
+export type UsageSink = Pick<BudgetTracker, "trackTokens" | "trackUsd">;
+
+/**
+ * Report a call's usage. Throws BudgetExceededError once the run is over
+ * budget, after the usage has been recorded.
+ */
+export async function reportUsage(
+  sink: UsageSink | undefined,
+  usage: LlmUsage,
+): Promise<{ tokens: TokenCount; usd: USDCents }> {
+  const tokens = totalTokens(usage);
+  const usd = priceUsage(usage);
+  if (sink) {
+    try {
+      await sink.trackTokens(tokens);
+    } finally {
+      await sink.trackUsd(usd);
+    }
+  }
+  return { tokens, usd };
+}
@@ -1,6 +1,8 @@
 // path: lib/ai/openai.ts
 import OpenAI from "openai";
 import { env } from "../../env.mjs";
+import type { LlmCompletion, LlmProviderClient, LlmRequest } from "./gateway";
+import { fromOpenAIUsage } from "./metering";
 
 let _client: OpenAI | null = null;
 
@@ -10,50 +12,46 @@ export function getOpenAI() {
   return _client;
 }
 
-type JsonOk<T> = { ok: true; data: T };
-type JsonErr = { ok: false; rawText: string };
-
-export async function jsonResponse<T = unknown>(
-  prompt: string,
-  schema?: Record<string, unknown>,
-): Promise<JsonOk<T> | JsonErr> {
-  const client = getOpenAI();
-
-  // Pick a small, cost-effective default model; callers can tweak later.
-  const model = process.env.OPENAI_RESPONSES_MODEL || "gpt-4.1-mini";
-
-  const hasSchema = !!schema && typeof schema === "object";
-  const resp = await client.responses.create({
-    model,
-    input: prompt,
-    ...(hasSchema
-      ? {
-          response_format: {
-            type: "json_schema",
-            json_schema: { name: "Output", schema, strict: true },
-          },
-        }
-      : { response_format: { type: "json_object" } }),
-  });
-
-  // Try to extract consolidated text from Responses API result
-  // The SDK exposes a convenience: resp.output_text; fallback to concatenating content.
-  const text =
-    (resp as any).output_text ??
-    (Array.isArray((resp as any).output)
-      ? (resp as any).output
-          .map((o: any) => {
-            if (!o?.content) return "";
-            const c = Array.isArray(o.content) ? o.content : [o.content];
-            return c.map((p: any) => p?.text ?? "").join("");
-          })
-          .join("")
-      : "");
-
-  try {
-    const parsed = JSON.parse(text || "{}") as T;
-    return { ok: true, data: parsed };
-  } catch {
-    return { ok: false, rawText: String(text ?? "") };
+/** OpenAI Responses API with JSON Schema output, for LlmGateway. */
+export class OpenAIProvider implements LlmProviderClient {
+  readonly name = "openai";
+
+  constructor(
+    // Pick a small, cost-effective default model; callers can tweak later.
+    private readonly model: string = process.env.OPENAI_RESPONSES_MODEL ||
+      "gpt-4.1-mini",
+    private readonly client: OpenAI = getOpenAI(),
+  ) {}
+
+  async complete(
+    request: LlmRequest,
+    signal?: AbortSignal,
+  ): Promise<LlmCompletion> {
+    const resp = await this.client.responses.create(
+      {
+        model: this.model,
+        instructions: request.system,
+        input: request.prompt,
+        max_output_tokens: request.maxOutputTokens,
+        text: {
+          format: request.jsonSchema
+            ? {
+                type: "json_schema",
+                name: request.schemaName ?? "Output",
+                schema: request.jsonSchema,
+                // Strict mode rejects optional properties; the gateway
+                // validates the reply instead
+                strict: false,
+              }
+            : { type: "json_object" },
+        },
+      },
+      { signal },
+    );
+
+    return {
+      text: resp.output_text,
+      usage: fromOpenAIUsage(resp.model || this.model, resp.usage),
+    };
   }
 }
@@ -0,0 +1,188 @@
+// path: lib/orchestrations.ts
+/**
+ * Background runs of the code generation blueprint. Server-only.
+ *
+ * Requests never execute the engine themselves: they create the orchestration
+ * row (status "pending", input in metadata.input) and, in the same
+ * transaction, an outbox message that enqueues an `orchestration.run` job
+ * carrying only its id. The job handler reloads the
+ * row and calls OrchestrationEngine.execute, which resumes from the checkpoint
+ * when one exists, so retries go through the exact same path.
+ */
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadBlueprintFile } from "../engine/blueprintLoader";
+import {
+  EventBus,
+  OrchestrationEngine,
+  OrchestrationError,
+  StructuredLogger,
+  SupabaseBackend,
+  SupabaseRepository,
+  type Blueprint,
+  type EngineConfig,
+  type ExecutionResult,
+  type OrchestrationId,
+  type OrchestrationStatus,
+  type OutboxMessage,
+  type TokenCount,
+  type USDCents,
+  type UserId,
+} from "../engine/OrchestrationEngine";
+import { inputMigration, type ProfileInput } from "../nodes/profile.normalize";
+import { nodeRegistry } from "../nodes/registry";
+import { getServiceSupabase } from "./auth";
+import { publishOrchestrationEvents } from "./realtime/server";
+
+export const ORCHESTRATION_JOB = "orchestration.run";
+
+export const OrchestrationJobSchema = z.object({
+  orchestrationId: z.string().min(1),
+});
+
+export type OrchestrationJob = z.infer<typeof OrchestrationJobSchema>;
+
+const BLUEPRINT_PATH =
+  process.env.BLUEPRINT_PATH ?? "blueprint/blueprint.example.json";
+
+const ENGINE_CONFIG: EngineConfig = {
+  maxConcurrencyGlobal: 4,
+  maxConcurrencyPerOrchestration: 4,
+  maxAttemptsPerNode: 2,
+  defaultNodeTimeoutMs: 30000,
+  budget: {
+    maxUsd: 500 as USDCents,
+    maxTokens: 200000 as TokenCount,
+    maxWallClockMs: 600000,
+  },
+};
+
+let blueprintPromise: Promise<Blueprint> | undefined;
+
+/** The blueprint every run executes, loaded and validated once per process. */
+export function loadRunBlueprint(): Promise<Blueprint> {
+  blueprintPromise ??= loadBlueprintFile(BLUEPRINT_PATH, nodeRegistry).then(
+    ({ blueprint }) => blueprint,
+  );
+  // Don't cache a failed load
+  blueprintPromise.catch(() => {
+    blueprintPromise = undefined;
+  });
+  return blueprintPromise;
+}
+
+/** Engine input for a run; free text becomes `{ description }` like in dev-run. */
+export function toRunInput(input: ProfileInput): Record<string, unknown> {
+  return typeof input === "string" ? { description: input } : input;
+}
+
+/**
+ * The earlier run a profile's migrations build on (`migration.baseline`), read
+ * the way profile.normalize reads the input
+ */
+export function migrationBaseline(input: ProfileInput): string | undefined {
+  return inputMigration(input)?.baseline;
+}
+
+/**
+ * Outbox message that enqueues a run; pass it with the write that makes the
+ * run pending. `key` distinguishes separate requests (start, each retry).
+ */
+export function orchestrationRunMessage(
+  orchestrationId: OrchestrationId,
+  key: string,
+): OutboxMessage {
+  const job: OrchestrationJob = { orchestrationId };
+  return {
+    kind: "job",
+    uniqueKey: `${ORCHESTRATION_JOB}:${orchestrationId}:${key}`,
+    payload: {
+      jobName: ORCHESTRATION_JOB,
+      payload: job,
+      orchestrationId,
+      maxAttempts: 3,
+    },
+  };
+}
+
+// One engine per process so maxConcurrencyGlobal holds across jobs
+let engine: OrchestrationEngine | undefined;
+
+function getEngine(supabase: SupabaseClient): OrchestrationEngine {
+  if (!engine) {
+    const events = new EventBus();
+    publishOrchestrationEvents(events);
+    engine = new OrchestrationEngine(
+      ENGINE_CONFIG,
+      new SupabaseRepository(supabase),
+      new SupabaseBackend(supabase),
+      events,
+    );
+  }
+  return engine;
+}
+
+/**
+ * Handle an `orchestration.run` job.
+ * Only "pending" runs are executed: a run paused or cancelled while queued,
+ * or already picked up by another worker, is left alone. A redelivered job
+ * (its worker died mid-run) also picks up "running" rows, continuing from the
+ * checkpoint. Engine failures are persisted on the row and reported as a
+ * "failed" result rather than thrown, so queue-level retries are reserved for
+ * errors before the engine starts.
+ */
+export async function runOrchestrationJob(
+  payload: unknown,
+  options: { redelivered?: boolean; supabase?: SupabaseClient } = {},
+): Promise<{ status: OrchestrationStatus; result?: ExecutionResult }> {
+  const supabase = options.supabase ?? getServiceSupabase();
+  const job = OrchestrationJobSchema.parse(payload);
+  const orchestrationId = job.orchestrationId as OrchestrationId;
+  const correlationId = randomUUID();
+  const logger = new StructuredLogger({ correlationId, orchestrationId });
+
+  const repository = new SupabaseRepository(supabase);
+  const record = await repository.getOrchestration(orchestrationId);
+  if (!record) {
+    throw new OrchestrationError(
+      `Orchestration ${orchestrationId} not found`,
+      "NOT_FOUND",
+      orchestrationId,
+    );
+  }
+  const runnable =
+    record.status === "pending" ||
+    (record.status === "running" && options.redelivered);
+  if (!runnable) {
+    logger.info("Skipping orchestration job", { status: record.status });
+    return { status: record.status };
+  }
+
+  const input = record.metadata?.input;
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new OrchestrationError(
+      `Orchestration ${orchestrationId} has no stored input`,
+      "INVALID_STATE",
+      orchestrationId,
+    );
+  }
+
+  const blueprint = await loadRunBlueprint();
+  try {
+    const result = await getEngine(supabase).execute({
+      orchestrationId,
+      userId: record.userId as UserId,
+      blueprint,
+      input: input as Record<string, unknown>,
+      correlationId,
+    });
+    return { status: result.status, result };
+  } catch (error) {
+    // execute() has already marked the run failed and logged the cause
+    logger.warn("Orchestration job finished with a failed run", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { status: "failed" };
+  }
+}
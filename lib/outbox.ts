@@ -0,0 +1,337 @@
+// path: lib/outbox.ts
+// Transactional outbox (table `outbox`, supabase/migrations/0005_outbox.sql).
+// Server-only. Messages are written together with the state change that
+// causes them (Repository methods and ExecutionContext.outbox for nodes, or
+// write_with_outbox()/record_outbox() from SQL and Edge Functions); the
+// dispatcher below delivers them at least once. Handlers must tolerate
+// redelivery: webhooks receive the message key as Idempotency-Key and jobs
+// are deduplicated on it.
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  StructuredLogger,
+  calculateBackoff,
+  toOutboxRows,
+  type Logger,
+  type OutboxKind,
+  type OutboxMessage,
+} from "../engine/OrchestrationEngine";
+import { JobQueue } from "./queue";
+import { publish } from "./realtime/server";
+
+export interface OutboxEntry {
+  id: string;
+  kind: OutboxKind;
+  payload: unknown;
+  uniqueKey: string;
+  /** Delivery attempts so far, including the current one */
+  attempts: number;
+  maxAttempts: number;
+  createdAt: Date;
+}
+
+interface OutboxRow {
+  id: string;
+  kind: OutboxKind;
+  payload: unknown;
+  unique_key: string;
+  attempts: number;
+  max_attempts: number;
+  created_at: string;
+}
+
+function toOutboxEntry(row: OutboxRow): OutboxEntry {
+  return {
+    id: row.id,
+    kind: row.kind,
+    payload: row.payload,
+    uniqueKey: row.unique_key,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/** Thrown by a handler when retrying cannot help; the message is dead-lettered. */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentDeliveryError";
+  }
+}
+
+export type OutboxHandler<K extends OutboxKind = OutboxKind> = (
+  payload: Extract<OutboxMessage, { kind: K }>["payload"],
+  entry: OutboxEntry,
+) => Promise<void>;
+
+export type OutboxHandlers = { [K in OutboxKind]: OutboxHandler<K> };
+
+export class OutboxStore {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Record messages on their own, for side effects without a state change.
+   * Prefer the `outbox` argument of the write that causes them.
+   */
+  async record(messages: OutboxMessage[]): Promise<void> {
+    const { error } = await this.supabase
+      .from("outbox")
+      .upsert(toOutboxRows(messages), {
+        onConflict: "unique_key",
+        ignoreDuplicates: true,
+      });
+    if (error) throw new Error(`Failed to record outbox: ${error.message}`);
+  }
+
+  async claim(
+    workerId: string,
+    options: { limit: number; lockTimeoutMs: number },
+  ): Promise<OutboxEntry[]> {
+    const { data, error } = await this.supabase.rpc("claim_outbox", {
+      p_worker: workerId,
+      p_limit: options.limit,
+      p_lock_seconds: Math.ceil(options.lockTimeoutMs / 1000),
+    });
+    if (error) throw new Error(`Failed to claim outbox: ${error.message}`);
+    return ((data ?? []) as OutboxRow[]).map(toOutboxEntry);
+  }
+
+  async markProcessed(entry: OutboxEntry, workerId: string): Promise<void> {
+    await this.updateOwned(entry, workerId, {
+      processed_at: new Date().toISOString(),
+      last_error: null,
+    });
+  }
+
+  /** Schedule a retry, or dead-letter when attempts are used up or retryDelayMs is null. */
+  async markFailed(
+    entry: OutboxEntry,
+    workerId: string,
+    error: string,
+    retryDelayMs: number | null,
+  ): Promise<"retry" | "dead"> {
+    if (retryDelayMs === null || entry.attempts >= entry.maxAttempts) {
+      await this.updateOwned(entry, workerId, {
+        failed_at: new Date().toISOString(),
+        last_error: error,
+      });
+      return "dead";
+    }
+
+    await this.updateOwned(entry, workerId, {
+      next_attempt_at: new Date(Date.now() + retryDelayMs).toISOString(),
+      last_error: error,
+    });
+    return "retry";
+  }
+
+  private async updateOwned(
+    entry: OutboxEntry,
+    workerId: string,
+    values: Record<string, unknown>,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("outbox")
+      .update({ ...values, locked_by: null, locked_at: null })
+      .eq("id", entry.id)
+      .eq("locked_by", workerId);
+    if (error) {
+      throw new Error(`Failed to update outbox ${entry.id}: ${error.message}`);
+    }
+  }
+}
+
+// 4xx other than timeout/rate limiting means the request itself is wrong
+function isPermanentStatus(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+/** Delivery for webhooks (POST JSON), realtime broadcasts and job enqueues. */
+export function createOutboxHandlers(supabase: SupabaseClient): OutboxHandlers {
+  const jobs = new JobQueue(supabase);
+
+  return {
+    webhook: async ({ url, body, headers }, entry) => {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "idempotency-key": entry.uniqueKey,
+          ...headers,
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(10_000),
+      });
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        const message = `Webhook ${url} failed (${res.status}): ${text}`;
+        throw isPermanentStatus(res.status)
+          ? new PermanentDeliveryError(message)
+          : new Error(message);
+      }
+    },
+
+    realtime: async ({ entity, event, payload }) => {
+      const status = await publish(entity, event, payload);
+      if (status !== "ok") throw new Error(`Realtime send ${status}`);
+    },
+
+    job: async ({ jobName, payload, ...options }, entry) => {
+      await jobs.enqueue(jobName, payload, {
+        ...options,
+        dedupeKey: entry.uniqueKey,
+      });
+    },
+  };
+}
+
+export interface OutboxDispatcherOptions {
+  workerId?: string;
+  /** Messages claimed per round (default 20) */
+  batchSize?: number;
+  /** Idle delay when nothing is due (default 1s) */
+  pollIntervalMs?: number;
+  /** A claimed message not settled within this time is claimed again (default 60s) */
+  lockTimeoutMs?: number;
+  /** Retry delay after the first failure, doubled per attempt (default 1s) */
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  logger?: Logger;
+}
+
+/**
+ * Delivers due outbox messages in order of their next attempt. A message is
+ * marked processed only after its handler succeeds, so a crash in between
+ * redelivers it. Failures back off exponentially until max_attempts, then
+ * the message is dead-lettered (failed_at, last_error).
+ */
+export class OutboxDispatcher {
+  readonly workerId: string;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly lockTimeoutMs: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+  private readonly logger: Logger;
+  private running = false;
+  private wake?: () => void;
+
+  constructor(
+    private readonly store: OutboxStore,
+    private readonly handlers: OutboxHandlers,
+    options: OutboxDispatcherOptions = {},
+  ) {
+    this.workerId =
+      options.workerId ?? `${hostname()}:${process.pid}:${randomUUID()}`;
+    this.batchSize = options.batchSize ?? 20;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 60_000;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 600_000;
+    this.logger =
+      options.logger ?? new StructuredLogger({ correlationId: this.workerId });
+  }
+
+  /** Deliver one batch; returns the number of messages claimed. */
+  async dispatchOnce(): Promise<number> {
+    const entries = await this.store.claim(this.workerId, {
+      limit: this.batchSize,
+      lockTimeoutMs: this.lockTimeoutMs,
+    });
+    for (const entry of entries) await this.deliver(entry);
+    return entries.length;
+  }
+
+  /** Run until stop(); resolves after the current batch. */
+  async start(): Promise<void> {
+    this.running = true;
+    this.logger.info("Outbox dispatcher started", { workerId: this.workerId });
+
+    while (this.running) {
+      let claimed = 0;
+      try {
+        claimed = await this.dispatchOnce();
+      } catch (error) {
+        this.logger.error("Failed to claim outbox messages", error as Error);
+      }
+      if (claimed < this.batchSize) await this.idle();
+    }
+
+    this.logger.info("Outbox dispatcher stopped", { workerId: this.workerId });
+  }
+
+  stop(): void {
+    this.running = false;
+    this.wake?.();
+  }
+
+  private idle(): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, this.pollIntervalMs);
+      this.wake = done;
+      function done() {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<void> {
+    const context = {
+      outboxId: entry.id,
+      kind: entry.kind,
+      uniqueKey: entry.uniqueKey,
+      attempt: entry.attempts,
+    };
+    const handler = this.handlers[entry.kind] as OutboxHandler | undefined;
+
+    try {
+      if (!handler) {
+        throw new PermanentDeliveryError(`No handler for ${entry.kind}`);
+      }
+      await handler(entry.payload as OutboxMessage["payload"], entry);
+      await this.store.markProcessed(entry, this.workerId);
+      this.logger.debug("Outbox message delivered", context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const delay =
+        error instanceof PermanentDeliveryError
+          ? null
+          : calculateBackoff(
+              entry.attempts,
+              this.retryBaseDelayMs,
+              this.retryMaxDelayMs,
+            );
+      try {
+        const outcome = await this.store.markFailed(
+          entry,
+          this.workerId,
+          message,
+          delay,
+        );
+        if (outcome === "dead") {
+          this.logger.error(
+            "Outbox message dead-lettered",
+            error as Error,
+            context,
+          );
+        } else {
+          this.logger.warn("Outbox delivery failed; will retry", {
+            ...context,
+            error: message,
+            retryInMs: delay,
+          });
+        }
+      } catch (markError) {
+        // Left locked; claimed again after the lock timeout
+        this.logger.error(
+          "Failed to record outbox failure",
+          markError as Error,
+          context,
+        );
+      }
+    }
+  }
+}
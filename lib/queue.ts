@@ -1,30 +1,201 @@
 // path: lib/queue.ts
-// Server helper to enqueue a job via Supabase Functions REST.
-import { env } from "../env.mjs";
+// Postgres-backed job queue (table `job_queue`, supabase/migrations/0004_job_queue.sql).
+// Server-only: uses the service role. Jobs are consumed by QueueWorker (lib/worker.ts).
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getServiceSupabase } from "./auth";
 
-export type EnqueueOptions = { delaySeconds?: number };
+export type JobStatus = "pending" | "running" | "complete" | "dead";
 
+export type EnqueueOptions = {
+  delaySeconds?: number;
+  /** Higher runs first */
+  priority?: number;
+  /** Attempts before the job is dead-lettered */
+  maxAttempts?: number;
+  orchestrationId?: string;
+  /** At most one job per key; enqueueing again returns the existing job */
+  dedupeKey?: string;
+};
+
+export interface Job {
+  id: string;
+  jobName: string;
+  payload: unknown;
+  orchestrationId: string | null;
+  status: JobStatus;
+  /** Attempts started so far, including the current one */
+  attempts: number;
+  maxAttempts: number;
+  priority: number;
+  runAt: Date;
+  lockedBy: string | null;
+  lockedAt: Date | null;
+  lastError: string | null;
+}
+
+interface JobRow {
+  id: string;
+  job_name: string;
+  payload: unknown;
+  orchestration_id: string | null;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  priority: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_at: string | null;
+  last_error: string | null;
+}
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    jobName: row.job_name,
+    payload: row.payload,
+    orchestrationId: row.orchestration_id,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    priority: row.priority,
+    runAt: new Date(row.run_at),
+    lockedBy: row.locked_by,
+    lockedAt: row.locked_at ? new Date(row.locked_at) : null,
+    lastError: row.last_error,
+  };
+}
+
+/**
+ * Queue operations. Every state change after a claim is conditioned on
+ * `locked_by`, so a worker whose lock expired (and whose job was reclaimed)
+ * cannot overwrite the new owner's state.
+ */
+export class JobQueue {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async enqueue(
+    jobName: string,
+    payload: unknown,
+    opts: EnqueueOptions = {},
+  ): Promise<Job> {
+    const runAt = new Date(Date.now() + (opts.delaySeconds ?? 0) * 1000);
+    const row = {
+      job_name: jobName,
+      payload: payload ?? {},
+      orchestration_id: opts.orchestrationId,
+      run_at: runAt.toISOString(),
+      priority: opts.priority ?? 0,
+      max_attempts: opts.maxAttempts ?? 5,
+      dedupe_key: opts.dedupeKey,
+    };
+    const { data, error } = opts.dedupeKey
+      ? await this.supabase
+          .from("job_queue")
+          .upsert(row, { onConflict: "dedupe_key", ignoreDuplicates: true })
+          .select()
+          .maybeSingle()
+      : await this.supabase.from("job_queue").insert(row).select().single();
+
+    if (error) throw new Error(`enqueue failed: ${error.message}`);
+    if (data) return toJob(data as JobRow);
+
+    // Duplicate dedupe key: the job was enqueued before
+    const existing = await this.supabase
+      .from("job_queue")
+      .select()
+      .eq("dedupe_key", opts.dedupeKey!)
+      .single();
+    if (existing.error) {
+      throw new Error(`enqueue failed: ${existing.error.message}`);
+    }
+    return toJob(existing.data as JobRow);
+  }
+
+  /** Claim due jobs (and jobs whose lock expired) with FOR UPDATE SKIP LOCKED. */
+  async claim(
+    workerId: string,
+    options: { limit: number; visibilityTimeoutMs: number },
+  ): Promise<Job[]> {
+    const { data, error } = await this.supabase.rpc("claim_jobs", {
+      p_worker: workerId,
+      p_limit: options.limit,
+      p_visibility_seconds: Math.ceil(options.visibilityTimeoutMs / 1000),
+    });
+
+    if (error) throw new Error(`claim failed: ${error.message}`);
+    return ((data ?? []) as JobRow[]).map(toJob);
+  }
+
+  /** Extend the visibility timeout; false if the job is no longer ours. */
+  async heartbeat(job: Job, workerId: string): Promise<boolean> {
+    return this.updateOwned(job, workerId, {
+      locked_at: new Date().toISOString(),
+    });
+  }
+
+  async complete(job: Job, workerId: string): Promise<boolean> {
+    return this.updateOwned(job, workerId, {
+      status: "complete",
+      locked_by: null,
+      locked_at: null,
+      last_error: null,
+    });
+  }
+
+  /**
+   * Record a failed attempt: back to pending after `retryDelayMs`, or
+   * dead-lettered when attempts are used up or `retryDelayMs` is null.
+   */
+  async fail(
+    job: Job,
+    workerId: string,
+    error: string,
+    retryDelayMs: number | null,
+  ): Promise<JobStatus> {
+    if (retryDelayMs === null || job.attempts >= job.maxAttempts) {
+      await this.updateOwned(job, workerId, {
+        status: "dead",
+        locked_by: null,
+        locked_at: null,
+        last_error: error,
+      });
+      return "dead";
+    }
+
+    await this.updateOwned(job, workerId, {
+      status: "pending",
+      run_at: new Date(Date.now() + retryDelayMs).toISOString(),
+      locked_by: null,
+      locked_at: null,
+      last_error: error,
+    });
+    return "pending";
+  }
+
+  private async updateOwned(
+    job: Job,
+    workerId: string,
+    values: Record<string, unknown>,
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("job_queue")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .eq("locked_by", workerId)
+      .select("id");
+
+    if (error)
+      throw new Error(`Failed to update job ${job.id}: ${error.message}`);
+    return (data ?? []).length > 0;
+  }
+}
+
+/** Insert a job using the service-role client. */
 export async function enqueue(
   jobName: string,
   payload: unknown,
   opts: EnqueueOptions = {},
-) {
-  const url = new URL("/functions/v1/queue", env.SUPABASE_URL).toString();
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      authorization: `Bearer ${env.SUPABASE_SERVICE_ROLE}`,
-    },
-    body: JSON.stringify({
-      jobName,
-      payload,
-      delaySeconds: opts.delaySeconds ?? 0,
-    }),
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`enqueue failed (${res.status}): ${text}`);
-  }
-  return (await res.json().catch(() => ({}))) as unknown;
+): Promise<Job> {
+  return new JobQueue(getServiceSupabase()).enqueue(jobName, payload, opts);
 }
@@ -3,7 +3,14 @@
 
 import { createClient } from "@supabase/supabase-js";
 import * as React from "react";
-import { useQueryClient, type QueryKey } from "@tanstack/react-query";
+import { useQuery, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import type { OrchestrationEvent } from "../../engine/OrchestrationEngine";
+import {
+  applyOrchestrationEvent,
+  emptyOrchestrationProgress,
+  orchestrationEntity,
+  type OrchestrationProgress,
+} from "./orchestration";
 
 let _client: ReturnType<typeof createClient> | null = null;
 
@@ -65,3 +72,37 @@ export function useRealtimeChannel<TData>(
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [entity, event, stableKeySig, qc]);
 }
+
+/**
+ * Live progress of one orchestration, folded from the engine events
+ * broadcast on 'lesiab:orchestration:<id>'. Starts empty (status null) and
+ * only reflects events received while mounted.
+ */
+export function useOrchestrationProgress(
+  orchestrationId: string,
+): OrchestrationProgress {
+  const cacheKey = React.useMemo(
+    () => ["orchestration-progress", orchestrationId] as const,
+    [orchestrationId],
+  );
+
+  useRealtimeChannel<OrchestrationProgress>(
+    orchestrationEntity(orchestrationId),
+    "*",
+    cacheKey,
+    (old, payload) =>
+      applyOrchestrationEvent(
+        old ?? emptyOrchestrationProgress(),
+        payload as OrchestrationEvent,
+      ),
+  );
+
+  // Cache-only query: data arrives via setQueryData from the channel above
+  const { data } = useQuery({
+    queryKey: cacheKey,
+    queryFn: () => emptyOrchestrationProgress(),
+    initialData: emptyOrchestrationProgress,
+    enabled: false,
+  });
+  return data;
+}
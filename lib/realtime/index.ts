@@ -1,3 +1,4 @@
 // path: lib/realtime/index.ts
 export * from "./server";
 export * from "./client";
+export * from "./orchestration";
@@ -0,0 +1,141 @@
+// path: lib/realtime/orchestration.ts
+// Orchestration progress over Realtime: channel naming and the pure reducer
+// shared by the server publisher and the client hook. No env access here.
+import type {
+  BudgetType,
+  OrchestrationEvent,
+  OrchestrationStatus,
+} from "../../engine/OrchestrationEngine";
+
+/** Entity for `publish`/`useRealtimeChannel`; the channel is `lesiab:orchestration:<id>` */
+export function orchestrationEntity(orchestrationId: string) {
+  return `orchestration:${orchestrationId}`;
+}
+
+export type NodeProgress = {
+  status: "running" | "retrying" | "complete" | "failed" | "skipped";
+  attempts: number;
+  cached: boolean;
+  durationMs?: number;
+  error?: string;
+  /** Why a skipped node did not run */
+  reason?: string;
+};
+
+export type OrchestrationProgress = {
+  /** null until the first event arrives */
+  status: OrchestrationStatus | null;
+  reason?: string;
+  planHash?: string;
+  totalBatches: number;
+  totalNodes: number;
+  currentBatch: number | null;
+  nodes: Record<string, NodeProgress>;
+  artifacts: string[];
+  budgetWarnings: { budgetType: BudgetType; used: number; limit: number }[];
+  lastEventAt?: string;
+};
+
+export function emptyOrchestrationProgress(): OrchestrationProgress {
+  return {
+    status: null,
+    totalBatches: 0,
+    totalNodes: 0,
+    currentBatch: null,
+    nodes: {},
+    artifacts: [],
+    budgetWarnings: [],
+  };
+}
+
+/** Fold one engine event into the progress view (returns a new object). */
+export function applyOrchestrationEvent(
+  progress: OrchestrationProgress,
+  event: OrchestrationEvent,
+): OrchestrationProgress {
+  const next = { ...progress, lastEventAt: event.at };
+  switch (event.type) {
+    case "orchestration.started":
+      return {
+        ...next,
+        status: "running",
+        reason: undefined,
+        planHash: event.planHash,
+        totalBatches: event.totalBatches,
+        totalNodes: event.totalNodes,
+      };
+    case "orchestration.finished":
+      return { ...next, status: event.status, reason: event.reason };
+    case "batch.started":
+      return { ...next, currentBatch: event.batchIndex };
+    case "node.attempt.started":
+      return {
+        ...next,
+        nodes: {
+          ...next.nodes,
+          [event.nodeId]: {
+            status: "running",
+            attempts: event.attemptNo,
+            cached: false,
+          },
+        },
+      };
+    case "node.attempt.failed":
+      return {
+        ...next,
+        nodes: {
+          ...next.nodes,
+          [event.nodeId]: {
+            status: event.willRetry ? "retrying" : "failed",
+            attempts: event.attemptNo,
+            cached: false,
+            error: event.error,
+          },
+        },
+      };
+    case "node.completed":
+      return {
+        ...next,
+        nodes: {
+          ...next.nodes,
+          [event.nodeId]: {
+            status: "complete",
+            attempts: event.attempts,
+            cached: event.cached,
+            durationMs: event.durationMs,
+          },
+        },
+      };
+    case "node.skipped":
+      return {
+        ...next,
+        nodes: {
+          ...next.nodes,
+          [event.nodeId]: {
+            status: "skipped",
+            attempts: 0,
+            cached: false,
+            reason: event.reason,
+          },
+        },
+      };
+    case "budget.warning":
+      return {
+        ...next,
+        budgetWarnings: [
+          ...next.budgetWarnings,
+          {
+            budgetType: event.budgetType,
+            used: event.used,
+            limit: event.limit,
+          },
+        ],
+      };
+    case "artifact.saved":
+      return next.artifacts.includes(event.path)
+        ? next
+        : { ...next, artifacts: [...next.artifacts, event.path] };
+    default:
+      return next;
+  }
+}
@@ -3,6 +3,8 @@
 // Requires Realtime 'broadcast' to be enabled in project settings.
 import { createClient } from "@supabase/supabase-js";
 import { env } from "../../env.mjs";
+import type { EventBus } from "../../engine/OrchestrationEngine";
+import { orchestrationEntity } from "./orchestration";
 
 const supa = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE, {
   auth: { persistSession: false },
@@ -26,3 +28,30 @@ export async function publish(
   }
   return ok;
 }
+
+/**
+ * Forward engine events to `lesiab:orchestration:<id>`, one broadcast event
+ * per engine event type. Sends are chained per orchestration so clients see
+ * events in emission order. Returns an unsubscribe function.
+ */
+export function publishOrchestrationEvents(bus: EventBus) {
+  const queues = new Map<string, Promise<unknown>>();
+
+  return bus.subscribe((event) => {
+    const id = event.orchestrationId;
+    const sent = (queues.get(id) ?? Promise.resolve())
+      .then(() => publish(orchestrationEntity(id), event.type, event))
+      .then((status) => {
+        if (status !== "ok") throw new Error(`Realtime send ${status}`);
+      });
+    // Keep the chain alive after a failed send; the bus logs the failure
+    const queued = sent.catch(() => undefined);
+    queues.set(id, queued);
+    if (event.type === "orchestration.finished") {
+      void queued.then(() => {
+        if (queues.get(id) === queued) queues.delete(id);
+      });
+    }
+    return sent;
+  });
+}
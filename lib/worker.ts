@@ -0,0 +1,230 @@
+// path: lib/worker.ts
+// Long-running consumer for the job queue (lib/queue.ts). Server-only; run it
+// in a Node process with scripts/worker.ts.
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import {
+  OrchestrationError,
+  StructuredLogger,
+  calculateBackoff,
+  isRetryable,
+  type Logger,
+} from "../engine/OrchestrationEngine";
+import type { Job, JobQueue } from "./queue";
+
+export type JobHandler = (job: Job) => Promise<unknown>;
+
+// Bad payloads, missing rows and deterministic engine errors fail the same
+// way on every attempt
+function isJobRetryable(error: unknown): boolean {
+  if (error instanceof z.ZodError) return false;
+  if (
+    error instanceof OrchestrationError &&
+    (error.code === "NOT_FOUND" || error.code === "INVALID_STATE")
+  ) {
+    return false;
+  }
+  return isRetryable(error);
+}
+
+export interface QueueWorkerOptions {
+  workerId?: string;
+  /** Jobs processed at the same time (default 1) */
+  concurrency?: number;
+  /** Idle delay between claims when the queue is empty (default 1s) */
+  pollIntervalMs?: number;
+  /** A running job not heartbeated for this long is handed to another worker (default 60s) */
+  visibilityTimeoutMs?: number;
+  /** Default: a third of the visibility timeout */
+  heartbeatIntervalMs?: number;
+  /** Retry delay after the first failure, doubled per attempt (default 1s) */
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  logger?: Logger;
+}
+
+/**
+ * Claims jobs, dispatches them to handlers by job name and records the
+ * outcome. Failed jobs are retried with exponential backoff until their
+ * max_attempts; unknown job names, invalid payloads and non-retryable engine
+ * errors are dead-lettered right away. A crashed worker's jobs are redelivered
+ * once their visibility timeout expires (Job.attempts > 1 on redelivery).
+ */
+export class QueueWorker {
+  readonly workerId: string;
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly visibilityTimeoutMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+  private readonly logger: Logger;
+  private readonly inFlight = new Set<Promise<void>>();
+  private running = false;
+  private wake?: () => void;
+
+  constructor(
+    private readonly queue: JobQueue,
+    private readonly handlers: Record<string, JobHandler>,
+    options: QueueWorkerOptions = {},
+  ) {
+    this.workerId =
+      options.workerId ?? `${hostname()}:${process.pid}:${randomUUID()}`;
+    this.concurrency = options.concurrency ?? 1;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.visibilityTimeoutMs = options.visibilityTimeoutMs ?? 60_000;
+    this.heartbeatIntervalMs =
+      options.heartbeatIntervalMs ?? Math.floor(this.visibilityTimeoutMs / 3);
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 300_000;
+    this.logger =
+      options.logger ?? new StructuredLogger({ correlationId: this.workerId });
+
+    if (this.concurrency < 1) {
+      throw new Error("concurrency must be at least 1");
+    }
+    if (this.heartbeatIntervalMs >= this.visibilityTimeoutMs) {
+      throw new Error("heartbeatIntervalMs must be below visibilityTimeoutMs");
+    }
+  }
+
+  /** Run until stop(); resolves once in-flight jobs have finished. */
+  async start(): Promise<void> {
+    this.running = true;
+    this.logger.info("Queue worker started", {
+      workerId: this.workerId,
+      jobs: Object.keys(this.handlers),
+    });
+
+    while (this.running) {
+      const free = this.concurrency - this.inFlight.size;
+      let claimed = 0;
+      if (free > 0) {
+        try {
+          const jobs = await this.queue.claim(this.workerId, {
+            limit: free,
+            visibilityTimeoutMs: this.visibilityTimeoutMs,
+          });
+          claimed = jobs.length;
+          for (const job of jobs) this.track(this.process(job));
+        } catch (error) {
+          this.logger.error("Failed to claim jobs", error as Error);
+        }
+      }
+      // Keep draining while the queue has work and we have capacity
+      if (claimed === 0 || claimed < free) await this.idle();
+    }
+
+    await Promise.allSettled([...this.inFlight]);
+    this.logger.info("Queue worker stopped", { workerId: this.workerId });
+  }
+
+  /** Stop claiming new jobs; jobs already running are left to finish. */
+  stop(): void {
+    this.running = false;
+    this.wake?.();
+  }
+
+  private track(task: Promise<void>): void {
+    this.inFlight.add(task);
+    void task.finally(() => {
+      this.inFlight.delete(task);
+      this.wake?.(); // capacity freed, claim again
+    });
+  }
+
+  // Sleep for the poll interval, or until a job finishes or stop() is called
+  private idle(): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, this.pollIntervalMs);
+      this.wake = done;
+      function done() {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+  }
+
+  private async process(job: Job): Promise<void> {
+    const logger = new StructuredLogger({ correlationId: job.id });
+    const context = {
+      jobName: job.jobName,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+    };
+
+    const handler = this.handlers[job.jobName];
+    if (!handler) {
+      logger.error("No handler for job; dead-lettering", undefined, context);
+      await this.settle(job, () =>
+        this.queue.fail(
+          job,
+          this.workerId,
+          `No handler for job ${job.jobName}`,
+          null,
+        ),
+      );
+      return;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.queue
+        .heartbeat(job, this.workerId)
+        .then((owned) => {
+          if (!owned) logger.warn("Lost the lock on a running job", context);
+        })
+        .catch((error) =>
+          logger.warn("Heartbeat failed", { ...context, error: String(error) }),
+        );
+    }, this.heartbeatIntervalMs);
+    heartbeat.unref?.();
+
+    const startedAt = Date.now();
+    try {
+      logger.info("Job started", context);
+      await handler(job);
+      clearInterval(heartbeat);
+      await this.settle(job, () => this.queue.complete(job, this.workerId));
+      logger.info("Job completed", {
+        ...context,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      clearInterval(heartbeat);
+      const message = error instanceof Error ? error.message : String(error);
+      const delay = isJobRetryable(error)
+        ? calculateBackoff(
+            job.attempts,
+            this.retryBaseDelayMs,
+            this.retryMaxDelayMs,
+          )
+        : null;
+      const status = await this.settle(job, () =>
+        this.queue.fail(job, this.workerId, message, delay),
+      );
+      if (status === "dead") {
+        logger.error("Job dead-lettered", error as Error, context);
+      } else {
+        logger.warn("Job failed; will retry", {
+          ...context,
+          error: message,
+          retryInMs: delay,
+        });
+      }
+    }
+  }
+
+  // Queue bookkeeping failures leave the job locked; it is redelivered after
+  // the visibility timeout
+  private async settle<T>(job: Job, update: () => Promise<T>) {
+    try {
+      return await update();
+    } catch (error) {
+      this.logger.error("Failed to record job outcome", error as Error, {
+        jobId: job.id,
+      });
+      return undefined;
+    }
+  }
+}
@@ -14,37 +14,16 @@
  *  - Defensive parsing similar to OpenAI helper.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const AiAnthropicSetupNode: NodeSpec<unknown, { files: string[] }> = {
+export const AiAnthropicSetupNode = defineNode({
   id: "ai.anthropic.setup",
   phase: "execute",
-  estimate: () => ({ tokens: 320, usd: 0.0015 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 320, usd: 1 }),
   async run(_input, ctx) {
     const path = `artifacts/${ctx.orchestrationId}/repo/lib/ai/anthropic.ts`;
 
@@ -92,13 +71,11 @@ export async function jsonMessage<T = unknown>(prompt: string, system = "Return
 `);
 
     await ctx.storage.saveArtifact(path, content);
-    ctx.logger.info({
-      msg: "ai.anthropic.setup:written",
+    ctx.logger.info("ai.anthropic.setup:written", {
       files: [path],
-      correlationId: ctx.correlationId,
     });
     return { files: [path] };
   },
-};
+});
 
 export default AiAnthropicSetupNode;
@@ -23,31 +23,13 @@
  *      "openai" (default) or "anthropic" (falls back to OpenAI with a comment).
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import {
+  defineNode,
+  FilesOutput,
+  NoInput,
+  someEntity,
+} from "../engine/nodeSdk";
+
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
 const ROUTER_TS = lf(`// path: server/trpc/embeddings.router.ts
@@ -192,23 +174,25 @@ Deno.serve(async (req) => {
 });
 `);
 
-export const AiEmbedderNode: NodeSpec<unknown, { files: string[] }> = {
+export const AiEmbedderNode = defineNode({
   id: "ai.embedder",
   phase: "execute",
-  estimate: () => ({ tokens: 1100, usd: 0.0045 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 1100, usd: 1 }),
+  // Only when an entity asks for vector search
+  when: (profile) => someEntity(profile, (e) => e.vectorSearch === true),
   async run(_input, ctx) {
     const base = `artifacts/${ctx.orchestrationId}/repo`;
     const routerPath = `${base}/server/trpc/embeddings.router.ts`;
     const edgePath = `${base}/supabase/functions/embeddings/index.ts`;
     await ctx.storage.saveArtifact(routerPath, ROUTER_TS);
     await ctx.storage.saveArtifact(edgePath, EDGE_TS);
-    ctx.logger.info({
-      msg: "ai.embedder:written",
+    ctx.logger.info("ai.embedder:written", {
       files: [routerPath, edgePath],
-      correlationId: ctx.correlationId,
     });
     return { files: [routerPath, edgePath] };
   },
-};
+});
 
 export default AiEmbedderNode;
@@ -19,31 +19,7 @@
  *    this module still compiles and can be exercised in tests.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
@@ -216,20 +192,22 @@ export function buildCodegenFlow(tools: CodegenTools) {
 }
 `);
 
-export const AiLanggraphFlowNode: NodeSpec<unknown, { files: string[] }> = {
+export const AiLanggraphFlowNode = defineNode({
   id: "ai.langgraph.flow",
   phase: "codeGeneration",
-  estimate: () => ({ tokens: 950, usd: 0.004 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 950, usd: 1 }),
+  // Opt-out via llm.useLangGraph (defaults to true)
+  when: (profile) => profile.llm?.useLangGraph !== false,
   async run(_input, ctx) {
     const path = `artifacts/${ctx.orchestrationId}/repo/lib/ai/flows/codegenFlow.ts`;
     await ctx.storage.saveArtifact(path, CODEGEN_FLOW_TS);
-    ctx.logger.info({
-      msg: "ai.langgraph.flow:written",
+    ctx.logger.info("ai.langgraph.flow:written", {
       files: [path],
-      correlationId: ctx.correlationId,
     });
     return { files: [path] };
   },
-};
+});
 
 export default AiLanggraphFlowNode;
@@ -14,37 +14,16 @@
  *  - Defensive parsing: returns { ok: true, data } on success or { ok: false, rawText } on fallback.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const AiOpenaiSetupNode: NodeSpec<unknown, { files: string[] }> = {
+export const AiOpenaiSetupNode = defineNode({
   id: "ai.openai.setup",
   phase: "execute",
-  estimate: () => ({ tokens: 320, usd: 0.0015 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 320, usd: 1 }),
   async run(_input, ctx) {
     const path = `artifacts/${ctx.orchestrationId}/repo/lib/ai/openai.ts`;
 
@@ -104,13 +83,11 @@ export async function jsonResponse<T = unknown>(prompt: string, schema?: Record<
 `);
 
     await ctx.storage.saveArtifact(path, content);
-    ctx.logger.info({
-      msg: "ai.openai.setup:written",
+    ctx.logger.info("ai.openai.setup:written", {
       files: [path],
-      correlationId: ctx.correlationId,
     });
     return { files: [path] };
   },
-};
+});
 
 export default AiOpenaiSetupNode;
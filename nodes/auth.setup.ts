@@ -18,38 +18,16 @@
  *  - Do NOT import lib/auth.ts on the client.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const AuthSetupNode: NodeSpec<unknown, { files: string[] }> = {
+export const AuthSetupNode = defineNode({
   id: "auth.setup",
   phase: "execute",
-  estimate: () => ({ tokens: 500, usd: 0.002 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 500, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo`;
 
@@ -121,13 +99,11 @@ export const config = {
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "auth.setup:written",
+    ctx.logger.info("auth.setup:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default AuthSetupNode;
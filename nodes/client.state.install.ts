@@ -12,38 +12,16 @@
  *  - artifacts/${orc}/repo/lib/cache.ts
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const ClientStateInstallNode: NodeSpec<unknown, { files: string[] }> = {
+export const ClientStateInstallNode = defineNode({
   id: "client.state.install",
   phase: "execute",
-  estimate: () => ({ tokens: 220, usd: 0.001 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 220, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo`;
 
@@ -92,12 +70,11 @@ export function createLRU(capacity = 200) {
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "client.state.install:written",
+    ctx.logger.info("client.state.install:written", {
       files: files.map((f) => f.path),
     });
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default ClientStateInstallNode;
@@ -17,37 +17,16 @@
  *  - You can wire DB-backed job tables later if needed.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const CronQueueSetupNode: NodeSpec<unknown, { files: string[] }> = {
+export const CronQueueSetupNode = defineNode({
   id: "cron.queue.setup",
   phase: "execute",
-  estimate: () => ({ tokens: 360, usd: 0.0015 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 360, usd: 1 }),
   async run(_input, ctx) {
     const rootEf = `artifacts/${ctx.orchestrationId}/repo/supabase/functions`;
     const rootLib = `artifacts/${ctx.orchestrationId}/repo/lib`;
@@ -111,14 +90,12 @@ export async function enqueue(jobName: string, payload: unknown, opts: EnqueueOp
       await ctx.storage.saveArtifact(f.path, f.content);
     }
 
-    ctx.logger.info({
-      msg: "cron.queue.setup:written",
+    ctx.logger.info("cron.queue.setup:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
 
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default CronQueueSetupNode;
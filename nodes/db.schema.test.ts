@@ -0,0 +1,314 @@
+// path: nodes/db.schema.test.ts
+/**
+ * db.schema tests: migrations against a baseline run, generated by running
+ * profile.normalize and db.schema through the engine.
+ */
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { UserId } from "../engine/OrchestrationEngine";
+import {
+  blueprintOf,
+  execute,
+  withEngine,
+  type TestEngine,
+} from "../engine/testHarness";
+import DbSchemaNode from "./db.schema";
+import { createProfileNormalizeNode } from "./profile.normalize";
+
+const blueprint = (id: string) =>
+  blueprintOf(
+    id,
+    [createProfileNormalizeNode(), DbSchemaNode],
+    [{ from: "profile.normalize", to: "db.schema" }],
+  );
+
+type FieldInput = Record<string, unknown> & { name: string };
+
+const TITLE: FieldInput = { name: "title", dbType: "text", required: true };
+
+const todos = (
+  version: string,
+  fields: FieldInput[] = [TITLE],
+  migration?: { baseline: string; confirm?: string[] },
+) => ({
+  id: "todo",
+  version,
+  entities: [{ name: "Todo", table: "todos", fields }],
+  ...(migration ? { migration } : {}),
+});
+
+// Statements under each `-- <key>` comment, in file order; the header
+// comments end at the first blank line
+function sections(sql: string, prefix = "-- "): Map<string, string[]> {
+  const out = new Map<string, string[]>();
+  let current: string[] | undefined;
+  const lines = sql.split("\n");
+  for (const line of lines.slice(lines.indexOf(""))) {
+    if (line.startsWith(prefix)) {
+      const key = line.slice(prefix.length).replace(/ \(destructive.*$/, "");
+      current = [];
+      out.set(key, current);
+    } else if (current && line.trim()) {
+      current.push(line);
+    }
+  }
+  return out;
+}
+
+type Migration = { up: Map<string, string[]>; down: Map<string, string[]> };
+
+/**
+ * Run `base` as "base", then `next` against it as "next", and read the
+ * migration and rollback the second run wrote
+ */
+async function migrate(
+  { engine, readArtifact }: TestEngine,
+  base: Record<string, unknown>,
+  next: Record<string, unknown>,
+  file = "0002_v1_1_0",
+): Promise<Migration> {
+  await execute(engine, blueprint("base"), { input: base });
+  await execute(engine, blueprint("next"), { input: next });
+  const repo = "artifacts/next/repo/supabase";
+  const up = await readArtifact(`${repo}/migrations/${file}.sql`);
+  const down = await readArtifact(`${repo}/rollbacks/${file}.down.sql`);
+  assert.ok(up !== null && down !== null, `${file} was not written`);
+  const upSections = sections(up);
+  const downSections = sections(down, "-- undo: ");
+  // The rollback undoes every change, last change first
+  assert.deepEqual([...downSections.keys()], [...upSections.keys()].reverse());
+  return { up: upSections, down: downSections };
+}
+
+const baseline = (confirm?: string[]) => ({ baseline: "base", confirm });
+
+test("adding a nullable column needs no confirmation", async () => {
+  await withEngine({}, async (env) => {
+    const notes = { name: "notes", dbType: "text" };
+    const { up, down } = await migrate(
+      env,
+      todos("1.0.0"),
+      todos("1.1.0", [TITLE, notes], baseline()),
+    );
+    const key = "add column todos.notes";
+    assert.deepEqual(up.get(key), [
+      `alter table "todos" add column if not exists "notes" text;`,
+    ]);
+    assert.deepEqual(down.get(key), [
+      `alter table "todos" drop column if exists "notes";`,
+    ]);
+  });
+});
+
+test("dropping a column fails until it is confirmed", async () => {
+  await withEngine({}, async (env) => {
+    const notes = { name: "notes", dbType: "text" };
+    const key = "drop column todos.notes";
+    const { up, down } = await migrate(
+      env,
+      todos("1.0.0", [TITLE, notes]),
+      todos("1.1.0", [TITLE], baseline([key])),
+    );
+    await assert.rejects(
+      execute(env.engine, blueprint("unconfirmed"), {
+        input: todos("1.1.0", [TITLE], baseline()),
+      }),
+      /Destructive changes need confirmation; list them in migration.confirm: drop column todos.notes$/,
+    );
+    assert.deepEqual(up.get(key), [
+      `alter table "todos" drop column if exists "notes";`,
+    ]);
+    assert.deepEqual(down.get(key), [
+      `alter table "todos" add column if not exists "notes" text;`,
+    ]);
+  });
+});
+
+test("renamedFrom renames a column instead of dropping it", async () => {
+  await withEngine({}, async (env) => {
+    const { up, down } = await migrate(
+      env,
+      todos("1.0.0", [TITLE, { name: "notes", dbType: "text", unique: true }]),
+      todos(
+        "1.1.0",
+        [
+          TITLE,
+          { name: "body", dbType: "text", unique: true, renamedFrom: "notes" },
+        ],
+        baseline(),
+      ),
+    );
+    assert.deepEqual([...up.keys()], ["rename column todos.notes to body"]);
+    const key = "rename column todos.notes to body";
+    assert.deepEqual(up.get(key), [
+      `alter table "todos" rename column "notes" to "body";`,
+      `alter table "todos" rename constraint "todos_notes_key" to "todos_body_key";`,
+    ]);
+    assert.deepEqual(down.get(key), [
+      `alter table "todos" rename column "body" to "notes";`,
+      `alter table "todos" rename constraint "todos_body_key" to "todos_notes_key";`,
+    ]);
+  });
+});
+
+test("changing a column's type is destructive", async () => {
+  await withEngine({}, async (env) => {
+    const key = "alter column todos.rank type";
+    const rank = (dbType: string) => [TITLE, { name: "rank", dbType }];
+    const { up, down } = await migrate(
+      env,
+      todos("1.0.0", rank("text")),
+      todos("1.1.0", rank("int"), baseline([key])),
+    );
+    await assert.rejects(
+      execute(env.engine, blueprint("unconfirmed"), {
+        input: todos("1.1.0", rank("int"), baseline()),
+      }),
+      /migration.confirm: alter column todos.rank type$/,
+    );
+    assert.deepEqual(up.get(key), [
+      `alter table "todos" alter column "rank" type integer using "rank"::integer;`,
+    ]);
+    assert.deepEqual(down.get(key), [
+      `alter table "todos" alter column "rank" type text using "rank"::text;`,
+    ]);
+  });
+});
+
+test("NOT NULL without a default to fill existing rows needs confirmation", async () => {
+  await withEngine({}, async (env) => {
+    const notes = { name: "notes", dbType: "text" };
+    const next = [
+      TITLE,
+      { ...notes, required: true },
+      { name: "due", dbType: "date", required: true },
+    ];
+    const { up, down } = await migrate(
+      env,
+      todos("1.0.0", [TITLE, notes]),
+      todos(
+        "1.1.0",
+        next,
+        baseline(["alter column todos.notes not null", "add column todos.due"]),
+      ),
+    );
+    await assert.rejects(
+      execute(env.engine, blueprint("unconfirmed"), {
+        input: todos("1.1.0", next, baseline()),
+      }),
+      /migration.confirm: alter column todos.notes not null; add column todos.due$/,
+    );
+    assert.deepEqual(up.get("alter column todos.notes not null"), [
+      `alter table "todos" alter column "notes" set not null;`,
+    ]);
+    assert.deepEqual(down.get("alter column todos.notes not null"), [
+      `alter table "todos" alter column "notes" drop not null;`,
+    ]);
+    assert.deepEqual(up.get("add column todos.due"), [
+      `alter table "todos" add column if not exists "due" date not null;`,
+    ]);
+  });
+});
+
+test("NOT NULL with a default backfills existing rows", async () => {
+  await withEngine({}, async (env) => {
+    const { up, down } = await migrate(
+      env,
+      todos("1.0.0", [TITLE, { name: "rank", dbType: "int" }]),
+      todos(
+        "1.1.0",
+        [
+          TITLE,
+          { name: "rank", dbType: "int", required: true, default: 0 },
+          { name: "prio", dbType: "int", required: true, default: 1 },
+        ],
+        baseline(),
+      ),
+    );
+    assert.deepEqual(up.get("alter column todos.rank not null"), [
+      `update "todos" set "rank" = 0 where "rank" is null;`,
+      `alter table "todos" alter column "rank" set not null;`,
+    ]);
+    assert.deepEqual(down.get("alter column todos.rank not null"), [
+      `alter table "todos" alter column "rank" drop not null;`,
+    ]);
+    assert.deepEqual(up.get("alter column todos.rank default"), [
+      `alter table "todos" alter column "rank" set default 0;`,
+    ]);
+    assert.deepEqual(down.get("alter column todos.rank default"), [
+      `alter table "todos" alter column "rank" drop default;`,
+    ]);
+    assert.deepEqual(up.get("add column todos.prio"), [
+      `alter table "todos" add column if not exists "prio" integer not null default 1;`,
+    ]);
+  });
+});
+
+test("migrations are numbered after the baseline's and carried forward", async () => {
+  await withEngine({}, async ({ engine, readArtifact }) => {
+    const notes = { name: "notes", dbType: "text" };
+    const done = { name: "done", dbType: "boolean" };
+    await execute(engine, blueprint("v1"), { input: todos("1.0.0") });
+    await execute(engine, blueprint("v2"), {
+      input: todos("1.1.0", [TITLE, notes], { baseline: "v1" }),
+    });
+    await execute(engine, blueprint("v3"), {
+      input: todos("1.2.0", [TITLE, notes, done], { baseline: "v2" }),
+    });
+    // Unchanged: no new migration
+    await execute(engine, blueprint("v4"), {
+      input: todos("1.3.0", [TITLE, notes, done], { baseline: "v3" }),
+    });
+
+    const supabase = "artifacts/v4/repo/supabase";
+    for (const file of ["0001_init", "0002_v1_1_0", "0003_v1_2_0"]) {
+      assert.notEqual(
+        await readArtifact(`${supabase}/migrations/${file}.sql`),
+        null,
+        `${file}.sql missing`,
+      );
+    }
+    for (const file of ["0002_v1_1_0", "0003_v1_2_0"]) {
+      assert.notEqual(
+        await readArtifact(`${supabase}/rollbacks/${file}.down.sql`),
+        null,
+        `${file}.down.sql missing`,
+      );
+    }
+    assert.equal(
+      await readArtifact(`${supabase}/migrations/0004_v1_3_0.sql`),
+      null,
+    );
+    assert.match(
+      (await readArtifact(`${supabase}/migrations/0003_v1_2_0.sql`)) ?? "",
+      /add column if not exists "done" boolean;/,
+    );
+  });
+});
+
+test("a baseline must be one of the user's own runs", async () => {
+  await withEngine({}, async ({ engine }) => {
+    const owner = "owner" as UserId;
+    const base = await execute(engine, blueprint("base-run"), {
+      input: todos("1.0.0"),
+      userId: owner,
+    });
+    assert.equal(base.status, "complete");
+
+    const next = todos("1.1.0", [TITLE], { baseline: "base-run" });
+    // Reads the same as a run that does not exist
+    await assert.rejects(
+      execute(engine, blueprint("other-user-run"), {
+        input: next,
+        userId: "stranger" as UserId,
+      }),
+      /Baseline run base-run not found/,
+    );
+
+    const own = await execute(engine, blueprint("own-run"), {
+      input: next,
+      userId: owner,
+    });
+    assert.equal(own.status, "complete");
+  });
+});
@@ -1,5 +1,11 @@
 // path: nodes/db.schema.ts
 import { z } from "zod";
+import {
+  defineMapNode,
+  FilesOutput,
+  ValidationError,
+  type ExecutionContext,
+} from "../engine/nodeSdk";
 
 /**
  * NODE: db.schema
@@ -9,60 +15,91 @@ import { z } from "zod";
  *  - Generate an initial SQL migration from a canonical profile (entities → tables).
  *  - Enable pgcrypto (for gen_random_uuid) and pgvector (for embeddings).
  *  - If no entities are provided, still emit a valid migration (extensions only).
+ *  - With `profile.migration.baseline`, diff the profile against that run's
+ *    profile.json and emit the next numbered forward migration instead. The
+ *    baseline must be one of the same user's runs.
  *
  * Inputs (optional):
- *  - { profile?: { id: string; version?: string; entities?: Array<{ name, table, fields, vectorSearch? }> } }
+ *  - { profile?: { id: string; version?: string; entities?: Array<{ name, table, fields, vectorSearch? }>; migration? } }
  *    If absent, defaults to an empty profile and writes a minimal migration.
  *
  * Outputs:
  *  - artifacts/${orc}/repo/supabase/migrations/0001_init.sql
+ *  - artifacts/${orc}/repo/supabase/rollbacks/0001_init.down.sql
+ *  - With a baseline: the baseline's migrations and rollbacks, plus
+ *    NNNN_v<version>.sql and NNNN_v<version>.down.sql when anything changed
  *
  * Notes:
+ *  - Map node: one child per entity (`db.schema[<name>]`) renders that table's
+ *    SQL; the fan-in assembles the migration in entity order and appends the
+ *    relations (foreign key columns, join tables), which need every table.
+ *  - Enums are text columns with a check on the allowed values, so changing
+ *    the values never requires altering a type.
+ *  - Entities and fields are matched to the baseline by name; `renamedFrom`
+ *    turns a drop and add into a rename. Dropping a table or column, changing a
+ *    column's type, or making a column NOT NULL without a default to fill
+ *    existing rows is destructive: the node fails until the change's key is
+ *    listed in `migration.confirm`. With a default, rows holding NULL are
+ *    backfilled before `set not null`.
+ *  - Rollbacks live outside supabase/migrations so `supabase db push` never
+ *    applies them. They also mark which migrations db.schema owns.
  *  - RLS policies are emitted by a later node (sa.rls).
  *  - Keep the SQL deterministic. No timestamps inside file content.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
-
 // Minimal local Profile schema (kept in sync with profile.normalize outputs)
 const FieldSchema = z.object({
   name: z.string().min(1),
   dbType: z
-    .enum(["text", "int", "uuid", "json", "timestamp", "vector"])
+    .enum([
+      "text",
+      "int",
+      "numeric",
+      "boolean",
+      "date",
+      "timestamp",
+      "uuid",
+      "json",
+      "enum",
+      "text[]",
+      "vector",
+    ])
     .default("text"),
   required: z.boolean().default(false),
   pk: z.boolean().optional(),
   fk: z.string().optional(), // "other_table.other_col"
+  unique: z.boolean().default(false),
+  enumValues: z.array(z.string()).optional(),
+  precision: z.number().int().optional(),
+  scale: z.number().int().optional(),
+  default: z
+    .union([z.string(), z.number(), z.boolean(), z.array(z.string())])
+    .optional(),
+  check: z.string().optional(),
+  renamedFrom: z.string().optional(),
 });
+const RelationSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("one-to-many"),
+    target: z.string().min(1),
+    foreignKey: z.string().min(1),
+    onDelete: z.enum(["cascade", "set null", "restrict"]).default("cascade"),
+  }),
+  z.object({
+    kind: z.literal("many-to-many"),
+    target: z.string().min(1),
+    through: z.string().min(1),
+  }),
+]);
 const EntitySchema = z.object({
   name: z.string().min(1),
   table: z.string().min(1),
   fields: z.array(FieldSchema).default([]),
   vectorSearch: z.boolean().default(false),
+  relations: z.array(RelationSchema).default([]),
+  uniqueTogether: z.array(z.array(z.string())).default([]),
+  checks: z.array(z.string()).default([]),
+  renamedFrom: z.string().optional(),
 });
 const ProfileSchema = z.object({
   id: z.string().min(1).default("app"),
@@ -71,36 +108,126 @@ const ProfileSchema = z.object({
     .regex(/^\d+\.\d+\.\d+$/)
     .default("1.0.0"),
   entities: z.array(EntitySchema).default([]),
+  migration: z
+    .object({
+      baseline: z.string().regex(/^[A-Za-z0-9_-]+$/),
+      confirm: z.array(z.string()).default([]),
+    })
+    .optional(),
 });
-type Profile = z.infer<typeof ProfileSchema>;
+type Entity = z.infer<typeof EntitySchema>;
 
 const InputSchema = z.object({ profile: ProfileSchema.optional() });
 
+const EntitySqlOutput = z.object({ sql: z.string() });
+
+const OutputSchema = FilesOutput.extend({
+  // Set when a baseline run was diffed and something changed
+  migration: z
+    .object({
+      file: z.string(),
+      rollback: z.string(),
+      changes: z.array(z.string()),
+    })
+    .optional(),
+});
+
+const MIGRATIONS_DIR = "supabase/migrations";
+const ROLLBACKS_DIR = "supabase/rollbacks";
+const INIT_MIGRATION = "0001_init.sql";
+const rollbackName = (file: string) => file.replace(/\.sql$/, ".down.sql");
+
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 const sqlIdent = (s: string) => s.replace(/[^a-zA-Z0-9_]/g, "_");
+// Join table columns are named after the singular table ("posts" → post_id)
+const singular = (table: string) =>
+  table.endsWith("s") && table.length > 1 ? table.slice(0, -1) : table;
 
-function sqlForField(f: z.infer<typeof FieldSchema>): string {
-  const col = `"${f.name}"`;
+type Field = z.infer<typeof FieldSchema>;
+
+const sqlString = (s: string) => `'${s.replace(/'/g, "''")}'`;
+
+function sqlDefault(f: Field): string | null {
+  const value = f.default;
+  if (value === undefined) return null;
+  if (value === "now" && f.dbType === "timestamp") return "now()";
+  if (value === "now" && f.dbType === "date") return "current_date";
+  if (Array.isArray(value)) {
+    return value.length
+      ? `array[${value.map(sqlString).join(", ")}]::text[]`
+      : `'{}'::text[]`;
+  }
+  if (typeof value === "string") {
+    return f.dbType === "json"
+      ? `${sqlString(value)}::jsonb`
+      : sqlString(value);
+  }
+  return String(value);
+}
+
+// Unique, default and check clauses of a column
+function sqlConstraints(f: Field): string {
+  let out = "";
+  if (f.unique) out += " unique";
+  const def = sqlDefault(f);
+  if (def !== null) out += ` default ${def}`;
+  for (const check of columnChecks(f)) out += ` check (${check})`;
+  return out;
+}
+
+function columnChecks(f: Field): string[] {
+  const checks: string[] = [];
+  if (f.dbType === "enum" && f.enumValues?.length) {
+    checks.push(`"${f.name}" in (${f.enumValues.map(sqlString).join(", ")})`);
+  }
+  if (f.check) checks.push(f.check);
+  return checks;
+}
+
+function sqlForField(f: Field): string {
+  return sqlColumnType(f) + sqlConstraints(f);
+}
+
+// Vector columns stay nullable until their embedding is computed
+const isNotNull = (f: Field) => f.required && f.dbType !== "vector";
+
+function sqlColumnType(f: Field): string {
+  const notNull = isNotNull(f) ? " not null" : "";
+  return `"${f.name}" ${sqlType(f)}${notNull}`;
+}
+
+function sqlType(f: Field): string {
   switch (f.dbType) {
-    case "text":
-      return `${col} text${f.required ? " not null" : ""}`;
     case "int":
-      return `${col} integer${f.required ? " not null" : ""}`;
+      return "integer";
     case "uuid":
-      return `${col} uuid${f.required ? " not null" : ""}`;
+      return "uuid";
     case "json":
-      return `${col} jsonb${f.required ? " not null" : ""}`;
+      return "jsonb";
     case "timestamp":
-      return `${col} timestamptz${f.required ? " not null" : ""}`;
+      return "timestamptz";
+    case "numeric":
+      return f.precision === undefined
+        ? "numeric"
+        : f.scale === undefined
+          ? `numeric(${f.precision})`
+          : `numeric(${f.precision}, ${f.scale})`;
+    case "boolean":
+      return "boolean";
+    case "date":
+      return "date";
+    case "text[]":
+      return "text[]";
     case "vector":
       // 1536 works for many embedding models; adjust later as needed.
-      return `${col} vector(1536)`;
+      return "vector(1536)";
     default:
-      return `${col} text`;
+      // text and enum
+      return "text";
   }
 }
 
-function genMigration(profile: Profile): string {
+function genMigration(entitySql: string[], relationSql: string[]): string {
   const parts: string[] = [];
 
   parts.push(`-- LESiAB MVP initial migration`);
@@ -111,87 +238,799 @@ function genMigration(profile: Profile): string {
   parts.push(`create extension if not exists vector;`);
   parts.push(``);
 
-  if (profile.entities.length === 0) {
+  if (entitySql.length === 0) {
     parts.push(
       `-- No entities defined; tables can be added in subsequent runs.`,
     );
     return parts.join("\n") + "\n";
   }
 
-  for (const ent of profile.entities) {
+  if (relationSql.length > 0) {
+    return (
+      [...parts, ...entitySql, `-- Relations`, ``, ...relationSql].join("\n") +
+      "\n"
+    );
+  }
+  return [...parts, ...entitySql].join("\n") + "\n";
+}
+
+const uniqueTogetherName = (table: string, columns: string[]) =>
+  `${table}_${columns.map(sqlIdent).join("_")}_key`;
+
+function foreignKeySql(table: string, f: Field): string | null {
+  if (!f.fk) return null;
+  const [refTableRaw, refColRaw] = f.fk.split(".");
+  if (!refTableRaw || !refColRaw) return null;
+  const refTable = sqlIdent(refTableRaw);
+  const refCol = sqlIdent(refColRaw);
+  return `alter table "${table}" add constraint "${table}_${f.name}_fkey" foreign key ("${f.name}") references "${refTable}"("${refCol}") on delete set null;`;
+}
+
+function genEntitySql(ent: Entity): string {
+  const parts: string[] = [];
+  const table = sqlIdent(ent.table);
+  const cols: string[] = [];
+  // Default id + timestamps
+  cols.push(`"id" uuid primary key default gen_random_uuid()`);
+  for (const f of ent.fields) {
+    if (f.name === "id") continue; // avoid duplication
+    cols.push(sqlForField(f));
+  }
+  cols.push(`"created_at" timestamptz not null default now()`);
+  cols.push(`"updated_at" timestamptz not null default now()`);
+  for (const columns of ent.uniqueTogether) {
+    cols.push(
+      `constraint "${uniqueTogetherName(table, columns)}" unique (${columns.map((c) => `"${c}"`).join(", ")})`,
+    );
+  }
+  ent.checks.forEach((expr, i) => {
+    cols.push(`constraint "${table}_check_${i + 1}" check (${expr})`);
+  });
+
+  parts.push(`-- Table for entity: ${ent.name}`);
+  parts.push(`create table if not exists "${table}" (`);
+  parts.push(`  ${cols.join(",\n  ")}`);
+  parts.push(`);`);
+  parts.push(``);
+
+  // Foreign keys
+  for (const f of ent.fields) {
+    const fk = foreignKeySql(table, f);
+    if (fk) parts.push(fk);
+  }
+  parts.push(``);
+
+  // Useful indexes
+  parts.push(
+    `create index if not exists "${table}_updated_at_idx" on "${table}" ("updated_at");`,
+  );
+  if (ent.vectorSearch) {
+    // IVF Flat or HNSW indexes can be added later; for MVP, leave without index.
+    parts.push(
+      `-- Vector column present; consider adding IVF/HNSW index post-MVP if needed.`,
+    );
+  }
+  parts.push(``);
+
+  return parts.join("\n");
+}
+
+/** A relation's SQL, keyed so the same relation matches across profiles */
+type RelationSql = {
+  // "<table>.<column>" for a foreign key column, the join table's name otherwise
+  key: string;
+  comment: string;
+  create: string[];
+  drop: string[];
+  // One-to-many only: the column's `references ...` clause
+  foreignKey?: { table: string; column: string; references: string };
+  // Many-to-many only: the join table's two columns
+  joinColumns?: [string, string];
+};
+
+/**
+ * Foreign key columns for one-to-many relations and join tables for
+ * many-to-many ones. A join table declared from both sides is created once.
+ */
+function relationSql(entities: Entity[]): RelationSql[] {
+  const out: RelationSql[] = [];
+  const tableOf = new Map(entities.map((e) => [e.name, sqlIdent(e.table)]));
+  const joinTables = new Set<string>();
+
+  for (const ent of entities) {
     const table = sqlIdent(ent.table);
-    const cols: string[] = [];
-    // Default id + timestamps
-    cols.push(`"id" uuid primary key default gen_random_uuid()`);
-    for (const f of ent.fields) {
-      if (f.name === "id") continue; // avoid duplication
-      cols.push(sqlForField(f));
+    for (const rel of ent.relations) {
+      const target = tableOf.get(rel.target);
+      if (!target) continue;
+
+      if (rel.kind === "one-to-many") {
+        const col = sqlIdent(rel.foreignKey);
+        const references = `references "${table}"("id") on delete ${rel.onDelete}`;
+        out.push({
+          key: `${target}.${col}`,
+          comment: `-- ${ent.name} has many ${rel.target}`,
+          create: [
+            `alter table "${target}" add column if not exists "${col}" uuid ${references};`,
+            `create index if not exists "${target}_${col}_idx" on "${target}" ("${col}");`,
+          ],
+          drop: [`alter table "${target}" drop column if exists "${col}";`],
+          foreignKey: { table: target, column: col, references },
+        });
+        continue;
+      }
+
+      const through = sqlIdent(rel.through);
+      if (joinTables.has(through)) continue;
+      joinTables.add(through);
+      const left = `${singular(table)}_id`;
+      // A self-relation needs two distinct columns
+      const right =
+        target === table ? `related_${left}` : `${singular(target)}_id`;
+      out.push({
+        key: through,
+        comment: `-- ${ent.name} <-> ${rel.target}`,
+        create: [
+          `create table if not exists "${through}" (`,
+          `  "${left}" uuid not null references "${table}"("id") on delete cascade,`,
+          `  "${right}" uuid not null references "${target}"("id") on delete cascade,`,
+          `  "created_at" timestamptz not null default now(),`,
+          `  primary key ("${left}", "${right}")`,
+          `);`,
+          `create index if not exists "${through}_${right}_idx" on "${through}" ("${right}");`,
+        ],
+        drop: [`drop table if exists "${through}";`],
+        joinColumns: [left, right],
+      });
     }
-    cols.push(`"created_at" timestamptz not null default now()`);
-    cols.push(`"updated_at" timestamptz not null default now()`);
-
-    parts.push(`-- Table for entity: ${ent.name}`);
-    parts.push(`create table if not exists "${table}" (`);
-    parts.push(`  ${cols.join(",\n  ")}`);
-    parts.push(`);`);
-    parts.push(``);
-
-    // Foreign keys
-    for (const f of ent.fields) {
-      if (!f.fk) continue;
-      const [refTableRaw, refColRaw] = f.fk.split(".");
-      if (!refTableRaw || !refColRaw) continue;
-      const refTable = sqlIdent(refTableRaw);
-      const refCol = sqlIdent(refColRaw);
-      parts.push(
-        `alter table "${table}" add constraint "${table}_${f.name}_fkey" foreign key ("${f.name}") references "${refTable}"("${refCol}") on delete set null;`,
+  }
+  return out;
+}
+
+function genRelationsSql(entities: Entity[]): string[] {
+  return relationSql(entities).flatMap((r) => [r.comment, ...r.create, ``]);
+}
+
+function genInitRollback(entities: Entity[]): string {
+  const joinTables = relationSql(entities).filter((r) => !r.foreignKey);
+  return (
+    [
+      `-- Reverts ${INIT_MIGRATION}`,
+      ``,
+      ...joinTables.reverse().flatMap((r) => r.drop),
+      ...[...entities]
+        .reverse()
+        .map((e) => `drop table if exists "${sqlIdent(e.table)}" cascade;`),
+    ].join("\n") + "\n"
+  );
+}
+
+// ============= INCREMENTAL MIGRATIONS =============
+
+/** One step of a forward migration and the statements that undo it */
+type Change = {
+  // What confirms a destructive change: "drop column todos.notes"
+  key: string;
+  destructive: boolean;
+  up: string[];
+  down: string[];
+};
+
+// Postgres names a column's inline checks <table>_<column>_check, _check1, …
+const checkSuffix = (i: number) => (i === 0 ? "_check" : `_check${i}`);
+
+// Suffixes (after the table name) of the constraints a column carries
+function columnConstraintSuffixes(f: Field): string[] {
+  return [
+    ...(f.unique ? [`_${f.name}_key`] : []),
+    ...columnChecks(f).map((_, i) => `_${f.name}${checkSuffix(i)}`),
+    ...(foreignKeySql("", f) ? [`_${f.name}_fkey`] : []),
+  ];
+}
+
+const renameConstraint = (table: string, from: string, to: string) =>
+  `alter table "${table}" rename constraint "${from}" to "${to}";`;
+
+/**
+ * Renaming a table keeps its constraint and index names, which every later
+ * diff derives from the table; rename them along with it.
+ */
+function renameTable(prev: Entity, previous: Entity[], to: string): Change {
+  const from = sqlIdent(prev.table);
+  const incoming = previous.flatMap((e) =>
+    e.relations.flatMap((r) =>
+      r.kind === "one-to-many" && r.target === prev.name
+        ? [`_${sqlIdent(r.foreignKey)}`]
+        : [],
+    ),
+  );
+  const constraints = [
+    "_pkey",
+    ...prev.fields
+      .filter((f) => f.name !== "id")
+      .flatMap(columnConstraintSuffixes),
+    ...prev.uniqueTogether.map((cols) => uniqueTogetherName("", cols)),
+    ...prev.checks.map((_, i) => `_check_${i + 1}`),
+    ...incoming.map((col) => `${col}_fkey`),
+  ];
+  const indexes = ["_updated_at_idx", ...incoming.map((col) => `${col}_idx`)];
+  const rename = (a: string, b: string) => [
+    `alter table "${a}" rename to "${b}";`,
+    ...constraints.map((sfx) => renameConstraint(b, a + sfx, b + sfx)),
+    ...indexes.map(
+      (sfx) => `alter index if exists "${a}${sfx}" rename to "${b}${sfx}";`,
+    ),
+  ];
+  return {
+    key: `rename table ${from} to ${to}`,
+    destructive: false,
+    up: rename(from, to),
+    down: rename(to, from),
+  };
+}
+
+function addColumnSql(table: string, f: Field): string[] {
+  const fk = foreignKeySql(table, f);
+  return [
+    `alter table "${table}" add column if not exists ${sqlForField(f)};`,
+    ...(fk ? [fk] : []),
+  ];
+}
+
+const dropColumnSql = (table: string, f: Field) =>
+  `alter table "${table}" drop column if exists "${f.name}";`;
+
+function renameColumn(table: string, old: Field, to: string): Change {
+  const renamed = { ...old, name: to };
+  const fromNames = columnConstraintSuffixes(old).map((sfx) => table + sfx);
+  const toNames = columnConstraintSuffixes(renamed).map((sfx) => table + sfx);
+  const rename = (a: string, b: string, names: [string, string][]) => [
+    `alter table "${table}" rename column "${a}" to "${b}";`,
+    ...names.map(([x, y]) => renameConstraint(table, x, y)),
+  ];
+  const pairs = fromNames.map((n, i): [string, string] => [n, toNames[i]!]);
+  return {
+    key: `rename column ${table}.${old.name} to ${to}`,
+    destructive: false,
+    up: rename(old.name, to, pairs),
+    down: rename(
+      to,
+      old.name,
+      pairs.map(([x, y]) => [y, x]),
+    ),
+  };
+}
+
+/** Changes to a column that keeps its name; `old` carries the new name */
+function alterColumn(table: string, old: Field, f: Field): Change[] {
+  const changes: Change[] = [];
+  const at = `alter table "${table}"`;
+  const col = `"${f.name}"`;
+  const key = `alter column ${table}.${f.name}`;
+
+  if (sqlType(old) !== sqlType(f)) {
+    const retype = (to: Field) =>
+      `${at} alter column ${col} type ${sqlType(to)} using ${col}::${sqlType(to)};`;
+    changes.push({
+      key: `${key} type`,
+      destructive: true,
+      up: [retype(f)],
+      down: [retype(old)],
+    });
+  }
+
+  if (isNotNull(old) !== isNotNull(f)) {
+    const nullability = (to: Field) =>
+      `${at} alter column ${col} ${isNotNull(to) ? "set" : "drop"} not null;`;
+    // Existing NULLs get the new default first; without one they make
+    // `set not null` fail, so it needs confirmation
+    const fill = isNotNull(f) ? sqlDefault(f) : null;
+    changes.push({
+      key: `${key} not null`,
+      destructive: isNotNull(f) && fill === null,
+      up: [
+        ...(fill === null
+          ? []
+          : [`update "${table}" set ${col} = ${fill} where ${col} is null;`]),
+        nullability(f),
+      ],
+      down: [nullability(old)],
+    });
+  }
+
+  if (sqlDefault(old) !== sqlDefault(f)) {
+    const setDefault = (to: Field) => {
+      const value = sqlDefault(to);
+      return `${at} alter column ${col} ${value === null ? "drop default" : `set default ${value}`};`;
+    };
+    changes.push({
+      key: `${key} default`,
+      destructive: false,
+      up: [setDefault(f)],
+      down: [setDefault(old)],
+    });
+  }
+
+  if (old.unique !== f.unique) {
+    const name = `${table}_${f.name}_key`;
+    const add = `${at} add constraint "${name}" unique (${col});`;
+    const drop = `${at} drop constraint if exists "${name}";`;
+    changes.push({
+      key: `${key} unique`,
+      destructive: false,
+      up: [f.unique ? add : drop],
+      down: [f.unique ? drop : add],
+    });
+  }
+
+  const checksOf = (x: Field) => JSON.stringify(columnChecks(x));
+  if (checksOf(old) !== checksOf(f)) {
+    const dropChecks = (x: Field) =>
+      columnChecks(x).map(
+        (_, i) =>
+          `${at} drop constraint if exists "${table}_${f.name}${checkSuffix(i)}";`,
+      );
+    const addChecks = (x: Field) =>
+      columnChecks(x).map(
+        (check, i) =>
+          `${at} add constraint "${table}_${f.name}${checkSuffix(i)}" check (${check});`,
       );
+    changes.push({
+      key: `${key} checks`,
+      destructive: false,
+      up: [...dropChecks(old), ...addChecks(f)],
+      down: [...dropChecks(f), ...addChecks(old)],
+    });
+  }
+
+  if (old.fk !== f.fk) {
+    const repoint = (to: Field) => {
+      const fk = foreignKeySql(table, to);
+      return [
+        `${at} drop constraint if exists "${table}_${f.name}_fkey";`,
+        ...(fk ? [fk] : []),
+      ];
+    };
+    changes.push({
+      key: `${key} references`,
+      destructive: false,
+      up: repoint(f),
+      down: repoint(old),
+    });
+  }
+
+  return changes;
+}
+
+function diffColumns(prev: Entity, next: Entity): Change[] {
+  const table = sqlIdent(next.table);
+  const changes: Change[] = [];
+  const previousFields = new Map(
+    prev.fields.filter((f) => f.name !== "id").map((f) => [f.name, f]),
+  );
+  const nextNames = new Set(next.fields.map((f) => f.name));
+
+  for (const f of next.fields) {
+    if (f.name === "id") continue;
+    let old = previousFields.get(f.name);
+    if (!old && f.renamedFrom && !nextNames.has(f.renamedFrom)) {
+      old = previousFields.get(f.renamedFrom);
+      if (old) changes.push(renameColumn(table, old, f.name));
     }
-    parts.push(``);
+    if (!old) {
+      // Without a default, existing rows cannot satisfy NOT NULL
+      changes.push({
+        key: `add column ${table}.${f.name}`,
+        destructive: isNotNull(f) && sqlDefault(f) === null,
+        up: addColumnSql(table, f),
+        down: [dropColumnSql(table, f)],
+      });
+      continue;
+    }
+    previousFields.delete(old.name);
+    changes.push(...alterColumn(table, { ...old, name: f.name }, f));
+  }
 
-    // Useful indexes
-    parts.push(
-      `create index if not exists "${table}_updated_at_idx" on "${table}" ("updated_at");`,
+  for (const old of previousFields.values()) {
+    changes.push({
+      key: `drop column ${table}.${old.name}`,
+      destructive: true,
+      up: [dropColumnSql(table, old)],
+      down: addColumnSql(table, old),
+    });
+  }
+
+  // Table-level constraints, by name
+  const at = `alter table "${table}"`;
+  const uniques = (e: Entity) =>
+    new Map(
+      e.uniqueTogether.map((cols) => [uniqueTogetherName(table, cols), cols]),
     );
-    if (ent.vectorSearch) {
-      // IVF Flat or HNSW indexes can be added later; for MVP, leave without index.
-      parts.push(
-        `-- Vector column present; consider adding IVF/HNSW index post-MVP if needed.`,
+  const previousUniques = uniques(prev);
+  const nextUniques = uniques(next);
+  const addUnique = (name: string, cols: string[]) =>
+    `${at} add constraint "${name}" unique (${cols.map((c) => `"${c}"`).join(", ")});`;
+  const dropConstraint = (name: string) =>
+    `${at} drop constraint if exists "${name}";`;
+  for (const [name, cols] of nextUniques) {
+    if (previousUniques.has(name)) continue;
+    changes.push({
+      key: `add unique ${name}`,
+      destructive: false,
+      up: [addUnique(name, cols)],
+      down: [dropConstraint(name)],
+    });
+  }
+  for (const [name, cols] of previousUniques) {
+    if (nextUniques.has(name)) continue;
+    changes.push({
+      key: `drop unique ${name}`,
+      destructive: false,
+      up: [dropConstraint(name)],
+      down: [addUnique(name, cols)],
+    });
+  }
+
+  if (JSON.stringify(prev.checks) !== JSON.stringify(next.checks)) {
+    const dropChecks = (e: Entity) =>
+      e.checks.map((_, i) => dropConstraint(`${table}_check_${i + 1}`));
+    const addChecks = (e: Entity) =>
+      e.checks.map(
+        (expr, i) =>
+          `${at} add constraint "${table}_check_${i + 1}" check (${expr});`,
       );
+    changes.push({
+      key: `alter checks ${table}`,
+      destructive: false,
+      up: [...dropChecks(prev), ...addChecks(next)],
+      down: [...dropChecks(next), ...addChecks(prev)],
+    });
+  }
+
+  return changes;
+}
+
+function diffRelations(previous: RelationSql[], next: RelationSql[]): Change[] {
+  const changes: Change[] = [];
+  const previousByKey = new Map(previous.map((r) => [r.key, r]));
+  const nextKeys = new Set(next.map((r) => r.key));
+  const repoint = (fk: NonNullable<RelationSql["foreignKey"]>) => [
+    `alter table "${fk.table}" drop constraint if exists "${fk.table}_${fk.column}_fkey";`,
+    `alter table "${fk.table}" add constraint "${fk.table}_${fk.column}_fkey" foreign key ("${fk.column}") ${fk.references};`,
+  ];
+
+  // Join columns are named after their tables, so they follow table renames
+  const renameJoinColumns = (table: string, from: string[], to: string[]) =>
+    from.flatMap((col, i) =>
+      col === to[i]
+        ? []
+        : [`alter table "${table}" rename column "${col}" to "${to[i]}";`],
+    );
+
+  for (const r of next) {
+    const old = previousByKey.get(r.key);
+    if (!old) {
+      changes.push({
+        key: `${r.foreignKey ? "add column" : "create table"} ${r.key}`,
+        destructive: false,
+        up: r.create,
+        down: r.drop,
+      });
+    } else if (
+      r.foreignKey &&
+      old.foreignKey &&
+      r.foreignKey.references !== old.foreignKey.references
+    ) {
+      changes.push({
+        key: `alter column ${r.key} references`,
+        destructive: false,
+        up: repoint(r.foreignKey),
+        down: repoint(old.foreignKey),
+      });
+    } else if (
+      r.joinColumns &&
+      old.joinColumns &&
+      r.joinColumns.join() !== old.joinColumns.join()
+    ) {
+      changes.push({
+        key: `rename columns ${r.key}`,
+        destructive: false,
+        up: renameJoinColumns(r.key, old.joinColumns, r.joinColumns),
+        down: renameJoinColumns(r.key, r.joinColumns, old.joinColumns),
+      });
     }
-    parts.push(``);
   }
+  for (const old of previous) {
+    if (nextKeys.has(old.key)) continue;
+    changes.push({
+      key: `${old.foreignKey ? "drop column" : "drop table"} ${old.key}`,
+      destructive: true,
+      up: old.drop,
+      down: old.create,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Everything that turns the baseline's schema into the profile's, in
+ * apply order: table renames, new tables, column and constraint changes,
+ * relations, then dropped tables (after the relations that reference them).
+ * Entities and fields match by name, or by `renamedFrom` when the old name
+ * is no longer in use.
+ */
+function diffProfiles(
+  previous: Entity[],
+  next: Entity[],
+  tableSql: (entity: Entity) => string,
+): Change[] {
+  const unmatched = new Map(previous.map((e) => [e.name, e]));
+  const nextNames = new Set(next.map((e) => e.name));
+  const pairs: Array<{ prev: Entity; next: Entity }> = [];
+  const created: Entity[] = [];
+  for (const ent of next) {
+    const prev =
+      unmatched.get(ent.name) ??
+      (ent.renamedFrom && !nextNames.has(ent.renamedFrom)
+        ? unmatched.get(ent.renamedFrom)
+        : undefined);
+    if (!prev) {
+      created.push(ent);
+      continue;
+    }
+    unmatched.delete(prev.name);
+    pairs.push({ prev, next: ent });
+  }
+
+  const changes: Change[] = [];
+  for (const { prev, next: ent } of pairs) {
+    const to = sqlIdent(ent.table);
+    if (sqlIdent(prev.table) !== to) {
+      changes.push(renameTable(prev, previous, to));
+    }
+  }
+  for (const ent of created) {
+    const table = sqlIdent(ent.table);
+    changes.push({
+      key: `create table ${table}`,
+      destructive: false,
+      up: [tableSql(ent).trimEnd()],
+      down: [`drop table if exists "${table}" cascade;`],
+    });
+  }
+  for (const { prev, next: ent } of pairs) {
+    changes.push(...diffColumns(prev, ent));
+  }
+
+  // Compare relations under the new table names, so a rename alone
+  // doesn't read as dropping and re-adding them. Join columns keep the
+  // names the baseline created them with.
+  const renamedTables = new Map(pairs.map((p) => [p.prev, p.next.table]));
+  const original = relationSql(previous);
+  const previousRelations = relationSql(
+    previous.map((e) => ({ ...e, table: renamedTables.get(e) ?? e.table })),
+  ).map((r, i) => ({ ...r, joinColumns: original[i]?.joinColumns }));
+  changes.push(...diffRelations(previousRelations, relationSql(next)));
 
-  return parts.join("\n") + "\n";
+  for (const ent of unmatched.values()) {
+    const table = sqlIdent(ent.table);
+    changes.push({
+      key: `drop table ${table}`,
+      destructive: true,
+      up: [`drop table if exists "${table}" cascade;`],
+      down: [genEntitySql(ent).trimEnd()],
+    });
+  }
+  return changes;
+}
+
+function genIncrementalMigration(
+  file: string,
+  profile: { id: string; version: string },
+  baseline: string,
+  changes: Change[],
+): string {
+  const parts = [
+    `-- LESiAB migration ${file}`,
+    `-- Generated deterministically from profile ${profile.id}@${profile.version}`,
+    `-- Baseline run: ${baseline}`,
+    ``,
+  ];
+  for (const change of changes) {
+    parts.push(
+      `-- ${change.key}${change.destructive ? " (destructive, confirmed)" : ""}`,
+    );
+    parts.push(...change.up, ``);
+  }
+  return parts.join("\n");
+}
+
+function genIncrementalRollback(file: string, changes: Change[]): string {
+  const parts = [`-- Reverts ${file}`, ``];
+  for (const change of [...changes].reverse()) {
+    parts.push(`-- undo: ${change.key}`, ...change.down, ``);
+  }
+  return parts.join("\n");
+}
+
+type Baseline = {
+  entities: Entity[];
+  // Migrations db.schema wrote, oldest first, and which have a rollback
+  migrations: string[];
+  rollbacks: Set<string>;
+  // Highest migration number in the baseline's repo, whichever node wrote it
+  lastNumber: number;
+};
+
+async function loadBaseline(
+  ctx: ExecutionContext,
+  orchestrationId: string,
+): Promise<Baseline> {
+  if (orchestrationId === ctx.orchestrationId) {
+    throw new ValidationError(
+      "A run cannot be its own migration baseline",
+      new z.ZodError([]),
+    );
+  }
+  // Unknown and other users' runs read the same, so neither is revealed
+  if (!(await ctx.findOwnOrchestration(orchestrationId))) {
+    throw new ValidationError(
+      `Baseline run ${orchestrationId} not found`,
+      new z.ZodError([]),
+    );
+  }
+  const raw = await ctx.storage.readArtifact(
+    `artifacts/${orchestrationId}/profile.json`,
+  );
+  if (raw === null) {
+    throw new ValidationError(
+      `Baseline run ${orchestrationId} has no profile.json`,
+      new z.ZodError([]),
+    );
+  }
+  const parsed = ProfileSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    throw new ValidationError(
+      `Baseline run ${orchestrationId} has an invalid profile.json`,
+      parsed.error,
+    );
+  }
+
+  const repo = `artifacts/${orchestrationId}/repo`;
+  const fileNames = async (dir: string) =>
+    (await ctx.storage.listArtifacts(`${repo}/${dir}`)).map((p) =>
+      p.slice(p.lastIndexOf("/") + 1),
+    );
+  const migrations = await fileNames(MIGRATIONS_DIR);
+  const rollbacks = new Set(await fileNames(ROLLBACKS_DIR));
+  if (!migrations.includes(INIT_MIGRATION)) {
+    throw new ValidationError(
+      `Baseline run ${orchestrationId} has no ${INIT_MIGRATION} to build on`,
+      new z.ZodError([]),
+    );
+  }
+  const numbers = migrations.map((f) => Number(/^(\d+)_/.exec(f)?.[1] ?? 0));
+  return {
+    entities: parsed.data.entities,
+    // The init migration predates rollbacks in older runs
+    migrations: migrations
+      .filter((f) => f === INIT_MIGRATION || rollbacks.has(rollbackName(f)))
+      .sort(),
+    rollbacks,
+    lastNumber: Math.max(0, ...numbers),
+  };
 }
 
-export const DbSchemaNode: NodeSpec<
-  { profile?: Profile } | unknown,
-  { files: string[] }
-> = {
+export const DbSchemaNode = defineMapNode({
   id: "db.schema",
   phase: "execute",
-  estimate: () => ({ tokens: 800, usd: 0.003 }),
-  async run(input, ctx) {
-    const parsed = InputSchema.safeParse(input);
-    const profile = ProfileSchema.parse(
-      parsed.success ? (parsed.data.profile ?? {}) : {},
-    );
+  input: InputSchema,
+  output: OutputSchema,
+  // 2: rollbacks and incremental migrations
+  version: "2",
+  estimate: () => ({ tokens: 800, usd: 1 }),
+  items: (input) =>
+    (input.profile?.entities ?? []).map((entity) => ({
+      key: entity.name,
+      item: entity,
+    })),
+  each: {
+    output: EntitySqlOutput,
+    run: async (entity) => ({ sql: genEntitySql(entity) }),
+  },
+  async run({ input, results }, ctx) {
+    const entities = input.profile?.entities ?? [];
     const root = `artifacts/${ctx.orchestrationId}/repo`;
+    const migration = input.profile?.migration;
+
+    if (!migration) {
+      const entitySql = Object.values(results).map((r) => r.sql);
+      const relationSql = genRelationsSql(entities);
+      const path = `${root}/${MIGRATIONS_DIR}/${INIT_MIGRATION}`;
+      const rollbackPath = `${root}/${ROLLBACKS_DIR}/${rollbackName(INIT_MIGRATION)}`;
+
+      await ctx.storage.saveArtifact(
+        path,
+        lf(genMigration(entitySql, relationSql)),
+      );
+      await ctx.storage.saveArtifact(rollbackPath, genInitRollback(entities));
+      ctx.logger.info("db.schema:written", {
+        file: path,
+        entities: entitySql.length,
+      });
 
-    const migration = lf(genMigration(profile));
-    const path = `${root}/supabase/migrations/0001_init.sql`;
+      return { files: [path, rollbackPath] };
+    }
 
-    await ctx.storage.saveArtifact(path, migration);
-    ctx.logger.info({
-      msg: "db.schema:written",
+    const baseline = await loadBaseline(ctx, migration.baseline);
+    const changes = diffProfiles(
+      baseline.entities,
+      entities,
+      (entity) => results[entity.name]?.sql ?? genEntitySql(entity),
+    );
+    const unconfirmed = changes
+      .filter((c) => c.destructive && !migration.confirm.includes(c.key))
+      .map((c) => c.key);
+    if (unconfirmed.length > 0) {
+      throw new ValidationError(
+        `Destructive changes need confirmation; list them in migration.confirm: ${unconfirmed.join("; ")}`,
+        new z.ZodError([]),
+      );
+    }
+
+    // The baseline's migrations come along, so the repo keeps its history
+    const baseRepo = `artifacts/${migration.baseline}/repo`;
+    const files: string[] = [];
+    for (const file of baseline.migrations) {
+      const copies = [`${MIGRATIONS_DIR}/${file}`];
+      if (baseline.rollbacks.has(rollbackName(file))) {
+        copies.push(`${ROLLBACKS_DIR}/${rollbackName(file)}`);
+      }
+      for (const rel of copies) {
+        files.push(
+          await ctx.storage.copyArtifact(
+            `${baseRepo}/${rel}`,
+            `${root}/${rel}`,
+          ),
+        );
+      }
+    }
+
+    if (changes.length === 0) {
+      ctx.logger.info("db.schema:unchanged", {
+        baseline: migration.baseline,
+        migrations: baseline.migrations.length,
+      });
+      return { files };
+    }
+
+    const profile = input.profile!;
+    const file = `${String(baseline.lastNumber + 1).padStart(4, "0")}_v${profile.version.replace(/\./g, "_")}.sql`;
+    const path = `${root}/${MIGRATIONS_DIR}/${file}`;
+    const rollbackPath = `${root}/${ROLLBACKS_DIR}/${rollbackName(file)}`;
+    await ctx.storage.saveArtifact(
+      path,
+      lf(genIncrementalMigration(file, profile, migration.baseline, changes)),
+    );
+    await ctx.storage.saveArtifact(
+      rollbackPath,
+      lf(genIncrementalRollback(file, changes)),
+    );
+    ctx.logger.info("db.schema:migration", {
       file: path,
-      entities: profile.entities.length,
-      correlationId: ctx.correlationId,
+      baseline: migration.baseline,
+      changes: changes.length,
+      destructive: changes.filter((c) => c.destructive).length,
     });
 
-    return { files: [path] };
+    return {
+      files: [...files, path, rollbackPath],
+      migration: {
+        file: path,
+        rollback: rollbackPath,
+        changes: changes.map((c) => c.key),
+      },
+    };
   },
-};
+});
 
 export default DbSchemaNode;
@@ -14,38 +14,16 @@
  *  - This does not mutate vercel.json or supabase config; it's documentation only.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const DeployDocsNode: NodeSpec<unknown, { files: string[] }> = {
+export const DeployDocsNode = defineNode({
   id: "deploy.docs",
   phase: "finalize",
-  estimate: () => ({ tokens: 520, usd: 0.002 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 520, usd: 1 }),
   async run(_input, ctx) {
     const path = `artifacts/${ctx.orchestrationId}/repo/DEPLOY.md`;
 
@@ -153,13 +131,11 @@ supabase functions deploy file-processor
 `);
 
     await ctx.storage.saveArtifact(path, md);
-    ctx.logger.info({
-      msg: "deploy.docs:written",
+    ctx.logger.info("deploy.docs:written", {
       files: [path],
-      correlationId: ctx.correlationId,
     });
     return { files: [path] };
   },
-};
+});
 
 export default DeployDocsNode;
@@ -18,37 +18,16 @@
  *  - Access env via Deno.env.get("KEY").
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const EdgeFunctionsNode: NodeSpec<unknown, { files: string[] }> = {
+export const EdgeFunctionsNode = defineNode({
   id: "edge.functions",
   phase: "execute",
-  estimate: () => ({ tokens: 420, usd: 0.002 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 420, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo/supabase/functions`;
 
@@ -110,14 +89,12 @@ Deno.serve(async (req) => {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
 
-    ctx.logger.info({
-      msg: "edge.functions:written",
+    ctx.logger.info("edge.functions:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
 
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default EdgeFunctionsNode;
@@ -1,5 +1,6 @@
 // path: nodes/env.schema.ts
 import { z } from "zod";
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 /**
  * NODE: env.schema
@@ -14,41 +15,16 @@ import { z } from "zod";
  *  - artifacts/${orc}/repo/.env.example
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
-
 function normalizeLf(s: string) {
   return s.replace(/\r\n/g, "\n");
 }
 
-export const EnvSchemaNode: NodeSpec<unknown, { files: string[] }> = {
+export const EnvSchemaNode = defineNode({
   id: "env.schema",
   phase: "validate",
-  estimate: () => ({ tokens: 250, usd: 0.001 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 250, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo`;
 
@@ -95,12 +71,11 @@ NEXT_PUBLIC_APP_NAME=App
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "env.schema:written",
+    ctx.logger.info("env.schema:written", {
       files: files.map((f) => f.path),
     });
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default EnvSchemaNode;
@@ -10,57 +10,36 @@
  *  - artifacts/${orc}/repo/components/form/TextField.tsx
  *  - artifacts/${orc}/repo/components/form/TextArea.tsx
  *  - artifacts/${orc}/repo/components/form/Select.tsx
+ *  - artifacts/${orc}/repo/components/form/DateField.tsx
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const FormsRHFSetupNode: NodeSpec<unknown, { files: string[] }> = {
+export const FormsRHFSetupNode = defineNode({
   id: "forms.rhf.setup",
   phase: "execute",
-  estimate: () => ({ tokens: 320, usd: 0.0015 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 320, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo/components/form`;
 
     const textField = lf(`"use client";
 import * as React from "react";
-import { Controller, type Control } from "react-hook-form";
+import { Controller, type Control, type FieldValues } from "react-hook-form";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 
-type Props<T> = {
-  control: Control<T>;
+type Props<T extends FieldValues> = {
+  control: Control<T, any, any>;
   name: keyof T & string;
   label?: string;
   placeholder?: string;
 };
 
-export function TextField<T>({ control, name, label, placeholder }: Props<T>) {
+export function TextField<T extends FieldValues>({ control, name, label, placeholder }: Props<T>) {
   return (
     <div className="space-y-1">
       {label ? <Label htmlFor={name}>{label}</Label> : null}
@@ -83,18 +62,18 @@ export function TextField<T>({ control, name, label, placeholder }: Props<T>) {
 
     const textArea = lf(`"use client";
 import * as React from "react";
-import { Controller, type Control } from "react-hook-form";
+import { Controller, type Control, type FieldValues } from "react-hook-form";
 import { Label } from "../ui/label";
 
-type Props<T> = {
-  control: Control<T>;
+type Props<T extends FieldValues> = {
+  control: Control<T, any, any>;
   name: keyof T & string;
   label?: string;
   placeholder?: string;
   rows?: number;
 };
 
-export function TextArea<T>({ control, name, label, placeholder, rows = 4 }: Props<T>) {
+export function TextArea<T extends FieldValues>({ control, name, label, placeholder, rows = 4 }: Props<T>) {
   return (
     <div className="space-y-1">
       {label ? <Label htmlFor={name}>{label}</Label> : null}
@@ -123,19 +102,19 @@ export function TextArea<T>({ control, name, label, placeholder, rows = 4 }: Pro
 
     const select = lf(`"use client";
 import * as React from "react";
-import { Controller, type Control } from "react-hook-form";
+import { Controller, type Control, type FieldValues } from "react-hook-form";
 import { Label } from "../ui/label";
 
 type Option = { value: string; label: string };
 
-type Props<T> = {
-  control: Control<T>;
+type Props<T extends FieldValues> = {
+  control: Control<T, any, any>;
   name: keyof T & string;
   label?: string;
   options: Option[];
 };
 
-export function Select<T>({ control, name, label, options }: Props<T>) {
+export function Select<T extends FieldValues>({ control, name, label, options }: Props<T>) {
   return (
     <div className="space-y-1">
       {label ? <Label htmlFor={name}>{label}</Label> : null}
@@ -164,22 +143,62 @@ export function Select<T>({ control, name, label, options }: Props<T>) {
     </div>
   );
 }
+`);
+
+    // Native date picker; values stay strings ("2024-05-01", "2024-05-01T09:30")
+    const dateField = lf(`"use client";
+import * as React from "react";
+import { Controller, type Control, type FieldValues } from "react-hook-form";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+
+type Props<T extends FieldValues> = {
+  control: Control<T, any, any>;
+  name: keyof T & string;
+  label?: string;
+  withTime?: boolean;
+};
+
+export function DateField<T extends FieldValues>({ control, name, label, withTime = false }: Props<T>) {
+  return (
+    <div className="space-y-1">
+      {label ? <Label htmlFor={name}>{label}</Label> : null}
+      <Controller
+        control={control}
+        name={name as any}
+        render={({ field, fieldState }) => (
+          <>
+            <Input
+              id={name}
+              type={withTime ? "datetime-local" : "date"}
+              {...field}
+              value={field.value ?? ""}
+            />
+            {fieldState.error ? (
+              <p className="text-xs text-red-600">{String(fieldState.error.message ?? "Invalid")}</p>
+            ) : null}
+          </>
+        )}
+      />
+    </div>
+  );
+}
 `);
 
     const files = [
       { path: `${root}/TextField.tsx`, content: textField },
       { path: `${root}/TextArea.tsx`, content: textArea },
       { path: `${root}/Select.tsx`, content: select },
+      { path: `${root}/DateField.tsx`, content: dateField },
     ];
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "forms.rhf.setup:written",
+    ctx.logger.info("forms.rhf.setup:written", {
       files: files.map((f) => f.path),
     });
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default FormsRHFSetupNode;
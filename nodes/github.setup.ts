@@ -18,38 +18,16 @@
  *  - CI avoids `next build` to keep bootstrap friction low.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const GithubSetupNode: NodeSpec<unknown, { files: string[] }> = {
+export const GithubSetupNode = defineNode({
   id: "github.setup",
   phase: "finalize",
-  estimate: () => ({ tokens: 600, usd: 0.0025 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 600, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo`;
 
@@ -222,14 +200,12 @@ Attach before/after if UI changes apply.
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "github.setup:written",
+    ctx.logger.info("github.setup:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
 
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default GithubSetupNode;
@@ -16,38 +16,16 @@
  *  - Consumer can import <AppAnalytics/> in app/layout.tsx (near <Providers/>).
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const MonitoringBasicsNode: NodeSpec<unknown, { files: string[] }> = {
+export const MonitoringBasicsNode = defineNode({
   id: "monitoring.basics",
   phase: "integrate",
-  estimate: () => ({ tokens: 220, usd: 0.001 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 220, usd: 1 }),
   async run(_input, ctx) {
     const base = `artifacts/${ctx.orchestrationId}/repo`;
 
@@ -113,14 +91,12 @@ export default function RootLayout({ children }: { children: React.ReactNode })
       await ctx.storage.saveArtifact(f.path, f.content);
     }
 
-    ctx.logger.info({
-      msg: "monitoring.basics:written",
+    ctx.logger.info("monitoring.basics:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
 
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default MonitoringBasicsNode;
@@ -12,37 +12,16 @@
  *  - artifacts/${orc}/repo/app/(protected)/home/page.tsx
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const NextAppRouterNode: NodeSpec<unknown, { files: string[] }> = {
+export const NextAppRouterNode = defineNode({
   id: "next.app.router",
   phase: "execute",
-  estimate: () => ({ tokens: 280, usd: 0.001 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 280, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo/app`;
 
@@ -91,13 +70,11 @@ export default function HomePage() {
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "next.app.router:written",
+    ctx.logger.info("next.app.router:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default NextAppRouterNode;
@@ -0,0 +1,33 @@
+// path: nodes/profile.normalize.test.ts
+/**
+ * profile.normalize tests: what the node keeps from a run's input.
+ */
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { inputMigration } from "./profile.normalize";
+
+const profile = {
+  id: "todo",
+  entities: [],
+  migration: { baseline: "orc_earlier", confirm: ["drop column todos.notes"] },
+};
+
+test("inputMigration reads profiles given as objects", () => {
+  assert.deepEqual(inputMigration(profile), profile.migration);
+});
+
+test("inputMigration reads JSON profiles given as strings", () => {
+  assert.deepEqual(inputMigration(JSON.stringify(profile)), profile.migration);
+  assert.equal(
+    inputMigration(`  ${JSON.stringify(profile)}\n`)?.baseline,
+    "orc_earlier",
+  );
+});
+
+test("inputMigration finds nothing in free text", () => {
+  assert.equal(inputMigration("A todo app with a baseline"), undefined);
+  assert.equal(
+    inputMigration({ description: JSON.stringify(profile) }),
+    undefined,
+  );
+});
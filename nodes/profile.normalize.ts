@@ -1,5 +1,8 @@
 // path: nodes/profile.normalize.ts
+import { createHash } from "crypto";
 import { z } from "zod";
+import { defineNode, type ExecutionContext } from "../engine/nodeSdk";
+import type { LlmGateway } from "../lib/ai/gateway";
 
 /**
  * NODE: profile.normalize
@@ -7,54 +10,113 @@ import { z } from "zod";
  *
  * Purpose:
  *  - Accept free-text or partial JSON describing an app.
+ *  - Infer entities, fields and relations from free text with an LLM when one
+ *    is configured (see createProfileNormalizeNode), recording the model's
+ *    rationale as `profile.rationale.md`.
  *  - Produce a canonical, validated `profile.json` artifact that all generators can consume.
  *  - Be deterministic and idempotent: same input → same output.
  *
  * Contract expectations from the OrchestrationEngine:
+ *  - Input is parsed with ProfileInputSchema (canonicalized to a description
+ *    or a loose profile) and the output validated with OutputSchema.
  *  - ctx.storage.saveArtifact(path, content) persists artifacts in a content-addressable store.
  *  - ctx.logger.{info,warn,error} for structured logs.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
-
 /** ─────────────────────────────────────────────────────────────────────────────
  * Canonical profile schema (single source of truth)
  * ────────────────────────────────────────────────────────────────────────────*/
 
-const FieldSchema = z.object({
-  name: z.string().min(1),
-  dbType: z
-    .enum(["text", "int", "uuid", "json", "timestamp", "vector"])
-    .default("text"),
-  required: z.boolean().default(false),
-  pk: z.boolean().optional(),
-  fk: z.string().optional(), // "auth.users.id" or "table.column"
-});
+export const DB_TYPES = [
+  "text",
+  "int",
+  "numeric", // decimal; optional precision/scale
+  "boolean",
+  "date",
+  "timestamp",
+  "uuid",
+  "json",
+  "enum", // text limited to enumValues
+  "text[]",
+  "vector",
+] as const;
+
+export type DbType = (typeof DB_TYPES)[number];
+
+const DefaultValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.array(z.string()),
+]);
+
+const FieldSchema = z
+  .object({
+    name: z.string().min(1),
+    dbType: z.enum(DB_TYPES).default("text"),
+    required: z.boolean().default(false),
+    pk: z.boolean().optional(),
+    fk: z.string().optional(), // "auth.users.id" or "table.column"
+    unique: z.boolean().default(false),
+    enumValues: z.array(z.string().min(1)).optional(),
+    precision: z.number().int().min(1).max(1000).optional(),
+    scale: z.number().int().min(0).optional(),
+    // Literal value; "now" on date/timestamp fields is the current time
+    default: DefaultValueSchema.optional(),
+    // SQL boolean expression, e.g. "price >= 0"
+    check: z.string().min(1).optional(),
+    // Name in the baseline profile; db.schema renames the column
+    renamedFrom: z.string().min(1).optional(),
+  })
+  .superRefine((f, ctx) => {
+    if (f.dbType === "enum" && !f.enumValues?.length) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["enumValues"],
+        message: "enum fields need at least one allowed value",
+      });
+    }
+    if (f.dbType !== "enum" && f.enumValues) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["enumValues"],
+        message: "enumValues only applies to enum fields",
+      });
+    }
+    if (f.scale !== undefined && (f.precision ?? 0) < f.scale) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["scale"],
+        message: "scale needs a precision at least as large",
+      });
+    }
+    if (f.default !== undefined && !defaultMatchesField(f)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["default"],
+        message: `default does not fit a ${f.dbType} field`,
+      });
+    }
+  });
+
+type Field = z.infer<typeof FieldSchema>;
+
+// One-to-many adds `foreignKey` to the target's table; many-to-many links
+// both tables through a join table. Both names are filled in by
+// normalization, so consumers never derive them.
+const RelationSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("one-to-many"),
+    target: z.string().min(1), // entity name
+    foreignKey: z.string().min(1),
+    onDelete: z.enum(["cascade", "set null", "restrict"]).default("cascade"),
+  }),
+  z.object({
+    kind: z.literal("many-to-many"),
+    target: z.string().min(1), // entity name
+    through: z.string().min(1),
+  }),
+]);
 
 const EntitySchema = z.object({
   name: z.string().min(1),
@@ -63,6 +125,13 @@ const EntitySchema = z.object({
   realtime: z.boolean().default(false),
   storageBuckets: z.array(z.string()).default([]),
   vectorSearch: z.boolean().default(false),
+  relations: z.array(RelationSchema).default([]),
+  // Composite unique constraints, as field names
+  uniqueTogether: z.array(z.array(z.string().min(1)).min(2)).default([]),
+  // Table-level SQL check expressions
+  checks: z.array(z.string().min(1)).default([]),
+  // Entity name in the baseline profile; db.schema renames the table
+  renamedFrom: z.string().min(1).optional(),
 });
 
 const RouteSchema = z.object({
@@ -76,6 +145,16 @@ const LlmSchema = z.object({
   useLangGraph: z.boolean().default(true),
 });
 
+const ORCHESTRATION_ID = /^[A-Za-z0-9_-]+$/;
+
+// How db.schema migrates a database created by an earlier run
+const MigrationSchema = z.object({
+  // Orchestration whose profile.json and migrations this run builds on
+  baseline: z.string().regex(ORCHESTRATION_ID),
+  // Destructive changes to apply anyway, by key ("drop column todos.notes")
+  confirm: z.array(z.string().min(1)).default([]),
+});
+
 export const ProfileSchema = z.object({
   id: z.string().min(1),
   version: z
@@ -85,6 +164,7 @@ export const ProfileSchema = z.object({
   entities: z.array(EntitySchema).default([]),
   routes: z.array(RouteSchema).default([]),
   llm: LlmSchema.default({ providerPreference: "openai", useLangGraph: true }),
+  migration: MigrationSchema.optional(),
 });
 
 export type Profile = z.infer<typeof ProfileSchema>;
@@ -93,12 +173,28 @@ export type Profile = z.infer<typeof ProfileSchema>;
  * Input schema (free text, {description}, or arbitrary record)
  * ────────────────────────────────────────────────────────────────────────────*/
 
-const InputSchema = z.union([
+export const ProfileInputSchema = z.union([
   z.string().min(1),
   z.object({ description: z.string().min(1) }).strict(),
   z.record(z.string(), z.any()),
 ]);
 
+export type ProfileInput = z.infer<typeof ProfileInputSchema>;
+
+const OutputSchema = z.object({
+  artifactPath: z.string(),
+  profile: ProfileSchema,
+  // Set when the profile was inferred from free text by a model
+  inference: z
+    .object({
+      descriptionHash: z.string(),
+      rationalePath: z.string(),
+      provider: z.string(),
+      model: z.string(),
+    })
+    .optional(),
+});
+
 /** ─────────────────────────────────────────────────────────────────────────────
  * Utilities (deterministic)
  * ────────────────────────────────────────────────────────────────────────────*/
@@ -113,11 +209,168 @@ function slugify(input: string): string {
 
 function toSnakePlural(name: string): string {
   // naive snake + plural "s"
-  const snake = name
+  const snake = toSnake(name);
+  return snake.endsWith("s") ? snake : `${snake}s`;
+}
+
+function toSnake(name: string): string {
+  return name
     .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
     .replace(/[\s\-]+/g, "_")
     .toLowerCase();
-  return snake.endsWith("s") ? snake : `${snake}s`;
+}
+
+function defaultMatchesField(f: {
+  dbType: DbType;
+  default?: z.infer<typeof DefaultValueSchema>;
+  enumValues?: string[];
+}): boolean {
+  const value = f.default;
+  switch (f.dbType) {
+    case "int":
+      return Number.isInteger(value);
+    case "numeric":
+      return typeof value === "number";
+    case "boolean":
+      return typeof value === "boolean";
+    case "enum":
+      return typeof value === "string" && !!f.enumValues?.includes(value);
+    case "text[]":
+      return Array.isArray(value);
+    case "vector":
+      return false;
+    default:
+      return typeof value === "string";
+  }
+}
+
+// Loose spellings accepted for dbType
+const DB_TYPE_ALIASES: Record<string, DbType> = {
+  string: "text",
+  varchar: "text",
+  integer: "int",
+  decimal: "numeric",
+  number: "numeric",
+  float: "numeric",
+  bool: "boolean",
+  datetime: "timestamp",
+  timestamptz: "timestamp",
+  jsonb: "json",
+  "string[]": "text[]",
+};
+
+const trimmedString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim().length > 0
+    ? value.trim()
+    : undefined;
+
+// Expressions are pasted into migrations; keep them to a single expression
+const isSafeSqlExpression = (expr: unknown): expr is string =>
+  typeof expr === "string" && expr.trim().length > 0 && !/;|--|\/\*/.test(expr);
+
+function normalizeFieldLoose(f: any): Field {
+  const rawType =
+    typeof f?.dbType === "string" ? f.dbType.trim().toLowerCase() : "";
+  let dbType: DbType = (DB_TYPES as readonly string[]).includes(rawType)
+    ? (rawType as DbType)
+    : (DB_TYPE_ALIASES[rawType] ?? "text");
+  const enumValues: string[] | undefined = Array.isArray(f?.enumValues)
+    ? [
+        ...new Set<string>(
+          f.enumValues
+            .filter((v: any) => typeof v === "string" && v.trim().length > 0)
+            .map((v: string) => v.trim()),
+        ),
+      ]
+    : undefined;
+  if (!rawType && enumValues?.length) dbType = "enum";
+  // An enum without values is plain text
+  if (dbType === "enum" && !enumValues?.length) dbType = "text";
+
+  const field: Field = {
+    name: String(f?.name ?? "").trim() || "field",
+    dbType,
+    required: Boolean(f?.required ?? false),
+    pk: f?.pk === true ? true : undefined,
+    fk: typeof f?.fk === "string" && f.fk.trim().length ? f.fk : undefined,
+    unique: f?.unique === true,
+    enumValues: dbType === "enum" ? enumValues : undefined,
+  };
+  if (dbType === "numeric" && Number.isInteger(f?.precision)) {
+    field.precision = Math.min(1000, Math.max(1, f.precision));
+    if (Number.isInteger(f?.scale) && f.scale >= 0) {
+      field.scale = Math.min(field.precision, f.scale);
+    }
+  }
+  // Defaults of the wrong type are dropped rather than guessed at
+  if (f?.default !== undefined && f.default !== null) {
+    const candidate = { ...field, default: f.default };
+    if (
+      DefaultValueSchema.safeParse(f.default).success &&
+      defaultMatchesField(candidate)
+    ) {
+      field.default = f.default;
+    }
+  }
+  if (isSafeSqlExpression(f?.check)) field.check = f.check.trim();
+  const renamedFrom = trimmedString(f?.renamedFrom);
+  if (renamedFrom && renamedFrom !== field.name) {
+    field.renamedFrom = renamedFrom;
+  }
+  return field;
+}
+
+/**
+ * Resolve loose relations (`{ kind, target }` with target given as an entity
+ * or table name) into canonical ones. Relations to unknown entities are
+ * dropped. Join tables are named after both tables in sorted order, so
+ * declaring a many-to-many relation on both sides yields one table.
+ */
+function normalizeRelationsLoose(
+  relationsLoose: unknown,
+  entity: { name: string; table: string },
+  entities: Array<{ name: string; table: string }>,
+): Profile["entities"][number]["relations"] {
+  if (!Array.isArray(relationsLoose)) return [];
+  const relations: Profile["entities"][number]["relations"] = [];
+  for (const r of relationsLoose) {
+    const target = entities.find(
+      (e) => e.name === r?.target || e.table === r?.target,
+    );
+    if (!target) continue;
+    if (r?.kind === "many-to-many") {
+      const through =
+        typeof r?.through === "string" && r.through.trim().length > 0
+          ? r.through.trim()
+          : [entity.table, target.table].sort().join("_");
+      relations.push({ kind: "many-to-many", target: target.name, through });
+    } else if (r?.kind === "one-to-many") {
+      const foreignKey =
+        typeof r?.foreignKey === "string" && r.foreignKey.trim().length > 0
+          ? r.foreignKey.trim()
+          : `${toSnake(entity.name)}_id`;
+      const onDelete: "cascade" | "set null" | "restrict" =
+        r?.onDelete === "set null" || r?.onDelete === "restrict"
+          ? r.onDelete
+          : "cascade";
+      relations.push({
+        kind: "one-to-many",
+        target: target.name,
+        foreignKey,
+        onDelete,
+      });
+    }
+  }
+  return relations;
+}
+
+function normalizeMigrationLoose(m: any): Profile["migration"] {
+  const baseline = trimmedString(m?.baseline);
+  if (!baseline || !ORCHESTRATION_ID.test(baseline)) return undefined;
+  const confirm: string[] = Array.isArray(m?.confirm)
+    ? m.confirm.map(trimmedString).filter((c: unknown) => c !== undefined)
+    : [];
+  return { baseline, confirm: [...new Set(confirm)] };
 }
 
 function deepClone<T>(obj: T): T {
@@ -142,7 +395,7 @@ function normalizeProfileLoose(loose: any): Profile {
     : [];
   const routesLoose: any[] = Array.isArray(loose?.routes) ? loose.routes : [];
 
-  // Normalize entities
+  // Normalize entities; relations are resolved once all tables are known
   const entities: Profile["entities"] = entitiesLoose.map((e, idx) => {
     const name: string =
       typeof e?.name === "string" && e.name.trim().length > 0
@@ -154,17 +407,9 @@ function normalizeProfileLoose(loose: any): Profile {
         : toSnakePlural(name);
 
     const fieldsArray: any[] = Array.isArray(e?.fields) ? e.fields : [];
-    const fields = fieldsArray.map((f) => ({
-      name: String(f?.name ?? "").trim() || "field",
-      dbType: ["text", "int", "uuid", "json", "timestamp", "vector"].includes(
-        f?.dbType,
-      )
-        ? f.dbType
-        : "text",
-      required: Boolean(f?.required ?? false),
-      pk: f?.pk === true ? true : undefined,
-      fk: typeof f?.fk === "string" && f.fk.trim().length ? f.fk : undefined,
-    }));
+    const fields = fieldsArray.map(normalizeFieldLoose);
+    const fieldNames = new Set(fields.map((f) => f.name));
+    const renamedFrom = trimmedString(e?.renamedFrom);
 
     return {
       name,
@@ -177,8 +422,28 @@ function normalizeProfileLoose(loose: any): Profile {
           )
         : [],
       vectorSearch: Boolean(e?.vectorSearch ?? false),
+      relations: [],
+      uniqueTogether: Array.isArray(e?.uniqueTogether)
+        ? e.uniqueTogether.filter(
+            (cols: any) =>
+              Array.isArray(cols) &&
+              cols.length >= 2 &&
+              cols.every((c: any) => fieldNames.has(c)),
+          )
+        : [],
+      checks: Array.isArray(e?.checks)
+        ? e.checks.filter(isSafeSqlExpression).map((c: string) => c.trim())
+        : [],
+      renamedFrom: renamedFrom === name ? undefined : renamedFrom,
     };
   });
+  entities.forEach((entity, idx) => {
+    entity.relations = normalizeRelationsLoose(
+      entitiesLoose[idx]?.relations,
+      entity,
+      entities,
+    );
+  });
 
   // Normalize routes
   const routes: Profile["routes"] = routesLoose.map((r, idx) => {
@@ -212,6 +477,7 @@ function normalizeProfileLoose(loose: any): Profile {
     entities,
     routes,
     llm,
+    migration: normalizeMigrationLoose(loose?.migration),
   };
 
   return ProfileSchema.parse(candidate);
@@ -235,18 +501,15 @@ function inferProfileFromText(text: string): Profile {
 function reconcileRoutes(
   profile: Profile,
   logger: ExecutionContext["logger"],
-  correlationId: string,
 ): Profile {
   const p = deepClone(profile);
   const entityNames = new Set(p.entities.map((e) => e.name));
   const kept: typeof p.routes = [];
   for (const r of p.routes) {
     if (!entityNames.has(r.entity)) {
-      logger.warn({
-        msg: "route references unknown entity; dropping",
+      logger.warn("route references unknown entity; dropping", {
         route: r.path,
         entity: r.entity,
-        correlationId,
       });
       continue;
     }
@@ -260,85 +523,258 @@ function reconcileRoutes(
  * The node implementation
  * ────────────────────────────────────────────────────────────────────────────*/
 
-export const ProfileNormalizeNode: NodeSpec<
-  unknown,
-  { artifactPath: string; profile: Profile }
-> = {
-  id: "profile.normalize",
-  phase: "processResponses",
-  estimate: () => ({ tokens: 250, usd: 0.001 }),
-  async run(input, ctx) {
-    ctx.logger.info({
-      msg: "profile.normalize:start",
-      correlationId: ctx.correlationId,
-    });
-
-    const parsed = InputSchema.parse(input);
-
-    let loose: any;
-    if (typeof parsed === "string") {
-      // Try JSON parse first for convenience; otherwise treat as free text.
-      const trimmed = parsed.trim();
-      if (
-        (trimmed.startsWith("{") && trimmed.endsWith("}")) ||
-        (trimmed.startsWith("[") && trimmed.endsWith("]"))
-      ) {
+/** What the node works from: a description to infer from, or a loose profile */
+type NormalizeInput =
+  | { kind: "text"; description: string }
+  | { kind: "profile"; loose: Record<string, unknown> };
+
+/**
+ * Same text → same description: line endings, runs of spaces and blank lines
+ * are normalized, so the node cache (keyed on the parsed input) is keyed by
+ * the description itself.
+ */
+function canonicalDescription(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trim().replace(/\s+/g, " "))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const NormalizeInputSchema = ProfileInputSchema.transform(
+  (input): NormalizeInput => {
+    let value: unknown = input;
+    if (typeof input === "string") {
+      // Try JSON first for convenience; otherwise treat as free text
+      const trimmed = input.trim();
+      value = { description: trimmed };
+      if (trimmed.startsWith("{") && trimmed.endsWith("}")) {
         try {
-          loose = JSON.parse(trimmed);
+          value = JSON.parse(trimmed);
         } catch {
-          loose = { description: trimmed };
+          // free text after all
         }
-      } else {
-        loose = { description: trimmed };
       }
-    } else if ("description" in (parsed as any)) {
-      // Free-text description
-      const text = String((parsed as any).description);
-      const inferred = inferProfileFromText(text);
+    }
+    const record =
+      value && typeof value === "object" && !Array.isArray(value)
+        ? (value as Record<string, unknown>)
+        : {};
+    if (typeof record.description === "string") {
+      return {
+        kind: "text",
+        description: canonicalDescription(record.description),
+      };
+    }
+    return { kind: "profile", loose: record };
+  },
+);
+
+/**
+ * The `migration` profile.normalize keeps from a run's input. Strings are
+ * parsed as the node parses them, so a JSON profile sent as text counts;
+ * inferred profiles never carry one.
+ */
+export function inputMigration(input: unknown): Profile["migration"] {
+  const parsed = NormalizeInputSchema.safeParse(input);
+  if (!parsed.success || parsed.data.kind !== "profile") return undefined;
+  return normalizeMigrationLoose(parsed.data.loose.migration);
+}
+
+/** ─────────────────────────────────────────────────────────────────────────────
+ * LLM inference (free text → profile)
+ * ────────────────────────────────────────────────────────────────────────────*/
+
+// Structured-output contract: the canonical profile plus the model's reasons
+const InferenceSchema = z.object({
+  rationale: z.string().min(1),
+  // Migrations are the caller's call, never the model's
+  profile: ProfileSchema.omit({ migration: true }),
+});
+
+const INFERENCE_SYSTEM = [
+  "You design the data model of a Next.js + Supabase app from a description.",
+  "Reply with JSON only: { rationale, profile }.",
+  "`profile` has an `id` slug, `entities` (PascalCase `name`, snake_case plural `table`, `fields`, `relations`) and `routes` (`path`, `entity`, `type`).",
+  `Field dbType is one of: ${DB_TYPES.join(", ")}. Enums list enumValues.`,
+  'Relations are { kind: "one-to-many", target, foreignKey } or { kind: "many-to-many", target, through }.',
+  "Do not add id, created_at or updated_at fields; every table gets them.",
+  "Add owner_id (uuid) to entities that belong to a user.",
+  "`rationale` briefly explains the entities and relations you chose.",
+].join("\n");
+
+const inferencePrompt = (description: string) =>
+  `Describe this app as a profile:\n\n${description}`;
+
+export type ProfileInference = {
+  profile: Profile;
+  rationale: string;
+  provider: string;
+  model: string;
+};
+
+async function inferProfileWithLlm(
+  description: string,
+  llm: LlmGateway,
+  ctx: ExecutionContext,
+): Promise<ProfileInference> {
+  const { data, provider, model } = await llm.generate({
+    schema: InferenceSchema,
+    schemaName: "ProfileInference",
+    system: INFERENCE_SYSTEM,
+    prompt: inferencePrompt(description),
+    maxOutputTokens: 4000,
+    budget: ctx.budget,
+    signal: ctx.signal,
+  });
+  // Through the same normalization as a hand-written profile, so names and
+  // relations come out canonical whatever the model chose
+  const profile = normalizeProfileLoose(data.profile);
+  return { profile, rationale: data.rationale.trim(), provider, model };
+}
+
+function rationaleMarkdown(
+  description: string,
+  descriptionHash: string,
+  inference: ProfileInference,
+): string {
+  return [
+    `# Profile inference`,
+    ``,
+    `- Description hash: ${descriptionHash}`,
+    `- Model: ${inference.provider} ${inference.model}`,
+    ``,
+    `## Rationale`,
+    ``,
+    inference.rationale,
+    ``,
+    `## Description`,
+    ``,
+    description,
+    ``,
+  ].join("\n");
+}
+
+/** ─────────────────────────────────────────────────────────────────────────────
+ * The node implementation
+ * ────────────────────────────────────────────────────────────────────────────*/
+
+export interface ProfileNormalizeOptions {
+  /**
+   * Gateway for inferring profiles from free text. Without one, free text
+   * only names the app (no entities).
+   */
+  llm?: () => LlmGateway | Promise<LlmGateway>;
+}
+
+export function createProfileNormalizeNode(
+  options: ProfileNormalizeOptions = {},
+) {
+  const { llm } = options;
+  return defineNode({
+    id: "profile.normalize",
+    phase: "processResponses",
+    input: NormalizeInputSchema,
+    output: OutputSchema,
+    // Inferred and heuristic profiles differ for the same description, so
+    // they are cached apart
+    version: llm ? "llm-1" : undefined,
+    estimate: () => ({ tokens: 250, usd: 1 }),
+    async run(input, ctx) {
+      ctx.logger.info("profile.normalize:start");
       const artifactPath = `artifacts/${ctx.orchestrationId}/profile.json`;
+
+      if (input.kind === "text" && llm) {
+        const descriptionHash = `sha256:${createHash("sha256")
+          .update(input.description)
+          .digest("hex")}`;
+        const inference = await inferProfileWithLlm(
+          input.description,
+          await llm(),
+          ctx,
+        );
+        const profile = reconcileRoutes(inference.profile, ctx.logger);
+        const rationalePath = `artifacts/${ctx.orchestrationId}/profile.rationale.md`;
+        await ctx.storage.saveArtifact(
+          artifactPath,
+          JSON.stringify(profile, null, 2),
+        );
+        await ctx.storage.saveArtifact(
+          rationalePath,
+          rationaleMarkdown(input.description, descriptionHash, inference),
+        );
+        ctx.logger.info("profile.normalize:inferred", {
+          artifactPath,
+          rationalePath,
+          provider: inference.provider,
+          model: inference.model,
+          entities: profile.entities.length,
+        });
+        return {
+          artifactPath,
+          profile,
+          inference: {
+            descriptionHash,
+            rationalePath,
+            provider: inference.provider,
+            model: inference.model,
+          },
+        };
+      }
+
+      if (input.kind === "text") {
+        // Free-text description without a model
+        const inferred = inferProfileFromText(input.description);
+        await ctx.storage.saveArtifact(
+          artifactPath,
+          JSON.stringify(inferred, null, 2),
+        );
+        ctx.logger.info("profile.normalize:written", {
+          artifactPath,
+        });
+        return { artifactPath, profile: inferred };
+      }
+
+      let profile = normalizeProfileLoose(input.loose);
+
+      // Reconcile routes vs entities (warn & drop any invalid references)
+      profile = reconcileRoutes(profile, ctx.logger);
+
+      // Ensure all entities have tables and fields arrays normalized (already handled, but double-safe)
+      profile = ProfileSchema.parse(profile);
+
       await ctx.storage.saveArtifact(
         artifactPath,
-        JSON.stringify(inferred, null, 2),
+        JSON.stringify(profile, null, 2),
       );
-      ctx.logger.info({
-        msg: "profile.normalize:written",
+      ctx.logger.info("profile.normalize:written", {
         artifactPath,
-        correlationId: ctx.correlationId,
+        entities: profile.entities.length,
+        routes: profile.routes.length,
       });
-      return { artifactPath, profile: inferred };
-    } else {
-      // Already an object (loose profile-like)
-      loose = parsed;
-    }
 
-    let profile: Profile;
-    if (typeof loose === "string") {
-      profile = inferProfileFromText(loose);
-    } else {
-      profile = normalizeProfileLoose(loose);
-    }
+      return { artifactPath, profile };
+    },
+  });
+}
 
-    // Reconcile routes vs entities (warn & drop any invalid references)
-    profile = reconcileRoutes(profile, ctx.logger, ctx.correlationId);
+/** Inference is on when a provider key is set, unless PROFILE_INFERENCE=off */
+export function profileInferenceConfigured(): boolean {
+  if (process.env.PROFILE_INFERENCE === "off") return false;
+  return !!(process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY);
+}
 
-    // Ensure all entities have tables and fields arrays normalized (already handled, but double-safe)
-    profile = ProfileSchema.parse(profile);
+// The providers are imported lazily: they validate the server env on import,
+// which offline runs don't have
+function defaultGateway(): ProfileNormalizeOptions["llm"] {
+  if (!profileInferenceConfigured()) return undefined;
+  return async () => (await import("../lib/ai/llm")).createLlmGateway();
+}
 
-    const artifactPath = `artifacts/${ctx.orchestrationId}/profile.json`;
-    await ctx.storage.saveArtifact(
-      artifactPath,
-      JSON.stringify(profile, null, 2),
-    );
-    ctx.logger.info({
-      msg: "profile.normalize:written",
-      artifactPath,
-      correlationId: ctx.correlationId,
-      entities: profile.entities.length,
-      routes: profile.routes.length,
-    });
-
-    return { artifactPath, profile };
-  },
-};
+export const ProfileNormalizeNode = createProfileNormalizeNode({
+  llm: defaultGateway(),
+});
 
 export default ProfileNormalizeNode;
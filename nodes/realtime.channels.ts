@@ -12,38 +12,16 @@
  *  - artifacts/${orc}/repo/lib/realtime/index.ts   (barrel; will export client later)
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const RealtimeChannelsNode: NodeSpec<unknown, { files: string[] }> = {
+export const RealtimeChannelsNode = defineNode({
   id: "realtime.channels",
   phase: "execute",
-  estimate: () => ({ tokens: 280, usd: 0.001 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 280, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo/lib/realtime`;
 
@@ -81,13 +59,11 @@ export * from "./server";
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "realtime.channels:written",
+    ctx.logger.info("realtime.channels:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default RealtimeChannelsNode;
@@ -13,31 +13,13 @@
  *  - artifacts/${orc}/repo/lib/realtime/index.ts   (updated to export client)
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
+import {
+  defineNode,
+  FilesOutput,
+  NoInput,
+  someEntity,
+} from "../engine/nodeSdk";
 
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
 const CLIENT_TS = lf(`"use client";
@@ -82,23 +64,25 @@ export * from "./server";
 export * from "./client";
 `);
 
-export const RealtimeClientNode: NodeSpec<unknown, { files: string[] }> = {
+export const RealtimeClientNode = defineNode({
   id: "realtime.client",
   phase: "execute",
-  estimate: () => ({ tokens: 380, usd: 0.0015 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 380, usd: 1 }),
+  // Only when an entity is realtime
+  when: (profile) => someEntity(profile, (e) => e.realtime === true),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo/lib/realtime`;
     const clientPath = `${root}/client.ts`;
     const indexPath = `${root}/index.ts`;
     await ctx.storage.saveArtifact(clientPath, CLIENT_TS);
     await ctx.storage.saveArtifact(indexPath, INDEX_TS);
-    ctx.logger.info({
-      msg: "realtime.client:written",
+    ctx.logger.info("realtime.client:written", {
       files: [clientPath, indexPath],
-      correlationId: ctx.correlationId,
     });
     return { files: [clientPath, indexPath] };
   },
-};
+});
 
 export default RealtimeClientNode;
@@ -0,0 +1,76 @@
+// path: nodes/registry.ts
+/**
+ * Registry of every node module, keyed by node id.
+ *
+ * Blueprints reference nodes by id only; `loadBlueprint` resolves those ids
+ * here. To make a new node available, import it and add it to the list below.
+ */
+import { createNodeRegistry } from "../engine/blueprintLoader";
+
+import ProfileNormalizeNode from "./profile.normalize";
+import RepoScaffoldNode from "./repo.scaffold";
+import EnvSchemaNode from "./env.schema";
+import UiShadcnInitNode from "./ui.shadcn.init";
+import ClientStateInstallNode from "./client.state.install";
+import FormsRHFSetupNode from "./forms.rhf.setup";
+import UiDataTableNode from "./ui.datatable";
+import SaInitNode from "./sa.init";
+import DbSchemaNode from "./db.schema";
+import AuthSetupNode from "./auth.setup";
+import StorageBucketsNode from "./storage.buckets";
+import SaRlsNode from "./sa.rls";
+import RealtimeChannelsNode from "./realtime.channels";
+import CronQueueSetupNode from "./cron.queue.setup";
+import EdgeFunctionsNode from "./edge.functions";
+import TrpcServerNode from "./trpc.server";
+import RestPublicNode from "./rest.public";
+import TrpcClientNode from "./trpc.client";
+import TrpcCrudNode from "./trpc.crud";
+import NextAppRouterNode from "./next.app.router";
+import UploadDirectNode from "./upload.direct";
+import AiOpenaiSetupNode from "./ai.openai.setup";
+import AiAnthropicSetupNode from "./ai.anthropic.setup";
+import AiLanggraphFlowNode from "./ai.langgraph.flow";
+import AiEmbedderNode from "./ai.embedder";
+import RealtimeClientNode from "./realtime.client";
+import UiScreensNode from "./ui.screens";
+import VercelConfigNode from "./vercel.config";
+import MonitoringBasicsNode from "./monitoring.basics";
+import GithubSetupNode from "./github.setup";
+import DeployDocsNode from "./deploy.docs";
+
+export const nodeRegistry = createNodeRegistry([
+  ProfileNormalizeNode,
+  RepoScaffoldNode,
+  EnvSchemaNode,
+  UiShadcnInitNode,
+  ClientStateInstallNode,
+  FormsRHFSetupNode,
+  UiDataTableNode,
+  SaInitNode,
+  DbSchemaNode,
+  AuthSetupNode,
+  StorageBucketsNode,
+  SaRlsNode,
+  RealtimeChannelsNode,
+  CronQueueSetupNode,
+  EdgeFunctionsNode,
+  TrpcServerNode,
+  RestPublicNode,
+  TrpcClientNode,
+  TrpcCrudNode,
+  NextAppRouterNode,
+  UploadDirectNode,
+  AiOpenaiSetupNode,
+  AiAnthropicSetupNode,
+  AiLanggraphFlowNode,
+  AiEmbedderNode,
+  RealtimeClientNode,
+  UiScreensNode,
+  VercelConfigNode,
+  MonitoringBasicsNode,
+  GithubSetupNode,
+  DeployDocsNode,
+]);
+
+export default nodeRegistry;
@@ -1,5 +1,6 @@
 // path: nodes/repo.scaffold.ts
 import { z } from "zod";
+import { defineNode } from "../engine/nodeSdk";
 
 /**
  * NODE: repo.scaffold
@@ -12,40 +13,13 @@ import { z } from "zod";
  *
  * Input contract:
  *  - { profile?: { id: string; version?: string } }
- *    If absent or invalid, defaults to { id: "app", version: "1.0.0" }.
+ *    If absent, defaults to { id: "app", version: "1.0.0" }; invalid input fails validation.
  *
  * Engine contract:
  *  - ctx.storage.saveArtifact(path, content) persists artifacts.
  *  - ctx.logger for structured logs.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
-
 // Minimal profile shape (keep local to avoid cross-node import coupling)
 const ProfileSchema = z.object({
   id: z.string().min(1).default("app"),
@@ -60,6 +34,11 @@ const InputSchema = z.object({
   profile: ProfileSchema.optional(),
 });
 
+const OutputSchema = z.object({
+  root: z.string(),
+  files: z.array(z.object({ path: z.string() })),
+});
+
 function json(content: unknown) {
   return JSON.stringify(content, null, 2) + "\n";
 }
@@ -73,23 +52,16 @@ function normalizeLf(s: string) {
   return s.replace(/\r\n/g, "\n");
 }
 
-export const RepoScaffoldNode: NodeSpec<
-  unknown,
-  { root: string; files: Array<{ path: string }> }
-> = {
+export const RepoScaffoldNode = defineNode({
   id: "repo.scaffold",
   phase: "plan",
-  estimate: () => ({ tokens: 500, usd: 0.002 }),
+  input: InputSchema,
+  output: OutputSchema,
+  estimate: () => ({ tokens: 500, usd: 1 }),
   async run(input, ctx) {
-    ctx.logger.info({
-      msg: "repo.scaffold:start",
-      correlationId: ctx.correlationId,
-    });
+    ctx.logger.info("repo.scaffold:start");
 
-    const parsed = InputSchema.safeParse(input);
-    const profile: Profile = ProfileSchema.parse(
-      parsed.success ? parsed.data.profile : {},
-    );
+    const profile: Profile = input.profile ?? ProfileSchema.parse({});
 
     const root = `artifacts/${ctx.orchestrationId}/repo`;
 
@@ -211,15 +183,13 @@ echo "Postinstall: nothing to do yet. (LESiAB scaffold)"
       await ctx.storage.saveArtifact(f.path, f.content);
     }
 
-    ctx.logger.info({
-      msg: "repo.scaffold:written",
+    ctx.logger.info("repo.scaffold:written", {
       count: files.length,
-      correlationId: ctx.correlationId,
       root,
     });
 
     return { root, files: files.map(({ path }) => ({ path })) };
   },
-};
+});
 
 export default RepoScaffoldNode;
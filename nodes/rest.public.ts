@@ -14,38 +14,16 @@
  *  - Uses Next.js App Router route conventions. Revalidates every 60s.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const RestPublicNode: NodeSpec<unknown, { files: string[] }> = {
+export const RestPublicNode = defineNode({
   id: "rest.public",
   phase: "execute",
-  estimate: () => ({ tokens: 180, usd: 0.001 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 180, usd: 1 }),
   async run(_input, ctx) {
     const path = `artifacts/${ctx.orchestrationId}/repo/app/api/public/health/route.ts`;
 
@@ -62,14 +40,12 @@ export async function GET() {
 
     await ctx.storage.saveArtifact(path, route);
 
-    ctx.logger.info({
-      msg: "rest.public:written",
+    ctx.logger.info("rest.public:written", {
       files: [path],
-      correlationId: ctx.correlationId,
     });
 
     return { files: [path] };
   },
-};
+});
 
 export default RestPublicNode;
@@ -18,38 +18,16 @@
  *  - Keeps content generic to avoid leaking environment data into the repo.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const SaInitNode: NodeSpec<unknown, { files: string[] }> = {
+export const SaInitNode = defineNode({
   id: "sa.init",
   phase: "execute",
-  estimate: () => ({ tokens: 240, usd: 0.001 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 240, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo`;
     const cfgPath = `${root}/supabase/config.toml`;
@@ -192,14 +170,12 @@ main().catch((err) => {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
 
-    ctx.logger.info({
-      msg: "sa.init:written",
+    ctx.logger.info("sa.init:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
 
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default SaInitNode;
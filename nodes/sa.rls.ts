@@ -1,5 +1,6 @@
 // path: nodes/sa.rls.ts
 import { z } from "zod";
+import { defineMapNode, FilesOutput } from "../engine/nodeSdk";
 
 /**
  * NODE: sa.rls
@@ -14,141 +15,184 @@ import { z } from "zod";
  *
  * Outputs:
  *  - artifacts/${orc}/repo/supabase/migrations/0003_rls.sql
+ *
+ * Map node: one child per entity (`sa.rls[<name>]`) renders its policies;
+ * the fan-in writes them in entity order, followed by policies for the join
+ * tables of many-to-many relations: a link is visible and writable to the
+ * owner of the row on the declaring side.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
-
 const EntitySchema = z.object({
   name: z.string().min(1),
   table: z.string().min(1),
+  relations: z
+    .array(
+      z.object({
+        kind: z.enum(["one-to-many", "many-to-many"]),
+        target: z.string().min(1),
+        through: z.string().optional(),
+      }),
+    )
+    .default([]),
 });
 const ProfileSchema = z.object({
   entities: z.array(EntitySchema).default([]),
 });
-type Profile = z.infer<typeof ProfileSchema>;
+type Entity = z.infer<typeof EntitySchema>;
 const InputSchema = z.object({ profile: ProfileSchema.optional() });
+const EntitySqlOutput = z.object({ sql: z.string() });
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 const sqlIdent = (s: string) => s.replace(/[^a-zA-Z0-9_]/g, "_");
 
-function genRlsSql(profile: Profile): string {
+function genRlsSql(entitySql: string[], joinSql: string[]): string {
   const out: string[] = [];
   out.push(`-- Enable RLS and add owner-based policies where possible`);
   out.push(`-- Guarded with IF EXISTS checks to be idempotent/safe`);
   out.push(``);
 
-  if (profile.entities.length === 0) {
+  if (entitySql.length === 0) {
     out.push(`-- No entities provided; nothing to enable.`);
     return out.join("\n") + "\n";
   }
 
-  for (const ent of profile.entities) {
-    const table = sqlIdent(ent.table);
-    out.push(`-- RLS for ${ent.name} (${table})`);
-    out.push(`alter table if exists "${table}" enable row level security;`);
-    out.push(``);
-
-    // Policies only if column "owner_id" exists.
-    out.push(`do $$`);
-    out.push(`begin`);
-    out.push(`  if exists (`);
-    out.push(`    select 1 from information_schema.columns`);
-    out.push(
-      `    where table_schema = 'public' and table_name = '${table}' and column_name = 'owner_id'`,
-    );
-    out.push(`  ) then`);
-    out.push(`    if not exists (`);
-    out.push(
-      `      select 1 from pg_policies where schemaname = 'public' and tablename = '${table}' and policyname = '${table}_select_owner'`,
-    );
-    out.push(`    ) then`);
-    out.push(`      create policy "${table}_select_owner" on "${table}"`);
-    out.push(`        for select using (owner_id = auth.uid());`);
-    out.push(`    end if;`);
-    out.push(`    if not exists (`);
-    out.push(
-      `      select 1 from pg_policies where schemaname = 'public' and tablename = '${table}' and policyname = '${table}_insert_owner'`,
-    );
-    out.push(`    ) then`);
-    out.push(`      create policy "${table}_insert_owner" on "${table}"`);
-    out.push(`        for insert with check (owner_id = auth.uid());`);
-    out.push(`    end if;`);
-    out.push(`    if not exists (`);
-    out.push(
-      `      select 1 from pg_policies where schemaname = 'public' and tablename = '${table}' and policyname = '${table}_update_owner'`,
-    );
-    out.push(`    ) then`);
-    out.push(`      create policy "${table}_update_owner" on "${table}"`);
-    out.push(`        for update using (owner_id = auth.uid());`);
-    out.push(`    end if;`);
-    out.push(`    if not exists (`);
-    out.push(
-      `      select 1 from pg_policies where schemaname = 'public' and tablename = '${table}' and policyname = '${table}_delete_owner'`,
-    );
-    out.push(`    ) then`);
-    out.push(`      create policy "${table}_delete_owner" on "${table}"`);
-    out.push(`        for delete using (owner_id = auth.uid());`);
-    out.push(`    end if;`);
-    out.push(`  end if;`);
-    out.push(`end`);
-    out.push(`$$ language plpgsql;`);
-    out.push(``);
+  return [...out, ...entitySql, ...joinSql].join("\n") + "\n";
+}
+
+// Join table columns as db.schema names them ("posts" → post_id)
+const singular = (table: string) =>
+  table.endsWith("s") && table.length > 1 ? table.slice(0, -1) : table;
+
+function genJoinTableRlsSql(entities: Entity[]): string[] {
+  const out: string[] = [];
+  const seen = new Set<string>();
+  for (const ent of entities) {
+    for (const rel of ent.relations) {
+      if (rel.kind !== "many-to-many" || !rel.through) continue;
+      if (!entities.some((e) => e.name === rel.target)) continue;
+      const through = sqlIdent(rel.through);
+      if (seen.has(through)) continue;
+      seen.add(through);
+
+      const table = sqlIdent(ent.table);
+      const col = `${singular(table)}_id`;
+      const owns = `exists (select 1 from "${table}" t where t."id" = "${through}"."${col}" and t.owner_id = auth.uid())`;
+      out.push(
+        `-- RLS for join table ${through} (${ent.name} <-> ${rel.target})`,
+      );
+      out.push(`alter table if exists "${through}" enable row level security;`);
+      out.push(``);
+      out.push(`do $$`);
+      out.push(`begin`);
+      out.push(`  if exists (`);
+      out.push(`    select 1 from information_schema.columns`);
+      out.push(
+        `    where table_schema = 'public' and table_name = '${table}' and column_name = 'owner_id'`,
+      );
+      out.push(`  ) and not exists (`);
+      out.push(
+        `    select 1 from pg_policies where schemaname = 'public' and tablename = '${through}' and policyname = '${through}_owner'`,
+      );
+      out.push(`  ) then`);
+      out.push(`    create policy "${through}_owner" on "${through}"`);
+      out.push(`      for all using (${owns})`);
+      out.push(`      with check (${owns});`);
+      out.push(`  end if;`);
+      out.push(`end`);
+      out.push(`$$ language plpgsql;`);
+      out.push(``);
+    }
   }
+  return out;
+}
+
+function genEntityRlsSql(ent: Entity): string {
+  const out: string[] = [];
+  const table = sqlIdent(ent.table);
+  out.push(`-- RLS for ${ent.name} (${table})`);
+  out.push(`alter table if exists "${table}" enable row level security;`);
+  out.push(``);
 
-  return out.join("\n") + "\n";
+  // Policies only if column "owner_id" exists.
+  out.push(`do $$`);
+  out.push(`begin`);
+  out.push(`  if exists (`);
+  out.push(`    select 1 from information_schema.columns`);
+  out.push(
+    `    where table_schema = 'public' and table_name = '${table}' and column_name = 'owner_id'`,
+  );
+  out.push(`  ) then`);
+  out.push(`    if not exists (`);
+  out.push(
+    `      select 1 from pg_policies where schemaname = 'public' and tablename = '${table}' and policyname = '${table}_select_owner'`,
+  );
+  out.push(`    ) then`);
+  out.push(`      create policy "${table}_select_owner" on "${table}"`);
+  out.push(`        for select using (owner_id = auth.uid());`);
+  out.push(`    end if;`);
+  out.push(`    if not exists (`);
+  out.push(
+    `      select 1 from pg_policies where schemaname = 'public' and tablename = '${table}' and policyname = '${table}_insert_owner'`,
+  );
+  out.push(`    ) then`);
+  out.push(`      create policy "${table}_insert_owner" on "${table}"`);
+  out.push(`        for insert with check (owner_id = auth.uid());`);
+  out.push(`    end if;`);
+  out.push(`    if not exists (`);
+  out.push(
+    `      select 1 from pg_policies where schemaname = 'public' and tablename = '${table}' and policyname = '${table}_update_owner'`,
+  );
+  out.push(`    ) then`);
+  out.push(`      create policy "${table}_update_owner" on "${table}"`);
+  out.push(`        for update using (owner_id = auth.uid());`);
+  out.push(`    end if;`);
+  out.push(`    if not exists (`);
+  out.push(
+    `      select 1 from pg_policies where schemaname = 'public' and tablename = '${table}' and policyname = '${table}_delete_owner'`,
+  );
+  out.push(`    ) then`);
+  out.push(`      create policy "${table}_delete_owner" on "${table}"`);
+  out.push(`        for delete using (owner_id = auth.uid());`);
+  out.push(`    end if;`);
+  out.push(`  end if;`);
+  out.push(`end`);
+  out.push(`$$ language plpgsql;`);
+  out.push(``);
+
+  return out.join("\n");
 }
 
-export const SaRlsNode: NodeSpec<
-  { profile?: Profile } | unknown,
-  { files: string[] }
-> = {
+export const SaRlsNode = defineMapNode({
   id: "sa.rls",
   phase: "execute",
-  estimate: () => ({ tokens: 600, usd: 0.002 }),
-  async run(input, ctx) {
+  input: InputSchema,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 600, usd: 1 }),
+  items: (input) =>
+    (input.profile?.entities ?? []).map((entity) => ({
+      key: entity.name,
+      item: entity,
+    })),
+  each: {
+    output: EntitySqlOutput,
+    run: async (entity) => ({ sql: genEntityRlsSql(entity) }),
+  },
+  async run({ input, results }, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo`;
-    const parsed = InputSchema.safeParse(input);
-    const profile: Profile = parsed.success
-      ? (parsed.data.profile ?? { entities: [] })
-      : { entities: [] };
+    const entitySql = Object.values(results).map((r) => r.sql);
+    const joinSql = genJoinTableRlsSql(input.profile?.entities ?? []);
 
-    const sql = genRlsSql(profile);
+    const sql = genRlsSql(entitySql, joinSql);
     const outPath = `${root}/supabase/migrations/0003_rls.sql`;
     await ctx.storage.saveArtifact(outPath, lf(sql));
 
-    ctx.logger.info({
-      msg: "sa.rls:written",
+    ctx.logger.info("sa.rls:written", {
       file: outPath,
-      entities: profile.entities.length,
-      correlationId: ctx.correlationId,
+      entities: entitySql.length,
     });
 
     return { files: [outPath] };
   },
-};
+});
 
 export default SaRlsNode;
@@ -16,38 +16,16 @@
  *  - Direct uploads use a presigned URL generated by a server-side key (service role).
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const StorageBucketsNode: NodeSpec<unknown, { files: string[] }> = {
+export const StorageBucketsNode = defineNode({
   id: "storage.buckets",
   phase: "execute",
-  estimate: () => ({ tokens: 420, usd: 0.002 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 420, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo`;
 
@@ -142,14 +120,12 @@ export async function createPresignedDownloadUrl(path: string, expiresInSeconds
       await ctx.storage.saveArtifact(f.path, f.content);
     }
 
-    ctx.logger.info({
-      msg: "storage.buckets:written",
+    ctx.logger.info("storage.buckets:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
 
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default StorageBucketsNode;
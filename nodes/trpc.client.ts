@@ -18,38 +18,16 @@
  *    create a second cache layer.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const TrpcClientNode: NodeSpec<unknown, { files: string[] }> = {
+export const TrpcClientNode = defineNode({
   id: "trpc.client",
   phase: "execute",
-  estimate: () => ({ tokens: 520, usd: 0.002 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 520, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo`;
 
@@ -123,13 +101,11 @@ export function TRPCProvider({ children }: { children: React.ReactNode }) {
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "trpc.client:written",
+    ctx.logger.info("trpc.client:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default TrpcClientNode;
@@ -0,0 +1,82 @@
+// path: nodes/trpc.crud.test.ts
+/**
+ * trpc.crud tests: the routers merged into server/trpc/router.ts across runs
+ * that share the node cache.
+ */
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  blueprintOf,
+  execute,
+  ProfileSourceNode,
+  withEngine,
+} from "../engine/testHarness";
+import TrpcCrudNode from "./trpc.crud";
+import TrpcServerNode from "./trpc.server";
+
+const blueprint = (id: string) =>
+  blueprintOf(
+    id,
+    [ProfileSourceNode, TrpcServerNode, TrpcCrudNode],
+    [
+      { from: "profile.source", to: "trpc.crud" },
+      { from: "trpc.server", to: "trpc.crud" },
+    ],
+  );
+
+const profile = (...names: string[]) => ({
+  profile: {
+    entities: names.map((name) => ({
+      name,
+      table: `${name.toLowerCase()}s`,
+      fields: [{ name: "title", dbType: "text", required: true }],
+    })),
+  },
+});
+
+test("router.ts merges only the current run's entities", async () => {
+  await withEngine({}, async ({ engine, readArtifact }) => {
+    const first = await execute(engine, blueprint("crud-one"), {
+      input: profile("Todo", "Note"),
+    });
+    assert.equal(first.status, "complete");
+    const before = await readArtifact(
+      "artifacts/crud-one/repo/server/trpc/router.ts",
+    );
+    assert.match(before ?? "", /note: noteRouter,/);
+
+    // trpc.server's input never changes, so this run takes it from the cache
+    const second = await execute(engine, blueprint("crud-two"), {
+      input: profile("Todo"),
+    });
+    assert.equal(second.status, "complete");
+    const router = await readArtifact(
+      "artifacts/crud-two/repo/server/trpc/router.ts",
+    );
+    assert.match(
+      router ?? "",
+      /import \{ todoRouter \} from "\.\/todo\.router";/,
+    );
+    assert.match(router ?? "", /todo: todoRouter,/);
+    assert.doesNotMatch(router ?? "", /noteRouter/);
+    assert.equal(
+      await readArtifact("artifacts/crud-two/repo/server/trpc/note.router.ts"),
+      null,
+    );
+  });
+});
+
+test("router.ts is the bare template without entities", async () => {
+  await withEngine({}, async ({ engine, readArtifact }) => {
+    await execute(engine, blueprint("crud-full"), { input: profile("Todo") });
+    const result = await execute(engine, blueprint("crud-empty"), {
+      input: profile(),
+    });
+    assert.equal(result.status, "complete");
+    const router = await readArtifact(
+      "artifacts/crud-empty/repo/server/trpc/router.ts",
+    );
+    assert.doesNotMatch(router ?? "", /todoRouter/);
+    assert.match(router ?? "", /\/\/ hygen:routers-merge/);
+  });
+});
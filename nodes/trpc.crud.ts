@@ -0,0 +1,376 @@
+// path: nodes/trpc.crud.ts
+/**
+ * NODE: trpc.crud
+ * Phase: codeGeneration
+ *
+ * Purpose:
+ *  - Generate a CRUD tRPC router per profile entity: list (paginated,
+ *    sortable, filterable), get, create, update and delete.
+ *  - Derive the procedures' zod input schemas from the entity's fields and
+ *    the foreign key columns other entities' one-to-many relations add to
+ *    its table.
+ *  - Merge the routers into server/trpc/router.ts at the Hygen anchors.
+ *
+ * Inputs (optional):
+ *  - { profile?: { entities?: Array<{ name, table, fields?, relations? }> } }
+ *
+ * Outputs:
+ *  - artifacts/${orc}/repo/zod/<Entity>.schema.ts
+ *  - artifacts/${orc}/repo/server/trpc/<entity>.router.ts
+ *  - artifacts/${orc}/repo/server/trpc/router.ts (trpc.server's, with the routers merged)
+ *
+ * Notes:
+ *  - Map node: one child per entity (`trpc.crud[<name>]`) writes its schema
+ *    and router; the fan-in injects them after `// hygen:routers-import` and
+ *    `// hygen:routers-merge`, like `hygen crud new`. It starts from
+ *    trpc.server's template (APP_ROUTER_TS), not the router.ts artifact, so
+ *    the merged routers are exactly this run's entities.
+ *  - Procedures are protectedProcedure, so anonymous calls get UNAUTHORIZED
+ *    and ctx.userId is always set.
+ *  - The tRPC context uses the service role, which bypasses RLS. Entities
+ *    with an `owner_id` field are therefore scoped to ctx.userId in every
+ *    procedure, and create sets it; other tables are shared by signed-in users.
+ *  - Schemas live in zod/ so client forms can validate with them without
+ *    importing server code.
+ */
+
+import { z } from "zod";
+import { defineMapNode, FilesOutput } from "../engine/nodeSdk";
+import { APP_ROUTER_TS } from "./trpc.server";
+
+// Minimal local Profile schema (keep local to avoid cross-node import coupling)
+const FieldSchema = z.object({
+  name: z.string().min(1),
+  dbType: z.string().default("text"),
+  required: z.boolean().default(false),
+  enumValues: z.array(z.string()).optional(),
+  default: z.unknown().optional(),
+});
+const RelationSchema = z.object({
+  kind: z.string(),
+  target: z.string().min(1),
+  foreignKey: z.string().optional(),
+});
+const EntitySchema = z.object({
+  name: z.string().min(1),
+  table: z.string().min(1),
+  fields: z.array(FieldSchema).default([]),
+  relations: z.array(RelationSchema).default([]),
+});
+const ProfileSchema = z.object({
+  entities: z.array(EntitySchema).default([]),
+});
+type Entity = z.infer<typeof EntitySchema>;
+type Field = Entity["fields"][number];
+const InputSchema = z.object({ profile: ProfileSchema.optional() });
+
+const lf = (s: string) => s.replace(/\r\n/g, "\n");
+const pascal = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+// Router key and file name: "BlogPost" → blogPost
+const camel = (s: string) =>
+  s.charAt(0).toLowerCase() + s.slice(1).replace(/[^A-Za-z0-9_$]/g, "_");
+const propKey = (name: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+
+const IMPORT_ANCHOR = "// hygen:routers-import";
+const MERGE_ANCHOR = "// hygen:routers-merge";
+
+// Set by the server from ctx.userId, never by the client
+const OWNER_FIELD = "owner_id";
+
+/**
+ * The foreign key columns db.schema adds to `ent`'s table for one-to-many
+ * relations that target it. They are nullable uuids; a field already
+ * declared under the same name wins.
+ */
+function relationKeys(ent: Entity, entities: Entity[]): Field[] {
+  const names = new Set(ent.fields.map((f) => f.name));
+  const keys: Field[] = [];
+  for (const source of entities) {
+    for (const r of source.relations) {
+      if (r.kind !== "one-to-many" || r.target !== ent.name) continue;
+      if (!r.foreignKey) continue;
+      const name = r.foreignKey.replace(/[^a-zA-Z0-9_]/g, "_");
+      if (names.has(name)) continue;
+      names.add(name);
+      keys.push({ name, dbType: "uuid", required: false });
+    }
+  }
+  return keys;
+}
+
+// Columns a client may write: not the key, owner or computed embeddings
+const writableFields = (ent: Entity) =>
+  ent.fields.filter(
+    (f) => f.name !== "id" && f.name !== OWNER_FIELD && f.dbType !== "vector",
+  );
+
+// Scalar columns, which list can sort and filter on
+const scalarFields = (ent: Entity) =>
+  writableFields(ent).filter((f) => !["json", "text[]"].includes(f.dbType));
+
+// zod source for a column's value
+function zodType(f: Field): string {
+  switch (f.dbType) {
+    case "int":
+      return "z.number().int()";
+    case "numeric":
+      return "z.number()";
+    case "boolean":
+      return "z.boolean()";
+    case "date":
+      return "z.string().date()";
+    case "timestamp":
+      return "z.string().datetime({ offset: true })";
+    case "uuid":
+      return "z.string().uuid()";
+    case "json":
+      return "z.unknown()";
+    case "enum":
+      return `z.enum([${(f.enumValues ?? []).map((v) => JSON.stringify(v)).join(", ")}])`;
+    case "text[]":
+      return "z.array(z.string())";
+    default:
+      return "z.string()";
+  }
+}
+
+// Required columns without a default must be sent (non-empty, for text);
+// others may be omitted or cleared with null
+function zodField(f: Field): string {
+  if (!f.required) return `${zodType(f)}.nullish()`;
+  if (f.default !== undefined) return `${zodType(f)}.optional()`;
+  return f.dbType === "text" ? `${zodType(f)}.min(1)` : zodType(f);
+}
+
+function schemaFile(ent: Entity): string {
+  const name = pascal(ent.name);
+  const fields = writableFields(ent)
+    .map((f) => `  ${propKey(f.name)}: ${zodField(f)},`)
+    .join("\n");
+  const filters = scalarFields(ent)
+    .map((f) => `  ${propKey(f.name)}: ${zodType(f)}.optional(),`)
+    .join("\n");
+  const sortable = new Set([
+    "created_at",
+    "updated_at",
+    ...scalarFields(ent).map((f) => f.name),
+  ]);
+
+  return lf(`// path: zod/${name}.schema.ts
+// Generated from the ${ent.name} entity. Shared by server/trpc/${camel(ent.name)}.router.ts and client forms.
+import { z } from "zod";
+
+export const ${name}Schema = z.object({
+${fields}
+});
+export type ${name}Input = z.infer<typeof ${name}Schema>;
+
+export const ${name}UpdateSchema = ${name}Schema.partial().extend({
+  id: z.string().uuid(),
+});
+
+// Equality filters on scalar columns
+export const ${name}FilterSchema = z.object({
+${filters}
+});
+
+export const ${name}ListInput = z.object({
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(100).default(20),
+  sortBy: z.enum([${[...sortable].map((c) => JSON.stringify(c)).join(", ")}]).default("created_at"),
+  sortDir: z.enum(["asc", "desc"]).default("desc"),
+  filter: ${name}FilterSchema.default({}),
+});
+export type ${name}ListInput = z.infer<typeof ${name}ListInput>;
+`);
+}
+
+function routerFile(ent: Entity): string {
+  const name = pascal(ent.name);
+  const key = camel(ent.name);
+  const table = JSON.stringify(ent.table);
+  const owned = ent.fields.some((f) => f.name === OWNER_FIELD);
+  // Appended to every query so users only see their own rows
+  const scope = owned ? `\n        .eq("${OWNER_FIELD}", ctx.userId)` : "";
+
+  return lf(`// path: server/trpc/${key}.router.ts
+// Generated CRUD router for the ${ent.name} entity (table ${ent.table}).
+${owned ? `// Rows are scoped to their ${OWNER_FIELD}; the service-role client bypasses RLS.` : `// No ${OWNER_FIELD} column: rows are shared by all signed-in users.`}
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "./_trpc";
+import {
+  ${name}ListInput,
+  ${name}Schema,
+  ${name}UpdateSchema,
+} from "../../zod/${name}.schema";
+
+const IdInput = z.object({ id: z.string().uuid() });
+
+function fail(message: string): never {
+  throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message });
+}
+
+export const ${key}Router = createTRPCRouter({
+  list: protectedProcedure
+    .input(${name}ListInput)
+    .query(async ({ ctx, input }) => {
+      const from = (input.page - 1) * input.pageSize;
+      let query = ctx.supabase
+        .from(${table})
+        .select("*", { count: "exact" })${scope};
+      for (const [column, value] of Object.entries(input.filter)) {
+        if (value !== undefined) query = query.eq(column, value);
+      }
+      const { data, error, count } = await query
+        .order(input.sortBy, { ascending: input.sortDir === "asc" })
+        .range(from, from + input.pageSize - 1);
+      if (error) fail(error.message);
+      return {
+        items: data ?? [],
+        total: count ?? 0,
+        page: input.page,
+        pageSize: input.pageSize,
+      };
+    }),
+
+  get: protectedProcedure
+    .input(IdInput)
+    .query(async ({ ctx, input }) => {
+      const { data, error } = await ctx.supabase
+        .from(${table})
+        .select("*")
+        .eq("id", input.id)${scope}
+        .maybeSingle();
+      if (error) fail(error.message);
+      if (!data) throw new TRPCError({ code: "NOT_FOUND" });
+      return data;
+    }),
+
+  create: protectedProcedure
+    .input(${name}Schema)
+    .mutation(async ({ ctx, input }) => {
+      const { data, error } = await ctx.supabase
+        .from(${table})
+        .insert(${owned ? `{ ...input, ${OWNER_FIELD}: ctx.userId }` : "input"})
+        .select()
+        .single();
+      if (error) fail(error.message);
+      return data;
+    }),
+
+  update: protectedProcedure
+    .input(${name}UpdateSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      const { data, error } = await ctx.supabase
+        .from(${table})
+        .update(changes)
+        .eq("id", id)${scope}
+        .select()
+        .maybeSingle();
+      if (error) fail(error.message);
+      if (!data) throw new TRPCError({ code: "NOT_FOUND" });
+      return data;
+    }),
+
+  delete: protectedProcedure
+    .input(IdInput)
+    .mutation(async ({ ctx, input }) => {
+      const { error } = await ctx.supabase
+        .from(${table})
+        .delete()
+        .eq("id", input.id)${scope};
+      if (error) fail(error.message);
+      return { id: input.id };
+    }),
+});
+`);
+}
+
+/**
+ * Insert lines after an anchor comment, as a Hygen `inject: true, after:`
+ * template does. Lines the file already has are skipped, so re-running is a
+ * no-op.
+ */
+function injectAfter(source: string, anchor: string, lines: string[]): string {
+  const at = source.indexOf(anchor);
+  if (at === -1) {
+    throw new Error(`Anchor "${anchor}" not found in server/trpc/router.ts`);
+  }
+  const missing = lines.filter((line) => !source.includes(line.trim()));
+  if (missing.length === 0) return source;
+  const lineEnd = source.indexOf("\n", at);
+  const insertAt = lineEnd === -1 ? source.length : lineEnd + 1;
+  return (
+    source.slice(0, insertAt) +
+    missing.map((line) => `${line}\n`).join("") +
+    source.slice(insertAt)
+  );
+}
+
+export const TrpcCrudNode = defineMapNode({
+  id: "trpc.crud",
+  phase: "codeGeneration",
+  input: InputSchema,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 900, usd: 1 }),
+  items: (input) => {
+    const entities = input.profile?.entities ?? [];
+    return entities.map((entity) => ({
+      key: entity.name,
+      item: {
+        ...entity,
+        fields: [...entity.fields, ...relationKeys(entity, entities)],
+      },
+    }));
+  },
+  each: {
+    output: FilesOutput,
+    async run(ent, ctx) {
+      const root = `artifacts/${ctx.orchestrationId}/repo`;
+      const files = [
+        {
+          path: `${root}/zod/${pascal(ent.name)}.schema.ts`,
+          content: schemaFile(ent),
+        },
+        {
+          path: `${root}/server/trpc/${camel(ent.name)}.router.ts`,
+          content: routerFile(ent),
+        },
+      ];
+      for (const f of files) {
+        await ctx.storage.saveArtifact(f.path, f.content);
+      }
+      return { files: files.map((f) => f.path) };
+    },
+  },
+  async run({ input, results }, ctx) {
+    const entities = input.profile?.entities ?? [];
+    const files = Object.values(results).flatMap((r) => r.files);
+    // Rewritten even without entities, so nothing merged by an earlier run
+    // survives a cache hit on trpc.server
+    const routerPath = `artifacts/${ctx.orchestrationId}/repo/server/trpc/router.ts`;
+    const keys = entities.map((e) => camel(e.name));
+    let merged = injectAfter(
+      APP_ROUTER_TS,
+      IMPORT_ANCHOR,
+      keys.map((key) => `import { ${key}Router } from "./${key}.router";`),
+    );
+    merged = injectAfter(
+      merged,
+      MERGE_ANCHOR,
+      keys.map((key) => `  ${key}: ${key}Router,`),
+    );
+    await ctx.storage.saveArtifact(routerPath, lf(merged));
+
+    ctx.logger.info("trpc.crud:written", {
+      routers: keys,
+      files: [...files, routerPath],
+    });
+    return { files: [...files, routerPath] };
+  },
+});
+
+export default TrpcCrudNode;
@@ -5,7 +5,8 @@
  *
  * Purpose:
  *  - Establish the server-side tRPC foundation:
- *    * _trpc primitives (initTRPC + superjson + protectedProcedure)
+ *    * _trpc primitives (initTRPC + superjson + protectedProcedure, which
+ *      rejects anonymous calls with UNAUTHORIZED and narrows ctx.userId)
  *    * Context creation (Supabase service client + userId from auth cookie)
  *    * Next.js App Router adapter under /api/trpc
  *    * Root router aggregation file with Hygen injection markers
@@ -21,38 +22,38 @@
  *  - We keep runtime = "nodejs" for tRPC route; REST public endpoints handle edge/CDN.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const TrpcServerNode: NodeSpec<unknown, { files: string[] }> = {
+/**
+ * server/trpc/router.ts before any routers are merged. trpc.crud merges into
+ * this rather than the artifact, which a cache hit may replay from a run with
+ * other entities.
+ */
+export const APP_ROUTER_TS = lf(`// path: server/trpc/router.ts
+import { createTRPCRouter, publicProcedure } from "./_trpc";
+
+// hygen:routers-import
+
+const healthRouter = createTRPCRouter({
+  ping: publicProcedure.query(() => "pong")
+});
+
+export const appRouter = createTRPCRouter({
+  health: healthRouter,
+  // hygen:routers-merge
+});
+
+export type AppRouter = typeof appRouter;
+`);
+
+export const TrpcServerNode = defineNode({
   id: "trpc.server",
   phase: "execute",
-  estimate: () => ({ tokens: 800, usd: 0.003 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 800, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo`;
 
@@ -68,11 +69,12 @@ const t = initTRPC.context<Context>().create({
 export const createTRPCRouter = t.router;
 export const publicProcedure = t.procedure;
 
+// Protected procedures see ctx.userId as a string
 const isAuthed = t.middleware(({ ctx, next }) => {
   if (!ctx.userId) {
     throw new TRPCError({ code: "UNAUTHORIZED" });
   }
-  return next({ ctx });
+  return next({ ctx: { ...ctx, userId: ctx.userId } });
 });
 
 export const protectedProcedure = t.procedure.use(isAuthed);
@@ -96,23 +98,6 @@ export async function createTRPCContext(opts: CreateContextOptions) {
 }
 
 export type Context = Awaited<ReturnType<typeof createTRPCContext>>;
-`);
-
-    const routerTs = lf(`// path: server/trpc/router.ts
-import { createTRPCRouter, publicProcedure } from "./_trpc";
-
-// hygen:routers-import
-
-const healthRouter = createTRPCRouter({
-  ping: publicProcedure.query(() => "pong")
-});
-
-export const appRouter = createTRPCRouter({
-  health: healthRouter,
-  // hygen:routers-merge
-});
-
-export type AppRouter = typeof appRouter;
 `);
 
     const routeTs = lf(`// path: app/api/trpc/[trpc]/route.ts
@@ -141,7 +126,7 @@ export { handler as GET, handler as POST };
     const files = [
       { path: `${root}/server/trpc/_trpc.ts`, content: _trpcTs },
       { path: `${root}/server/trpc/context.ts`, content: contextTs },
-      { path: `${root}/server/trpc/router.ts`, content: routerTs },
+      { path: `${root}/server/trpc/router.ts`, content: APP_ROUTER_TS },
       { path: `${root}/app/api/trpc/[trpc]/route.ts`, content: routeTs },
     ];
 
@@ -149,14 +134,12 @@ export { handler as GET, handler as POST };
       await ctx.storage.saveArtifact(f.path, f.content);
     }
 
-    ctx.logger.info({
-      msg: "trpc.server:written",
+    ctx.logger.info("trpc.server:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
 
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default TrpcServerNode;
@@ -10,38 +10,16 @@
  *  - artifacts/${orc}/repo/components/data-table.tsx
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const UiDataTableNode: NodeSpec<unknown, { files: string[] }> = {
+export const UiDataTableNode = defineNode({
   id: "ui.datatable",
   phase: "execute",
-  estimate: () => ({ tokens: 220, usd: 0.001 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 220, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo/components`;
 
@@ -57,7 +35,13 @@ import {
 
 type AnyRow = Record<string, unknown>;
 
-export function DataTable({ data }: { data: AnyRow[] }) {
+export function DataTable({
+  data,
+  onRowClick
+}: {
+  data: AnyRow[];
+  onRowClick?: (index: number) => void;
+}) {
   const columns = useMemo<ColumnDef<AnyRow>[]>(() => {
     const first = data?.[0] || {};
     return Object.keys(first).map((k) => ({
@@ -95,7 +79,11 @@ export function DataTable({ data }: { data: AnyRow[] }) {
         </thead>
         <tbody>
           {table.getRowModel().rows.map((row) => (
-            <tr key={row.id} className="border-b hover:bg-neutral-50">
+            <tr
+              key={row.id}
+              className={\`border-b hover:bg-neutral-50\${onRowClick ? " cursor-pointer" : ""}\`}
+              onClick={onRowClick ? () => onRowClick(row.index) : undefined}
+            >
               {row.getVisibleCells().map((cell) => (
                 <td key={cell.id} className="px-3 py-2">
                   {flexRender(cell.column.columnDef.cell, cell.getContext())}
@@ -114,12 +102,11 @@ export function DataTable({ data }: { data: AnyRow[] }) {
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "ui.datatable:written",
+    ctx.logger.info("ui.datatable:written", {
       files: files.map((f) => f.path),
     });
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default UiDataTableNode;
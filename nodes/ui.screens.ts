@@ -5,68 +5,719 @@
  *
  * Purpose:
  *  - Generate screens for multi-entity flows using tRPC hooks + RHF + shadcn.
+ *  - Generate a create/edit form per entity and the list/detail pages of the
+ *    profile's routes.
  *  - If the profile contains no entities, emit a deterministic placeholder screen.
  *
  * Inputs (optional):
- *  - { profile?: { id: string; entities?: Array<{ name: string }> } }
+ *  - { profile?: { id: string; entities?: Array<{ name, table, fields?, relations? }>; routes?: Array<{ path, entity, type }> } }
  *
  * Outputs (examples):
  *  - artifacts/${orc}/repo/app/(protected)/flows/page.tsx
- *  - (If entities exist, additional pages under app/(protected)/* and components/forms/*)
+ *  - artifacts/${orc}/repo/components/forms/values.ts
+ *  - (If entities exist, artifacts/${orc}/repo/app/(protected)/<Entity>/page.tsx
+ *    and components/forms/<Entity>Form.tsx)
+ *  - (Per list route, app/(protected)/<path>/page.tsx; per detail route,
+ *    app/(protected)/<path>/[id]/page.tsx unless the path ends in a [param])
+ *
+ * Map node: one child per entity (`ui.screens[<name>]`) writes that entity's
+ * page, form and route pages; the fan-in writes the flows landing page linking
+ * them and the shared form value helpers. Pages type their rows from the
+ * entity's fields (enums as literal unions, arrays, booleans, dates) and link
+ * to related entities. Custom routes are left to hand-written pages.
+ *
+ * Forms use the forms.rhf.setup inputs by `dbType`: json → TextArea, enum and
+ * boolean → Select, date/timestamp → DateField, fk → Select of the referenced
+ * entity's `list` query, anything else → TextField. Foreign key columns of
+ * one-to-many relations count as fk fields; an fk whose target is not a
+ * profile entity is a uuid TextField. They validate with the
+ * trpc.crud schema (zod/<Entity>.schema.ts) and call its create/update.
  */
 
 import { z } from "zod";
-
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineMapNode, FilesOutput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
+const FieldSchema = z.object({
+  name: z.string().min(1),
+  dbType: z.string().default("text"),
+  required: z.boolean().default(false),
+  enumValues: z.array(z.string()).optional(),
+  default: z.unknown().optional(),
+  fk: z.string().optional(),
+});
+const EntitySchema = z.object({
+  name: z.string().min(1),
+  table: z.string().min(1),
+  fields: z.array(FieldSchema).default([]),
+  relations: z
+    .array(
+      z.object({
+        kind: z.enum(["one-to-many", "many-to-many"]),
+        target: z.string().min(1),
+        foreignKey: z.string().optional(),
+      }),
+    )
+    .default([]),
+});
+const RouteSchema = z.object({
+  path: z.string().min(1),
+  entity: z.string().min(1),
+  type: z.enum(["list", "detail", "custom"]).default("list"),
+});
 const ProfileSchema = z.object({
   id: z.string().default("app"),
-  entities: z.array(z.object({ name: z.string().min(1) })).default([]),
+  entities: z.array(EntitySchema).default([]),
+  routes: z.array(RouteSchema).default([]),
 });
-type Profile = z.infer<typeof ProfileSchema>;
+type Entity = z.infer<typeof ProfileSchema>["entities"][number];
+type Route = z.infer<typeof RouteSchema>;
 const InputSchema = z.object({ profile: ProfileSchema.optional() });
 
-export const UiScreensNode: NodeSpec<
-  { profile?: Profile } | unknown,
-  { files: string[] }
-> = {
+type Field = Entity["fields"][number];
+
+// Entity an fk field points at, for its Select options
+type Reference = { field: string; entity: string; label: string };
+type Screen = { entity: Entity; routes: Route[]; references: Reference[] };
+
+const pascal = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+// trpc.crud's router key for an entity: "BlogPost" → blogPost
+const camel = (s: string) =>
+  s.charAt(0).toLowerCase() + s.slice(1).replace(/[^A-Za-z0-9_$]/g, "_");
+// Field names as property keys; quoted only when not identifiers
+const propKey = (name: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+const propAccess = (name: string) =>
+  /^[A-Za-z_$][\w$]*$/.test(name) ? `.${name}` : `[${JSON.stringify(name)}]`;
+// Select options for an fk field: "author_id" → authorIdOptions
+const optionsVar = (field: string) =>
+  `${field.replace(/[^A-Za-z0-9]+(.)/g, (_, c: string) => c.toUpperCase())}Options`;
+// Relative prefix from a repo directory back to the repo root
+const up = (dir: string) => "../".repeat(dir.split("/").length);
+
+/**
+ * The foreign key columns db.schema adds to `ent`'s table for one-to-many
+ * relations that target it, as nullable uuid fields referencing the source
+ * entity. Matches trpc.crud, so forms send what its schema accepts.
+ */
+function relationKeys(ent: Entity, entities: Entity[]): Field[] {
+  const names = new Set(ent.fields.map((f) => f.name));
+  const keys: Field[] = [];
+  for (const source of entities) {
+    for (const r of source.relations) {
+      if (r.kind !== "one-to-many" || r.target !== ent.name) continue;
+      if (!r.foreignKey) continue;
+      const name = r.foreignKey.replace(/[^a-zA-Z0-9_]/g, "_");
+      if (names.has(name)) continue;
+      names.add(name);
+      keys.push({
+        name,
+        dbType: "uuid",
+        required: false,
+        fk: `${source.table}.id`,
+      });
+    }
+  }
+  return keys;
+}
+
+// Columns the CRUD schema accepts; matches trpc.crud
+const formFields = (ent: Entity) =>
+  ent.fields.filter(
+    (f) => f.name !== "id" && f.name !== "owner_id" && f.dbType !== "vector",
+  );
+
+// TypeScript type of a column as Supabase returns it
+function tsType(f: Field): string {
+  switch (f.dbType) {
+    case "int":
+    case "numeric":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "enum":
+      return (f.enumValues ?? []).map((v) => JSON.stringify(v)).join(" | ");
+    case "text[]":
+      return "string[]";
+    case "json":
+      return "unknown";
+    default:
+      return "string";
+  }
+}
+
+// Expression rendering `row.<field>` as table cell text
+function cellText(f: Field): string {
+  const value = `row${propAccess(f.name)}`;
+  switch (f.dbType) {
+    case "boolean":
+      return `${value} == null ? "" : ${value} ? "Yes" : "No"`;
+    case "date":
+    case "timestamp":
+      return `${value} ? new Date(${value}).toLocaleString() : ""`;
+    case "text[]":
+      return `(${value} ?? []).join(", ")`;
+    case "json":
+      return `${value} == null ? "" : JSON.stringify(${value})`;
+    default:
+      return `String(${value} ?? "")`;
+  }
+}
+
+// Vectors are for search, not display
+const displayFields = (ent: Entity) =>
+  ent.fields.filter((f) => f.name !== "id" && f.dbType !== "vector");
+
+function rowType(ent: Entity): string {
+  return [
+    `  id: string;`,
+    ...displayFields(ent).map(
+      (f) =>
+        `  ${propKey(f.name)}: ${tsType(f)}${f.required ? "" : " | null"};`,
+    ),
+  ].join("\n");
+}
+
+// `toCells(row)` for DataTable, shared by the entity and list pages
+function toCells(ent: Entity): string {
+  const name = pascal(ent.name);
+  const cells = displayFields(ent)
+    .map((f) => `    ${propKey(f.name)}: ${cellText(f)},`)
+    .join("\n");
+  return `function toCells(${cells ? "row" : "_row"}: ${name}Row): Record<string, string> {
+  return {${cells ? `\n${cells}\n  ` : ""}};
+}`;
+}
+
+/**
+ * Fk targets that are profile entities keyed by id, so the form can list
+ * them. Others (auth.users, non-id columns) stay uuid text inputs.
+ */
+function references(ent: Entity, entities: Entity[]): Reference[] {
+  const refs: Reference[] = [];
+  for (const f of formFields(ent)) {
+    if (!f.fk) continue;
+    const parts = f.fk.split(".");
+    const column = parts.pop();
+    const target = entities.find((e) => e.table === parts.join("."));
+    if (!target || column !== "id") continue;
+    // Label options with the target's first text column
+    const label =
+      target.fields.find((t) => t.dbType === "text" && t.name !== "id")?.name ??
+      "id";
+    refs.push({ field: f.name, entity: target.name, label });
+  }
+  return refs;
+}
+
+// A per-entity page listing rows through the trpc.crud router
+function entityPage(ent: Entity): string {
+  const name = pascal(ent.name);
+  const dir = `app/(protected)/${ent.name}`;
+  const related = [...new Set(ent.relations.map((r) => r.target))];
+  const relatedLinks = related.length
+    ? `
+      <p className="text-sm text-neutral-600">
+        Related:${related
+          .map(
+            (target) =>
+              ` <Link className="underline" href="/${target}">${target}</Link>`,
+          )
+          .join(",")}
+      </p>`
+    : "";
+
+  return lf(`// path: ${dir}/page.tsx
+"use client";
+import * as React from "react";
+${related.length ? `import Link from "next/link";\n` : ""}import { api } from "${up(dir)}lib/trpc";
+import { DataTable } from "${up(dir)}components/data-table";
+import type { ${name}Row } from "${up(dir)}components/forms/${name}Form";
+
+${toCells(ent)}
+
+export default function ${name}Flow() {
+  const { data } = api.${camel(ent.name)}.list.useQuery({});
+  const rows = (data?.items ?? []) as ${name}Row[];
+  return (
+    <div className="p-4 space-y-4">
+      <h1 className="text-lg font-semibold">${ent.name} flow</h1>
+      <DataTable data={rows.map(toCells)} />${relatedLinks}
+    </div>
+  );
+}
+`);
+}
+
+// JSX for one form input, by dbType
+function formInput(f: Field, refs: Reference[]): string {
+  const props = `control={form.control} name=${JSON.stringify(f.name)} label=${JSON.stringify(f.name)}`;
+  const ref = refs.find((r) => r.field === f.name);
+  if (ref) return `<Select ${props} options={${optionsVar(f.name)}} />`;
+  switch (f.dbType) {
+    case "json":
+      return `<TextArea ${props} rows={6} placeholder="{}" />`;
+    case "enum":
+      return `<Select ${props} options={[${(f.enumValues ?? [])
+        .map(
+          (v) => `{ value: ${JSON.stringify(v)}, label: ${JSON.stringify(v)} }`,
+        )
+        .join(", ")}]} />`;
+    case "boolean":
+      return `<Select ${props} options={[{ value: "true", label: "Yes" }, { value: "false", label: "No" }]} />`;
+    case "date":
+      return `<DateField ${props} />`;
+    case "timestamp":
+      return `<DateField ${props} withTime />`;
+    case "text[]":
+      return `<TextField ${props} placeholder="Comma-separated" />`;
+    case "uuid":
+      return `<TextField ${props} placeholder="UUID" />`;
+    default:
+      return `<TextField ${props} />`;
+  }
+}
+
+// Row value → input text
+function toValue(f: Field): string {
+  const value = `row?.${propAccess(f.name).replace(/^\./, "")}`;
+  switch (f.dbType) {
+    case "json":
+      return `jsonValue(${value})`;
+    case "date":
+      return `dateValue(${value})`;
+    case "timestamp":
+      return `dateTimeValue(${value})`;
+    default:
+      return `textValue(${value})`;
+  }
+}
+
+/**
+ * Input text → schema value. Blank optional columns become null; blank
+ * required ones are left out so the database default applies, or the schema
+ * reports them missing. Required text is passed as typed so `.min(1)` can.
+ */
+function toInputValue(f: Field): string {
+  const text = `values${propAccess(f.name)}`;
+  const convert =
+    {
+      int: "asNumber",
+      numeric: "asNumber",
+      boolean: "asBoolean",
+      timestamp: "asTimestamp",
+      json: "asJson",
+      "text[]": "asList",
+    }[f.dbType] ?? "asText";
+  if (!f.required) return `nullable(${text}, ${convert})`;
+  if (f.dbType === "text" && f.default === undefined) return text;
+  return `optional(${text}, ${convert})`;
+}
+
+// forms.rhf.setup components and values.ts exports, in import order
+const FORM_INPUTS = ["DateField", "Select", "TextArea", "TextField"];
+const VALUE_HELPERS = [
+  "asBoolean",
+  "asJson",
+  "asList",
+  "asNumber",
+  "asText",
+  "asTimestamp",
+  "dateTimeValue",
+  "dateValue",
+  "jsonValue",
+  "nullable",
+  "optional",
+  "schemaResolver",
+  "textValue",
+  "toOptions",
+];
+
+function formComponent(ent: Entity, refs: Reference[]): string {
+  const name = pascal(ent.name);
+  const key = camel(ent.name);
+  const dir = "components/forms";
+  const fields = formFields(ent);
+  const valuesType = fields
+    .map((f) => `  ${propKey(f.name)}: string;`)
+    .join("\n");
+  const toValues = fields
+    .map((f) => `    ${propKey(f.name)}: ${toValue(f)},`)
+    .join("\n");
+  const toInput = fields
+    .map((f) => `    ${propKey(f.name)}: ${toInputValue(f)},`)
+    .join("\n");
+  const options = refs
+    .map(
+      (r) =>
+        `  const ${optionsVar(r.field)} = toOptions(
+    api.${camel(r.entity)}.list.useQuery({ pageSize: 100 }).data?.items,
+    ${JSON.stringify(r.label)},
+  );`,
+    )
+    .join("\n");
+
+  const body = `export type ${name}Row = {
+${rowType(ent)}
+};
+
+// Inputs hold text; toInput converts it to ${name}Schema's shape
+type ${name}Values = {${valuesType ? `\n${valuesType}\n` : ""}};
+
+function toValues(${fields.length ? "row" : "_row"}?: ${name}Row): ${name}Values {
+  return {${toValues ? `\n${toValues}\n  ` : ""}};
+}
+
+function toInput(${fields.length ? "values" : "_values"}: ${name}Values) {
+  return {${toInput ? `\n${toInput}\n  ` : ""}};
+}
+
+const resolver = schemaResolver<${name}Values, ${name}Input>(${name}Schema, toInput);
+
+/** Creates a ${ent.name}, or updates \`row\` when given. */
+export function ${name}Form({
+  row,
+  onSaved,
+}: {
+  row?: ${name}Row;
+  onSaved?: (saved: ${name}Row) => void;
+}) {
+  const utils = api.useUtils();
+  const form = useForm<${name}Values, unknown, ${name}Input>({
+    defaultValues: toValues(row),
+    resolver,
+  });
+  const { reset } = form;
+  React.useEffect(() => reset(toValues(row)), [row, reset]);
+  const create = api.${key}.create.useMutation();
+  const update = api.${key}.update.useMutation();
+${options ? `${options}\n` : ""}
+  const onSubmit = form.handleSubmit(async (input) => {
+    const saved = row
+      ? await update.mutateAsync({ ...input, id: row.id })
+      : await create.mutateAsync(input);
+    await utils.${key}.invalidate();
+    if (!row) reset(toValues());
+    onSaved?.(saved as ${name}Row);
+  });
+  const error = create.error ?? update.error;
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-3">
+${fields.map((f) => `      ${formInput(f, refs)}`).join("\n")}
+      {error ? <p className="text-xs text-red-600">{error.message}</p> : null}
+      <Button type="submit" disabled={form.formState.isSubmitting}>
+        {row ? "Save" : "Create"}
+      </Button>
+    </form>
+  );
+}
+`;
+  const uses = (id: string) => new RegExp(`\\b${id}\\b`).test(body);
+  const inputs = FORM_INPUTS.filter(uses);
+  const helpers = VALUE_HELPERS.filter(uses);
+
+  return lf(`// path: ${dir}/${name}Form.tsx
+"use client";
+import * as React from "react";
+import { useForm } from "react-hook-form";
+import { api } from "${up(dir)}lib/trpc";
+import { Button } from "../ui/button";
+${inputs.map((c) => `import { ${c} } from "../form/${c}";\n`).join("")}import { ${name}Schema, type ${name}Input } from "${up(dir)}zod/${name}.schema";
+import {
+${helpers.map((h) => `  ${h},`).join("\n")}
+} from "./values";
+
+${body}`);
+}
+
+// Route path segments; detail routes end in a [param], added when missing
+function routeSegments(route: Route): string[] {
+  const segments = route.path.split("/").filter(Boolean);
+  if (route.type === "detail" && !/^\[\w+\]$/.test(segments.at(-1) ?? "")) {
+    segments.push("[id]");
+  }
+  return segments;
+}
+
+// Expression for a row's detail URL, e.g. `/posts/${row.id}`
+function detailHref(route: Route): string {
+  const base = routeSegments(route).slice(0, -1).join("/");
+  return "`/" + (base ? `${base}/` : "") + "${row.id}`";
+}
+
+function listPage(ent: Entity, route: Route, detail?: Route): string {
+  const name = pascal(ent.name);
+  const key = camel(ent.name);
+  const dir = ["app/(protected)", ...routeSegments(route)].join("/");
+
+  return lf(`// path: ${dir}/page.tsx
+"use client";
+import * as React from "react";
+${detail ? `import { useRouter } from "next/navigation";\n` : ""}import { api } from "${up(dir)}lib/trpc";
+import { DataTable } from "${up(dir)}components/data-table";
+import { Button } from "${up(dir)}components/ui/button";
+import { ${name}Form, type ${name}Row } from "${up(dir)}components/forms/${name}Form";
+
+${toCells(ent)}
+
+export default function ${name}ListPage() {
+${detail ? "  const router = useRouter();\n" : ""}  const [page, setPage] = React.useState(1);
+  const [creating, setCreating] = React.useState(false);
+  const { data } = api.${key}.list.useQuery({ page });
+  const rows = (data?.items ?? []) as ${name}Row[];
+  const pages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">${ent.name}</h1>
+        <Button variant="outline" onClick={() => setCreating((open) => !open)}>
+          {creating ? "Cancel" : "New ${ent.name}"}
+        </Button>
+      </div>
+      {creating ? <${name}Form onSaved={() => setCreating(false)} /> : null}
+      <DataTable
+        data={rows.map(toCells)}${
+          detail
+            ? `
+        onRowClick={(index) => {
+          const row = rows[index];
+          if (row) router.push(${detailHref(detail)});
+        }}`
+            : ""
+        }
+      />
+      <div className="flex items-center gap-2 text-sm">
+        <Button variant="ghost" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+          Previous
+        </Button>
+        <span>
+          Page {page} of {pages}
+        </span>
+        <Button variant="ghost" disabled={page >= pages} onClick={() => setPage(page + 1)}>
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+}
+`);
+}
+
+function detailPage(ent: Entity, route: Route, list?: Route): string {
+  const name = pascal(ent.name);
+  const key = camel(ent.name);
+  const segments = routeSegments(route);
+  const dir = ["app/(protected)", ...segments].join("/");
+  const param = segments.at(-1)!.slice(1, -1);
+  const back = list ? `/${routeSegments(list).join("/")}` : "/flows";
+
+  return lf(`// path: ${dir}/page.tsx
+"use client";
+import * as React from "react";
+import { useParams, useRouter } from "next/navigation";
+import { api } from "${up(dir)}lib/trpc";
+import { Button } from "${up(dir)}components/ui/button";
+import { ${name}Form, type ${name}Row } from "${up(dir)}components/forms/${name}Form";
+
+export default function ${name}DetailPage() {
+  const { ${param === "id" ? "id" : `${param}: id`} } = useParams<{ ${param}: string }>();
+  const router = useRouter();
+  const utils = api.useUtils();
+  const { data, error, isLoading } = api.${key}.get.useQuery({ id });
+  const remove = api.${key}.delete.useMutation({
+    onSuccess: async () => {
+      await utils.${key}.list.invalidate();
+      router.push(${JSON.stringify(back)});
+    },
+  });
+
+  if (isLoading) return <p className="p-4 text-sm">Loading…</p>;
+  if (!data) {
+    return <p className="p-4 text-sm text-red-600">{error?.message ?? "Not found"}</p>;
+  }
+  return (
+    <div className="p-4 space-y-4">
+      <h1 className="text-lg font-semibold">${ent.name}</h1>
+      <${name}Form row={data as ${name}Row} />
+      <Button variant="outline" disabled={remove.isPending} onClick={() => remove.mutate({ id })}>
+        Delete
+      </Button>
+    </div>
+  );
+}
+`);
+}
+
+// Shared by every generated form: text ⇄ schema values and the zod resolver
+const valuesModule = lf(`// path: components/forms/values.ts
+import type { FieldErrors, FieldValues, Resolver } from "react-hook-form";
+import type { z } from "zod";
+
+// Row values → input text
+export function textValue(value: unknown): string {
+  if (value == null) return "";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+export function jsonValue(value: unknown): string {
+  return value == null ? "" : JSON.stringify(value, null, 2);
+}
+
+export function dateValue(value: unknown): string {
+  return typeof value === "string" ? value.slice(0, 10) : "";
+}
+
+// datetime-local inputs take local time without an offset
+export function dateTimeValue(value: unknown): string {
+  if (typeof value !== "string") return "";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+}
+
+// Input text → schema values
+export const asText = (text: string) => text;
+export const asNumber = (text: string) => Number(text);
+export const asBoolean = (text: string) => text === "true";
+export const asList = (text: string) =>
+  text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export function asTimestamp(text: string): string {
+  const date = new Date(text);
+  // Left as typed so the schema reports it
+  return Number.isNaN(date.getTime()) ? text : date.toISOString();
+}
+
+class InvalidJson {}
+
+export function asJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return new InvalidJson();
+  }
+}
+
+/** Blank clears the column */
+export function nullable<T>(text: string, convert: (text: string) => T) {
+  return text.trim() === "" ? null : convert(text);
+}
+
+/** Blank leaves the column out (database default, or a schema error) */
+export function optional<T>(text: string, convert: (text: string) => T) {
+  return text.trim() === "" ? undefined : convert(text);
+}
+
+export function toOptions(
+  items: Array<Record<string, unknown>> | undefined,
+  label: string,
+) {
+  return (items ?? []).map((item) => ({
+    value: String(item.id),
+    label: String(item[label] ?? item.id),
+  }));
+}
+
+/**
+ * Validates converted values with the CRUD router's schema, so the form and
+ * the server reject the same input. Submit handlers receive the parsed input.
+ */
+export function schemaResolver<V extends FieldValues, I>(
+  schema: z.ZodType<I>,
+  toInput: (values: V) => Record<string, unknown>,
+): Resolver<V, unknown, I> {
+  return async (values) => {
+    const input = toInput(values);
+    const errors: Record<string, { type: string; message: string }> = {};
+    for (const [name, value] of Object.entries(input)) {
+      if (value instanceof InvalidJson) {
+        errors[name] = { type: "json", message: "Invalid JSON" };
+      }
+    }
+    const result = schema.safeParse(input);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const name = String(issue.path[0] ?? "root");
+        errors[name] ??= { type: issue.code, message: issue.message };
+      }
+    }
+    if (!result.success || Object.keys(errors).length > 0) {
+      return { values: {}, errors: errors as FieldErrors<V> };
+    }
+    return { values: result.data, errors: {} };
+  };
+}
+`);
+
+export const UiScreensNode = defineMapNode({
   id: "ui.screens",
   phase: "codeGeneration",
-  estimate: () => ({ tokens: 700, usd: 0.003 }),
-  async run(input, ctx) {
-    const parsed = InputSchema.safeParse(input);
-    const profile: Profile = parsed.success
-      ? (parsed.data.profile ?? { id: "app", entities: [] })
-      : { id: "app", entities: [] };
-
-    const base = `artifacts/${ctx.orchestrationId}/repo`;
-    const outputs: Array<{ path: string; content: string }> = [];
+  input: InputSchema,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 1400, usd: 1 }),
+  items: (input) => {
+    const entities = input.profile?.entities ?? [];
+    const routes = input.profile?.routes ?? [];
+    return entities.map((e) => {
+      const entity = {
+        ...e,
+        fields: [...e.fields, ...relationKeys(e, entities)],
+      };
+      return {
+        key: entity.name,
+        item: {
+          entity,
+          routes: routes.filter((r) => r.entity === entity.name),
+          references: references(entity, entities),
+        } satisfies Screen,
+      };
+    });
+  },
+  each: {
+    output: FilesOutput,
+    async run({ entity: ent, routes, references: refs }, ctx) {
+      const root = `artifacts/${ctx.orchestrationId}/repo`;
+      const list = routes.find((r) => r.type === "list");
+      const detail = routes.find((r) => r.type === "detail");
+      const files = [
+        {
+          path: `${root}/app/(protected)/${ent.name}/page.tsx`,
+          content: entityPage(ent),
+        },
+        {
+          path: `${root}/components/forms/${pascal(ent.name)}Form.tsx`,
+          content: formComponent(ent, refs),
+        },
+        ...routes.flatMap((route) => {
+          const dir = ["app/(protected)", ...routeSegments(route)].join("/");
+          const path = `${root}/${dir}/page.tsx`;
+          if (route.type === "list") {
+            return [{ path, content: listPage(ent, route, detail) }];
+          }
+          if (route.type === "detail") {
+            return [{ path, content: detailPage(ent, route, list) }];
+          }
+          return [];
+        }),
+      ];
+      // A route may reuse the entity page's path; the route page wins
+      const byPath = new Map(files.map((f) => [f.path, f.content]));
+      for (const [path, content] of byPath) {
+        await ctx.storage.saveArtifact(path, content);
+      }
+      return { files: [...byPath.keys()] };
+    },
+  },
+  async run({ input, results }, ctx) {
+    const entities = input.profile?.entities ?? [];
+    const path = `artifacts/${ctx.orchestrationId}/repo/app/(protected)/flows/page.tsx`;
 
     // Always emit a flows landing page, deterministic content.
     const flowsPage = lf(`// path: app/(protected)/flows/page.tsx
@@ -75,7 +726,7 @@ import * as React from "react";
 import Link from "next/link";
 
 export default function FlowsLanding() {
-  const items = ${JSON.stringify(profile.entities.map((e) => ({ name: e.name, href: `/app/(protected)/${e.name}` })))};
+  const items = ${JSON.stringify(entities.map((e) => ({ name: e.name, href: `/app/(protected)/${e.name}` })))};
   return (
     <div className="p-4 space-y-3">
       <h1 className="text-xl font-semibold">Flows</h1>
@@ -92,50 +743,21 @@ export default function FlowsLanding() {
   );
 }
 `);
-    outputs.push({
-      path: `${base}/app/(protected)/flows/page.tsx`,
-      content: flowsPage,
-    });
-
-    // If entities exist, emit a simple per-entity page using tRPC hook placeholders.
-    for (const ent of profile.entities) {
-      const page = lf(`// path: app/(protected)/${ent.name}/page.tsx
-"use client";
-import * as React from "react";
-import { api } from "../../lib/trpc";
-import { DataTable } from "../../components/data-table";
+    await ctx.storage.saveArtifact(path, flowsPage);
 
-export default function ${ent.name.charAt(0).toUpperCase() + ent.name.slice(1)}Flow() {
-  // Expected to exist after CRUD routers are generated:
-  // const { data = [] } = api.${ent.name}.list.useQuery();
-  const data: any[] = [];
-  return (
-    <div className="p-4 space-y-4">
-      <h1 className="text-lg font-semibold">${ent.name} flow</h1>
-      <DataTable data={data} />
-    </div>
-  );
-}
-`);
-      outputs.push({
-        path: `${base}/app/(protected)/${ent.name}/page.tsx`,
-        content: page,
-      });
+    const files = [path, ...Object.values(results).flatMap((r) => r.files)];
+    if (entities.length > 0) {
+      const valuesPath = `artifacts/${ctx.orchestrationId}/repo/components/forms/values.ts`;
+      await ctx.storage.saveArtifact(valuesPath, valuesModule);
+      files.push(valuesPath);
     }
-
-    for (const f of outputs) {
-      await ctx.storage.saveArtifact(f.path, f.content);
-    }
-
-    ctx.logger.info({
-      msg: "ui.screens:written",
-      files: outputs.map((x) => x.path),
-      entities: profile.entities.length,
-      correlationId: ctx.correlationId,
+    ctx.logger.info("ui.screens:written", {
+      files,
+      entities: entities.length,
     });
 
-    return { files: outputs.map((x) => x.path) };
+    return { files };
   },
-};
+});
 
 export default UiScreensNode;
@@ -15,40 +15,18 @@
  *  - artifacts/${orc}/repo/components/ui/toast.tsx
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 function lf(s: string) {
   return s.replace(/\r\n/g, "\n");
 }
 
-export const UiShadcnInitNode: NodeSpec<unknown, { files: string[] }> = {
+export const UiShadcnInitNode = defineNode({
   id: "ui.shadcn.init",
   phase: "execute",
-  estimate: () => ({ tokens: 300, usd: 0.001 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 300, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo/components/ui`;
 
@@ -156,12 +134,11 @@ export function useToast() {
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "ui.shadcn.init:written",
+    ctx.logger.info("ui.shadcn.init:written", {
       files: files.map((f) => f.path),
     });
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default UiShadcnInitNode;
@@ -17,37 +17,16 @@
  *  - Does not modify server/trpc/router.ts to merge the router; you can inject via Hygen later.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const UploadDirectNode: NodeSpec<unknown, { files: string[] }> = {
+export const UploadDirectNode = defineNode({
   id: "upload.direct",
   phase: "execute",
-  estimate: () => ({ tokens: 780, usd: 0.003 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 780, usd: 1 }),
   async run(_input, ctx) {
     const root = `artifacts/${ctx.orchestrationId}/repo`;
 
@@ -145,13 +124,11 @@ export default function UploadsPage() {
     for (const f of files) {
       await ctx.storage.saveArtifact(f.path, f.content);
     }
-    ctx.logger.info({
-      msg: "upload.direct:written",
+    ctx.logger.info("upload.direct:written", {
       files: files.map((f) => f.path),
-      correlationId: ctx.correlationId,
     });
     return { files: files.map((f) => f.path) };
   },
-};
+});
 
 export default UploadDirectNode;
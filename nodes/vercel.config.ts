@@ -17,38 +17,16 @@
  *  - Keep settings conservative and portable across projects.
  */
 
-export type NodeId = string;
-export type OrchestrationId = string;
-
-export interface ExecutionContext {
-  orchestrationId: OrchestrationId;
-  correlationId: string;
-  logger: { info(m: any): void; warn(m: any): void; error(m: any): void };
-  storage: {
-    saveArtifact: (path: string, content: string | Uint8Array) => Promise<void>;
-  };
-}
-export interface NodeSpec<I = unknown, O = unknown> {
-  id: NodeId;
-  phase:
-    | "processResponses"
-    | "analyze"
-    | "validate"
-    | "plan"
-    | "execute"
-    | "codeGeneration"
-    | "integrate"
-    | "finalize";
-  estimate?: (input: I) => { tokens?: number; usd?: number };
-  run: (input: I, ctx: ExecutionContext) => Promise<O>;
-}
+import { defineNode, FilesOutput, NoInput } from "../engine/nodeSdk";
 
 const lf = (s: string) => s.replace(/\r\n/g, "\n");
 
-export const VercelConfigNode: NodeSpec<unknown, { files: string[] }> = {
+export const VercelConfigNode = defineNode({
   id: "vercel.config",
   phase: "integrate",
-  estimate: () => ({ tokens: 160, usd: 0.001 }),
+  input: NoInput,
+  output: FilesOutput,
+  estimate: () => ({ tokens: 160, usd: 1 }),
   async run(_input, ctx) {
     const path = `artifacts/${ctx.orchestrationId}/repo/vercel.json`;
 
@@ -71,13 +49,11 @@ export const VercelConfigNode: NodeSpec<unknown, { files: string[] }> = {
 `);
 
     await ctx.storage.saveArtifact(path, vercelJson);
-    ctx.logger.info({
-      msg: "vercel.config:written",
+    ctx.logger.info("vercel.config:written", {
       files: [path],
-      correlationId: ctx.correlationId,
     });
     return { files: [path] };
   },
-};
+});
 
 export default VercelConfigNode;
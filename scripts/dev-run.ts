@@ -1,111 +1,227 @@
 // path: scripts/dev-run.ts
 /* eslint-disable no-console */
-import { createFsStorage } from "../engine/fsStorage";
-
-// Import the nodes you've added so far:
-import ProfileNormalizeNode from "../nodes/profile.normalize";
-import RepoScaffoldNode from "../nodes/repo.scaffold";
-import EnvSchemaNode from "../nodes/env.schema";
-import UiShadcnInitNode from "../nodes/ui.shadcn.init";
-import ClientStateInstallNode from "../nodes/client.state.install";
-import FormsRHFSetupNode from "../nodes/forms.rhf.setup";
-import UiDataTableNode from "../nodes/ui.datatable";
-import SaInitNode from "../nodes/sa.init";
-import DbSchemaNode from "../nodes/db.schema";
-import AuthSetupNode from "../nodes/auth.setup";
-import StorageBucketsNode from "../nodes/storage.buckets";
-import SaRlsNode from "../nodes/sa.rls";
-import RealtimeChannelsNode from "../nodes/realtime.channels";
-import CronQueueSetupNode from "../nodes/cron.queue.setup";
-import EdgeFunctionsNode from "../nodes/edge.functions";
-import TrpcServer from "../nodes/trpc.server";
-import RestPublic from "../nodes/rest.public";
-import TrpcClientNode from "../nodes/trpc.client";
-import NextAppRouterNode from "../nodes/next.app.router";
-import UploadDirectNode from "../nodes/upload.direct";
-import AiOpenaiSetupNode from "../nodes/ai.openai.setup";
-import AiAnthropicSetupNode from "../nodes/ai.anthropic.setup";
-import AiLanggraphFlowNode from "../nodes/ai.langgraph.flow";
-import AiEmbedderNode from "../nodes/ai.embedder";
-import RealtimeClientNode from "../nodes/realtime.client";
-import UiScreensNode from "../nodes/ui.screens";
-import VercelConfigNode from "../nodes/vercel.config";
-import MonitoringBasicsNode from "../nodes/monitoring.basics";
-import GithubSetup from "../nodes/github.setup";
-import DeployDocs from "../nodes/deploy.docs";
-
-// Minimal ExecutionContext
-const storage = createFsStorage();
-const logger = {
-  info: (m: any) => console.log("[info]", m),
-  warn: (m: any) => console.warn("[warn]", m),
-  error: (m: any) => console.error("[error]", m),
-};
-
-const orchestrationId = process.env.ORC_ID ?? "dev-orc-0001";
+/**
+ * Runs a blueprint end to end against the local JSON store.
+ *
+ *   npx tsx scripts/dev-run.ts                  # fresh run (node cache kept)
+ *   npx tsx scripts/dev-run.ts --resume         # continue from the checkpoint
+ *   npx tsx scripts/dev-run.ts --record <file>  # run from an empty store and
+ *                                               # record all I/O to a cassette
+ *   npx tsx scripts/dev-run.ts --replay <file>  # replay it with no store,
+ *                                               # failing on any difference
+ *
+ * Free-text input is inferred into a profile by an LLM when a provider key is
+ * set (see profile.normalize). Recordings include those calls, so replaying
+ * them needs no keys.
+ */
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  createNodeRegistry,
+  loadBlueprintFile,
+  type NodeRegistry,
+} from "../engine/blueprintLoader";
+import {
+  LocalBackend,
+  LocalRepository,
+  LocalStore,
+} from "../engine/localBackend";
+import {
+  Cassette,
+  CassetteBackend,
+  CassetteRepository,
+} from "../engine/cassette";
+import {
+  OrchestrationEngine,
+  type EngineBackend,
+  type OrchestrationId,
+  type Repository,
+  type TokenCount,
+  type USDCents,
+  type UserId,
+} from "../engine/OrchestrationEngine";
+import { CassetteLlmProvider, LlmGateway } from "../lib/ai/gateway";
+import {
+  createProfileNormalizeNode,
+  profileInferenceConfigured,
+  type ProfileNormalizeOptions,
+} from "../nodes/profile.normalize";
+import { nodeRegistry } from "../nodes/registry";
+
+const orchestrationId = (process.env.ORC_ID ??
+  "dev-orc-0001") as OrchestrationId;
 const correlationId = "dev-run-0001";
+const blueprintPath =
+  process.env.BLUEPRINT_PATH ?? "blueprint/blueprint.example.json";
+const statePath = process.env.LESIAB_STATE ?? ".lesiab/state.json";
+const resume = process.argv.includes("--resume");
+
+function flagValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+const recordPath = flagValue("--record");
+const replayPath = flagValue("--replay");
+
+/** Accept a JSON profile or free text; free text becomes { description } */
+function parseProfileInput(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    /* not JSON, treat as prose */
+  }
+  return { description: raw };
+}
 
 async function run() {
-  const ctx = { orchestrationId, correlationId, logger, storage };
-
-  // --- Batch 0: profile.normalize ---
-  // If your input is unintelligible, the node defaults to an "app" profile.
-  const profileInput =
+  if ((recordPath || replayPath) && resume) {
+    throw new Error("--record and --replay always start a fresh run");
+  }
+  // If your input is unintelligible, profile.normalize defaults to an "app" profile.
+  const input = parseProfileInput(
     process.env.PROFILE_JSON ??
-    `{"id":"app","version":"1.0.0","entities":[],"routes":[],"llm":{"providerPreference":"openai","useLangGraph":true}}`;
-  await ProfileNormalizeNode.run(profileInput, ctx);
-
-  // --- Batch 1: repo.scaffold ---
-  await RepoScaffoldNode.run({ profile: { id: "app", version: "1.0.0" } }, ctx);
-
-  // --- Batch 2: env.schema, ui.shadcn.init, client.state.install, forms.rhf.setup, ui.datatable ---
-  await EnvSchemaNode.run({}, ctx);
-  await UiShadcnInitNode.run({}, ctx);
-  await ClientStateInstallNode.run({}, ctx);
-  await FormsRHFSetupNode.run({}, ctx);
-  await UiDataTableNode.run({}, ctx);
-
-  // --- Batch 3: sa.init ---
-  await SaInitNode.run({}, ctx);
-
-  // --- Batch 4: db.schema, auth.setup, storage.buckets ---
-  await DbSchemaNode.run(
-    { profile: { id: "app", version: "1.0.0", entities: [] } },
-    ctx,
+      `{"id":"app","version":"1.0.0","entities":[],"routes":[],"llm":{"providerPreference":"openai","useLangGraph":true}}`,
   );
-  await AuthSetupNode.run({}, ctx);
-  await StorageBucketsNode.run({}, ctx);
-
-  // --- Batch 5: sa.rls, realtime.channels, cron.queue.setup, edge.functions ---
-  await SaRlsNode.run({ profile: { entities: [] } }, ctx);
-  await RealtimeChannelsNode.run({}, ctx);
-  await CronQueueSetupNode.run({}, ctx);
-  await EdgeFunctionsNode.run({}, ctx);
-
-  // --- Batch 6: trpc.server, rest.public ---
-  await TrpcServer.run({}, ctx);
-  await RestPublic.run({}, ctx);
 
-  // --- Batch 7: trpc.client, next.app.router, upload.direct, ai.openai.setup, ai.anthropic.setup ---
-  await TrpcClientNode.run({}, ctx);
-  await NextAppRouterNode.run({}, ctx);
-  await UploadDirectNode.run({}, ctx);
-  await AiOpenaiSetupNode.run({}, ctx);
-  await AiAnthropicSetupNode.run({}, ctx);
-
-  // --- Batch 8: ai.langgraph.flow, ai.embedder, realtime.client, ui.screens ---
-  await AiLanggraphFlowNode.run({}, ctx);
-  await AiEmbedderNode.run({}, ctx);
-  await RealtimeClientNode.run({}, ctx);
-  await UiScreensNode.run({ profile: { id: "app", entities: [] } }, ctx);
-
-  // --- Batch 9: vercel.config, monitoring.basics ---
-  await VercelConfigNode.run({}, ctx);
-  await MonitoringBasicsNode.run({}, ctx);
+  let repository: Repository;
+  let backend: EngineBackend;
+  let cassette: Cassette | undefined;
+  let llm: ProfileNormalizeOptions["llm"];
+  if (replayPath) {
+    // Everything the run reads or writes comes from the cassette
+    cassette = await Cassette.open(replayPath, "replay");
+    repository = new CassetteRepository(cassette);
+    backend = new CassetteBackend(cassette);
+    // Nothing has played yet, so this lists the whole recording
+    const recorded = cassette;
+    if (recorded.unplayed().some((entry) => entry.kind.startsWith("llm."))) {
+      llm = () =>
+        new LlmGateway(
+          ["openai", "anthropic"].map(
+            (name) => new CassetteLlmProvider(recorded, { name }),
+          ),
+        );
+    }
+  } else {
+    // Same engine code path as production, persisted to a local JSON store.
+    // A recording starts from an empty store so that no node is served from
+    // the node cache and every artifact is on the cassette.
+    const store = new LocalStore(
+      recordPath
+        ? path.join(
+            await fs.mkdtemp(path.join(os.tmpdir(), "lesiab-")),
+            "state.json",
+          )
+        : statePath,
+    );
+    if (!resume) {
+      // Start over unless asked to continue from the last checkpoint; nodes
+      // whose input did not change are served from the node cache
+      await store.resetOrchestration(orchestrationId);
+    }
+    repository = new LocalRepository(store);
+    backend = new LocalBackend(store);
+    if (recordPath) {
+      const recording = await Cassette.open(recordPath, "record");
+      repository = new CassetteRepository(recording, repository);
+      backend = new CassetteBackend(recording, backend);
+      if (profileInferenceConfigured()) {
+        llm = async () =>
+          (await import("../lib/ai/llm")).createLlmGateway({
+            wrap: (provider) => new CassetteLlmProvider(recording, provider),
+          });
+      }
+      cassette = recording;
+    }
+  }
+
+  // Route profile inference through the cassette when there is one
+  const registry: NodeRegistry = llm
+    ? createNodeRegistry(
+        [...nodeRegistry.values()].map((node) =>
+          node.id === "profile.normalize"
+            ? createProfileNormalizeNode({ llm })
+            : node,
+        ),
+      )
+    : nodeRegistry;
+  const { blueprint } = await loadBlueprintFile(blueprintPath, registry);
+
+  const engine = new OrchestrationEngine(
+    {
+      maxConcurrencyGlobal: 4,
+      maxConcurrencyPerOrchestration: 4,
+      maxAttemptsPerNode: 2,
+      defaultNodeTimeoutMs: 30000,
+      budget: {
+        maxUsd: 500 as USDCents,
+        maxTokens: 200000 as TokenCount,
+        maxWallClockMs: 600000,
+      },
+    },
+    repository,
+    backend,
+  );
 
-  // --- Batch 10: github.setup, deploy.docs ---
-  await GithubSetup.run({}, ctx);
-  await DeployDocs.run({}, ctx);
+  // Ctrl+C pauses at the next node boundary; a second Ctrl+C cancels
+  let interrupts = 0;
+  process.on("SIGINT", () => {
+    interrupts++;
+    const stop = interrupts === 1 ? engine.pause : engine.cancel;
+    console.log(
+      interrupts === 1
+        ? "Pausing… (run again with --resume to continue, Ctrl+C again to cancel)"
+        : "Cancelling…",
+    );
+    stop
+      .call(engine, orchestrationId, "Interrupted from dev runner")
+      .catch((err) => console.error("Failed to stop:", err));
+  });
+
+  const args = {
+    orchestrationId,
+    userId: "dev-user" as UserId,
+    blueprint,
+    input,
+    correlationId,
+  };
+  const result = resume
+    ? await engine.resume(args)
+    : await engine.execute(args);
+
+  console.log(
+    `✔ ${result.status}: ${result.artifacts.length} artifacts in ${result.executionTime}ms (plan ${result.planHash})`,
+  );
+  for (const { nodeId, error } of result.failedNodes) {
+    console.log(`  ✖ ${nodeId} failed: ${error}`);
+  }
+  for (const { nodeId, reason } of result.skippedNodes) {
+    console.log(`  – ${nodeId} skipped: ${reason}`);
+  }
+
+  if (recordPath && cassette) {
+    await cassette.save();
+    console.log(`Recorded cassette to ${recordPath}`);
+  }
+  if (replayPath && cassette) {
+    // Reads may be polled fewer times; a missing write is a real difference
+    const missing = cassette
+      .unplayed()
+      .filter((entry) => entry.kind.startsWith("storage."));
+    for (const entry of missing) {
+      console.error(
+        `Not replayed: ${entry.kind} ${JSON.stringify(entry.request)}`,
+      );
+    }
+    if (result.status !== "complete" || missing.length > 0) {
+      throw new Error(`Replay of ${replayPath} does not match the recording`);
+    }
+    console.log(`Replay matches ${replayPath}`);
+  }
 }
 
 run().catch((err) => {
@@ -0,0 +1,83 @@
+// path: scripts/worker.ts
+/* eslint-disable no-console */
+/**
+ * Job queue worker: claims rows from `job_queue` and runs them in this process,
+ * and dispatches the `outbox` (which is how most jobs get enqueued).
+ *
+ *   npx tsx scripts/worker.ts
+ *
+ * Needs the server env (SUPABASE_URL, SUPABASE_SERVICE_ROLE, ...). Point
+ * SUPABASE_URL at `supabase start` (http://127.0.0.1:54321) to work against
+ * the local Postgres. Tuning: WORKER_CONCURRENCY, WORKER_POLL_MS,
+ * WORKER_VISIBILITY_MS. Set OUTBOX_DISPATCH=false when another process
+ * dispatches the outbox.
+ *
+ * Ctrl+C / SIGTERM stops claiming and waits for running jobs; a second signal
+ * exits immediately and the jobs are redelivered after the visibility timeout.
+ */
+import { getServiceSupabase } from "../lib/auth";
+import { ORCHESTRATION_JOB, runOrchestrationJob } from "../lib/orchestrations";
+import {
+  OutboxDispatcher,
+  OutboxStore,
+  createOutboxHandlers,
+} from "../lib/outbox";
+import { JobQueue } from "../lib/queue";
+import { QueueWorker } from "../lib/worker";
+
+function intFromEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const value = Number.parseInt(raw, 10);
+  if (!Number.isFinite(value)) throw new Error(`${name} must be an integer`);
+  return value;
+}
+
+async function run() {
+  const supabase = getServiceSupabase();
+  const worker = new QueueWorker(
+    new JobQueue(supabase),
+    {
+      [ORCHESTRATION_JOB]: (job) =>
+        runOrchestrationJob(job.payload, {
+          redelivered: job.attempts > 1,
+          supabase,
+        }),
+    },
+    {
+      concurrency: intFromEnv("WORKER_CONCURRENCY"),
+      pollIntervalMs: intFromEnv("WORKER_POLL_MS"),
+      visibilityTimeoutMs: intFromEnv("WORKER_VISIBILITY_MS"),
+    },
+  );
+
+  const dispatcher =
+    process.env.OUTBOX_DISPATCH === "false"
+      ? null
+      : new OutboxDispatcher(
+          new OutboxStore(supabase),
+          createOutboxHandlers(supabase),
+          { pollIntervalMs: intFromEnv("WORKER_POLL_MS") },
+        );
+
+  let signals = 0;
+  const shutdown = () => {
+    signals++;
+    if (signals > 1) {
+      console.log("Exiting without waiting for running jobs");
+      process.exit(1);
+    }
+    console.log("Stopping… (again to exit now)");
+    worker.stop();
+    dispatcher?.stop();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  await Promise.all([worker.start(), dispatcher?.start()]);
+}
+
+run().catch((err) => {
+  console.error("Worker failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,297 @@
+// path: server/trpc/orchestrations.router.ts
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "./_trpc";
+import {
+  OrchestrationError,
+  SupabaseRepository,
+  describeQuotaViolation,
+  findQuotaViolation,
+  requestStop,
+  type NodeResultRecord,
+  type NodeStatus,
+  type OrchestrationId,
+  type OrchestrationRecord,
+  type IdempotencyKey,
+  type Repository,
+  type StopAction,
+  type UserId,
+} from "../../engine/OrchestrationEngine";
+import { ProfileInputSchema } from "../../nodes/profile.normalize";
+import {
+  loadRunBlueprint,
+  migrationBaseline,
+  orchestrationRunMessage,
+  toRunInput,
+} from "../../lib/orchestrations";
+
+/**
+ * Start, read and control a user's orchestrations.
+ * Runs execute in a background job (see lib/orchestrations.ts); requests only
+ * persist state, with the job enqueue recorded in the same transaction. Stopping is persisted too and the engine picks it
+ * up at its next status poll. "pause" keeps the checkpoint so the run can be
+ * retried later, "cancel" is final.
+ */
+
+const IdInput = z.object({ id: z.string().min(1) });
+
+const StopInput = IdInput.extend({
+  reason: z.string().max(500).optional(),
+});
+
+const StartInput = z.object({
+  // Free text or a (partial) profile, as accepted by profile.normalize
+  input: ProfileInputSchema,
+  // Client-generated; repeating a start with the same key returns the same run
+  idempotencyKey: z.string().min(1).max(200),
+});
+
+// Only runs with a checkpoint to continue from can be retried
+const RETRYABLE = new Set(["failed", "paused", "partially_complete"]);
+
+// Plan persisted by the engine in orchestrations.metadata.batches
+const BatchesSchema = z.array(z.array(z.string()));
+
+export type TimelineNode = {
+  nodeId: string;
+  status: NodeStatus;
+  attempts: NodeResultRecord[];
+};
+
+export type TimelineBatch = { index: number; nodes: TimelineNode[] };
+
+async function getOwnOrchestration(
+  repository: Repository,
+  userId: string,
+  id: string,
+): Promise<OrchestrationRecord> {
+  const record = await repository.getOrchestration(id as OrchestrationId);
+  // Don't reveal whether another user's orchestration exists
+  if (!record || record.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND" });
+  }
+  return record;
+}
+
+/**
+ * Group node attempts by the batch that ran them; status is the latest attempt's.
+ * Children of map nodes (`db.schema[Todo]`) follow their parent.
+ */
+function buildTimeline(
+  record: OrchestrationRecord,
+  results: NodeResultRecord[],
+): TimelineBatch[] {
+  const byNode = new Map<string, NodeResultRecord[]>();
+  for (const r of results) {
+    byNode.set(r.nodeId, [...(byNode.get(r.nodeId) ?? []), r]);
+  }
+
+  // Runs created before batches were persisted get a single group
+  const planned = BatchesSchema.safeParse(record.metadata?.batches);
+  const batches = planned.success
+    ? planned.data
+    : [[...byNode.keys()].filter((id) => !id.includes("["))];
+
+  return batches.map((nodeIds, index) => ({
+    index,
+    nodes: nodeIds
+      .flatMap((nodeId) => [
+        nodeId,
+        ...[...byNode.keys()].filter((id) => id.startsWith(`${nodeId}[`)),
+      ])
+      .map((nodeId) => {
+        const attempts = byNode.get(nodeId) ?? [];
+        return {
+          nodeId,
+          status: attempts[attempts.length - 1]?.status ?? "pending",
+          attempts,
+        };
+      }),
+  }));
+}
+
+async function stopOwnOrchestration(
+  repository: Repository,
+  userId: string,
+  action: StopAction,
+  input: z.infer<typeof StopInput>,
+) {
+  const record = await getOwnOrchestration(repository, userId, input.id);
+
+  try {
+    const updated = await requestStop(
+      repository,
+      record.id,
+      action,
+      input.reason,
+    );
+    return { id: updated.id, status: updated.status };
+  } catch (error) {
+    if (error instanceof OrchestrationError && error.code === "INVALID_STATE") {
+      throw new TRPCError({ code: "CONFLICT", message: error.message });
+    }
+    throw error;
+  }
+}
+
+export const orchestrationsRouter = createTRPCRouter({
+  start: protectedProcedure
+    .input(StartInput)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.userId;
+      if (!userId) throw new Error("Unauthorized");
+      const repository = new SupabaseRepository(ctx.supabase);
+      const idempotencyKey = input.idempotencyKey as IdempotencyKey;
+
+      const existing = await repository.findOrchestrationByIdempotencyKey(
+        userId as UserId,
+        idempotencyKey,
+      );
+      if (existing) return { id: existing.id, status: existing.status };
+
+      const violation = findQuotaViolation(
+        await repository.getUsage(userId as UserId),
+      );
+      if (violation) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: describeQuotaViolation(violation),
+        });
+      }
+
+      // db.schema reads the baseline's artifacts; only the user's own runs qualify
+      const baseline = migrationBaseline(input.input);
+      if (baseline) await getOwnOrchestration(repository, userId, baseline);
+
+      const blueprint = await loadRunBlueprint();
+      const id = `orc_${randomUUID()}` as OrchestrationId;
+      await repository.createOrchestration({
+        id,
+        userId: userId as UserId,
+        blueprintId: blueprint.id,
+        idempotencyKey,
+        metadata: { input: toRunInput(input.input) },
+        correlationId: id,
+        outbox: [orchestrationRunMessage(id, "start")],
+      });
+
+      // A concurrent start with the same key may have won the insert
+      const record = await repository.findOrchestrationByIdempotencyKey(
+        userId as UserId,
+        idempotencyKey,
+      );
+      if (!record) throw new Error(`Failed to create orchestration ${id}`);
+      return { id: record.id, status: record.status };
+    }),
+
+  list: protectedProcedure
+    .input(
+      z.object({
+        limit: z.number().int().min(1).max(100).default(20),
+        before: z.date().optional(), // createdAt of the last item seen
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.userId;
+      if (!userId) throw new Error("Unauthorized");
+      const repository = new SupabaseRepository(ctx.supabase);
+      const records = await repository.listOrchestrations(userId as UserId, {
+        limit: input.limit,
+        before: input.before,
+      });
+      const items = records.map(({ metadata: _metadata, ...rest }) => rest);
+      return {
+        items,
+        nextCursor:
+          items.length === input.limit
+            ? items[items.length - 1]!.createdAt
+            : undefined,
+      };
+    }),
+
+  get: protectedProcedure.input(IdInput).query(async ({ ctx, input }) => {
+    const userId = ctx.userId;
+    if (!userId) throw new Error("Unauthorized");
+    const repository = new SupabaseRepository(ctx.supabase);
+    const record = await getOwnOrchestration(repository, userId, input.id);
+    const results = await repository.listNodeResults(record.id);
+    const { metadata: _metadata, ...orchestration } = record;
+    return { orchestration, timeline: buildTimeline(record, results) };
+  }),
+
+  artifacts: protectedProcedure.input(IdInput).query(async ({ ctx, input }) => {
+    const userId = ctx.userId;
+    if (!userId) throw new Error("Unauthorized");
+    const repository = new SupabaseRepository(ctx.supabase);
+    const record = await getOwnOrchestration(repository, userId, input.id);
+    return repository.listArtifacts(record.id);
+  }),
+
+  // Signed on demand so URLs don't expire while the page sits open
+  signArtifact: protectedProcedure
+    .input(IdInput.extend({ path: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.userId;
+      if (!userId) throw new Error("Unauthorized");
+      const repository = new SupabaseRepository(ctx.supabase);
+      const record = await getOwnOrchestration(repository, userId, input.id);
+      const artifacts = await repository.listArtifacts(record.id);
+      const artifact = artifacts.find((a) => a.path === input.path);
+      if (!artifact) throw new TRPCError({ code: "NOT_FOUND" });
+      return { url: await repository.signArtifact(artifact) };
+    }),
+
+  cancel: protectedProcedure
+    .input(StopInput)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.userId;
+      if (!userId) throw new Error("Unauthorized");
+      return stopOwnOrchestration(
+        new SupabaseRepository(ctx.supabase),
+        userId,
+        "cancel",
+        input,
+      );
+    }),
+
+  retry: protectedProcedure.input(IdInput).mutation(async ({ ctx, input }) => {
+    const userId = ctx.userId;
+    if (!userId) throw new Error("Unauthorized");
+    const repository = new SupabaseRepository(ctx.supabase);
+    const record = await getOwnOrchestration(repository, userId, input.id);
+    if (!RETRYABLE.has(record.status)) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: `Only failed, paused or partially complete orchestrations can be retried (status: ${record.status})`,
+      });
+    }
+
+    // Completed nodes are skipped: the job resumes from the checkpoint and
+    // re-runs failed nodes (and what was skipped because of them)
+    await repository.updateStatus(record.id, "pending", "Retry requested", [
+      orchestrationRunMessage(record.id, `retry:${randomUUID()}`),
+    ]);
+    return { id: record.id, status: "pending" as const };
+  }),
+
+  pause: protectedProcedure
+    .input(StopInput)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.userId;
+      if (!userId) throw new Error("Unauthorized");
+      return stopOwnOrchestration(
+        new SupabaseRepository(ctx.supabase),
+        userId,
+        "pause",
+        input,
+      );
+    }),
+});
+
+// To merge, add to server/trpc/router.ts:
+//   import { orchestrationsRouter } from "./orchestrations.router"; // hygen:routers-import
+//   export const appRouter = createTRPCRouter({
+//     health: healthRouter,
+//     orchestrations: orchestrationsRouter,                       // hygen:routers-merge
+//   });
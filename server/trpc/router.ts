@@ -4,6 +4,8 @@ import { createTRPCRouter, publicProcedure } from "./_trpc";
 // hygen:routers-import
 import { uploadsRouter } from "./uploads.router";
 import { embeddingsRouter } from "./embeddings.router";
+import { orchestrationsRouter } from "./orchestrations.router";
+import { usageRouter } from "./usage.router";
 
 const healthRouter = createTRPCRouter({
   ping: publicProcedure.query(() => "pong"),
@@ -13,6 +15,8 @@ export const appRouter = createTRPCRouter({
   health: healthRouter,
   uploads: uploadsRouter, // hygen:routers-merge
   embeddings: embeddingsRouter, // hygen:routers-merge
+  orchestrations: orchestrationsRouter, // hygen:routers-merge
+  usage: usageRouter, // hygen:routers-merge
 });
 
 export type AppRouter = typeof appRouter;
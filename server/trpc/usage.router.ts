@@ -0,0 +1,59 @@
+// path: server/trpc/usage.router.ts
+import { createTRPCRouter, protectedProcedure } from "./_trpc";
+import {
+  SupabaseRepository,
+  findQuotaViolation,
+  type UsageLimits,
+  type UsageTotals,
+  type UserId,
+} from "../../engine/OrchestrationEngine";
+
+/**
+ * The signed-in user's consumption against their plan's quotas.
+ * Days and months are UTC, matching how usage_aggregates is keyed.
+ */
+
+export type UsageMeter = {
+  metric: keyof UsageTotals;
+  used: number;
+  // null when the plan has no limit for this metric
+  limit: number | null;
+  remaining: number | null;
+};
+
+function toMeters(used: UsageTotals, limits: UsageLimits): UsageMeter[] {
+  return (["runs", "tokens", "usdCents"] as const).map((metric) => {
+    const limit = limits[metric];
+    return {
+      metric,
+      used: used[metric],
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - used[metric]),
+    };
+  });
+}
+
+export const usageRouter = createTRPCRouter({
+  summary: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.userId;
+    if (!userId) throw new Error("Unauthorized");
+    const repository = new SupabaseRepository(ctx.supabase);
+    const usage = await repository.getUsage(userId as UserId);
+    return {
+      plan: { id: usage.plan.id, name: usage.plan.name },
+      day: usage.day,
+      month: usage.month,
+      daily: toMeters(usage.daily, usage.plan.daily),
+      monthly: toMeters(usage.monthly, usage.plan.monthly),
+      // Set when new runs are refused
+      exceeded: findQuotaViolation(usage),
+    };
+  }),
+});
+
+// To merge, add to server/trpc/router.ts:
+//   import { usageRouter } from "./usage.router"; // hygen:routers-import
+//   export const appRouter = createTRPCRouter({
+//     health: healthRouter,
+//     usage: usageRouter,                       // hygen:routers-merge
+//   });
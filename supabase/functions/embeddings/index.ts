@@ -1,6 +1,8 @@
 // path: edge-functions/embeddings/index.ts
 // Deno Edge Function: embeddings
 // Splits text, calls provider embeddings, upserts into pgvector, and broadcasts completion.
+// The completion broadcast goes through the outbox (0005_outbox.sql): it is
+// recorded in the same transaction as the upsert and delivered by the dispatcher.
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 type Payload = {
@@ -86,26 +88,30 @@ Deno.serve(async (req: { json: () => Promise<any> }) => {
   const mean = acc.map((x) => x / (vectors.length || 1));
 
   // Upsert into the provided table (expects vectorColumn and contentColumn)
-  const { error } = await supa
-    .from(table)
-    .upsert([{ id: jobId, [contentColumn]: text, [vectorColumn]: mean }], {
-      onConflict: "id",
-    });
-  const ok = !error;
-
-  // Broadcast completion
-  try {
-    const ch = supa.channel("lesiab:embeddings");
-    await ch.send({ type: "broadcast", event: "done", payload: { jobId, ok } });
-    try {
-      await ch.unsubscribe();
-    } catch {}
-  } catch {}
+  // and record the completion broadcast atomically
+  const { error } = await supa.rpc("write_with_outbox", {
+    p_table: table,
+    p_op: "upsert",
+    p_row: { id: jobId, [contentColumn]: text, [vectorColumn]: mean },
+    p_key: ["id"],
+    p_outbox: [
+      {
+        kind: "realtime",
+        unique_key: `embeddings:${jobId}:done`,
+        payload: {
+          entity: "embeddings",
+          event: "done",
+          payload: { jobId, ok: true },
+        },
+      },
+    ],
+  });
 
-  const body = ok
-    ? { ok: true, jobId }
-    : { ok: false, error: String(error?.message || "upsert failed"), jobId };
+  const body = error
+    ? { ok: false, error: String(error.message || "upsert failed"), jobId }
+    : { ok: true, jobId };
   return new Response(JSON.stringify(body), {
+    status: error ? 500 : 200,
     headers: { "content-type": "application/json" },
   });
 });
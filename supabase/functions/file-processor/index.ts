@@ -1,28 +1,31 @@
 // path: edge-functions/file-processor/index.ts
 // Deno Edge Function: file processor (placeholder).
 // Expects JSON: { jobId?: string, path?: string }
+// The "processed" broadcast is recorded in the outbox and delivered by the dispatcher.
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 Deno.serve(async (req: { json: () => Promise<any> }) => {
   const { jobId, path } = await req.json().catch(() => ({}));
   // TODO: fetch file from Storage and process; for MVP we ack and broadcast only.
-  try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const serviceRole = Deno.env.get("SUPABASE_SERVICE_ROLE")!;
-    const supa = createClient(supabaseUrl, serviceRole, {
-      auth: { persistSession: false },
-    });
-    const ch = supa.channel("lesiab:file");
-    await ch.send({
-      type: "broadcast",
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const serviceRole = Deno.env.get("SUPABASE_SERVICE_ROLE")!;
+  const supa = createClient(supabaseUrl, serviceRole, {
+    auth: { persistSession: false },
+  });
+  const { error } = await supa.rpc("record_outbox", {
+    p_kind: "realtime",
+    p_payload: {
+      entity: "file",
       event: "processed",
       payload: { jobId: jobId ?? null, path: path ?? null },
-    });
-    try {
-      await ch.unsubscribe();
-    } catch {}
-  } catch {
-    // ignore broadcast errors in MVP
+    },
+    p_unique_key: `file:${jobId ?? crypto.randomUUID()}:processed`,
+  });
+  if (error) {
+    return new Response(
+      JSON.stringify({ ok: false, error: error.message, jobId: jobId ?? null }),
+      { status: 500, headers: { "content-type": "application/json" } },
+    );
   }
   return new Response(JSON.stringify({ ok: true, jobId: jobId ?? null }), {
     headers: { "content-type": "application/json" },
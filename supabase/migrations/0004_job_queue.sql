@@ -0,0 +1,80 @@
+-- Background job queue (see lib/queue.ts and scripts/worker.ts)
+-- Jobs move pending -> running -> complete; failures go back to pending with
+-- a later run_at until max_attempts is reached, then to 'dead'.
+-- A running job whose lock is older than the visibility timeout is assumed to
+-- belong to a crashed worker and can be claimed again.
+
+create table if not exists job_queue (
+  id uuid default gen_random_uuid() primary key,
+  job_name text not null,
+  payload jsonb not null default '{}'::jsonb,
+  orchestration_id text,
+  run_at timestamptz not null default now(),
+  status text not null default 'pending'
+    check (status in ('pending', 'running', 'complete', 'dead')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  locked_by text,
+  locked_at timestamptz,
+  priority integer not null default 0,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_queue_status_run
+  on job_queue(status, run_at);
+create index if not exists idx_job_queue_orchestration
+  on job_queue(orchestration_id);
+
+-- Service role only: no policies, so anon/authenticated see nothing
+alter table job_queue enable row level security;
+
+-- Claim up to p_limit due jobs for p_worker. Concurrent workers never claim
+-- the same row thanks to FOR UPDATE SKIP LOCKED.
+create or replace function claim_jobs(
+  p_worker text,
+  p_limit integer default 1,
+  p_visibility_seconds integer default 60
+)
+returns setof job_queue
+language plpgsql
+as $$
+begin
+  -- Expired locks on jobs that used their last attempt are dead-lettered
+  -- instead of being handed out again
+  update job_queue
+     set status = 'dead',
+         last_error = coalesce(last_error, 'Visibility timeout exceeded'),
+         locked_by = null,
+         locked_at = null,
+         updated_at = now()
+   where status = 'running'
+     and locked_at < now() - make_interval(secs => p_visibility_seconds)
+     and attempts >= max_attempts;
+
+  return query
+  with next_jobs as (
+    select id
+      from job_queue
+     where (status = 'pending' and run_at <= now())
+        or (status = 'running'
+            and locked_at < now() - make_interval(secs => p_visibility_seconds))
+     order by priority desc, run_at
+     limit p_limit
+     for update skip locked
+  )
+  update job_queue j
+     set status = 'running',
+         attempts = j.attempts + 1,
+         locked_by = p_worker,
+         locked_at = now(),
+         updated_at = now()
+    from next_jobs
+   where j.id = next_jobs.id
+  returning j.*;
+end
+$$;
+
+revoke execute on function claim_jobs(text, integer, integer)
+  from public, anon, authenticated;
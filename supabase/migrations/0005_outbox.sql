@@ -0,0 +1,140 @@
+-- Transactional outbox (see lib/outbox.ts)
+-- Side effects (webhooks, realtime broadcasts, job enqueues) are inserted in
+-- the same transaction as the state change that causes them, then delivered
+-- at least once by the dispatcher. unique_key deduplicates both recording and
+-- delivery.
+
+create table if not exists outbox (
+  id uuid default gen_random_uuid() primary key,
+  kind text not null check (kind in ('webhook', 'realtime', 'job')),
+  payload jsonb not null,
+  unique_key text not null unique,
+  attempts integer not null default 0,
+  max_attempts integer not null default 10,
+  next_attempt_at timestamptz not null default now(),
+  locked_by text,
+  locked_at timestamptz,
+  last_error text,
+  processed_at timestamptz,
+  -- Set when the message is dead-lettered
+  failed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_outbox_due
+  on outbox(next_attempt_at)
+  where processed_at is null and failed_at is null;
+
+alter table outbox enable row level security;
+
+-- Jobs enqueued from the outbox are deduplicated on the message key
+alter table job_queue add column if not exists dedupe_key text unique;
+
+-- Record a message from SQL (functions, triggers); duplicates are ignored
+create or replace function record_outbox(
+  p_kind text,
+  p_payload jsonb,
+  p_unique_key text
+)
+returns void
+language sql
+as $$
+  insert into outbox (kind, payload, unique_key)
+  values (p_kind, p_payload, p_unique_key)
+  on conflict (unique_key) do nothing;
+$$;
+
+-- Apply one row change and record its outbox messages atomically.
+--   p_op:     'insert' | 'upsert' | 'update'
+--   p_row:    column -> value; only the given columns are written
+--   p_key:    conflict target for upserts, match columns for updates
+--   p_outbox: [{ kind, payload, unique_key }]
+create or replace function write_with_outbox(
+  p_table text,
+  p_op text,
+  p_row jsonb,
+  p_key text[] default array['id'],
+  p_outbox jsonb default '[]'::jsonb
+)
+returns void
+language plpgsql
+as $$
+declare
+  cols text;
+  sets text;
+  matches text;
+begin
+  select string_agg(quote_ident(k), ', ') into cols
+    from jsonb_object_keys(p_row) as c(k);
+
+  if p_op = 'insert' or p_op = 'upsert' then
+    if p_op = 'upsert' then
+      select string_agg(format('%I = excluded.%I', k, k), ', ') into sets
+        from jsonb_object_keys(p_row) as c(k)
+       where k <> all (p_key);
+    end if;
+    execute format(
+      'insert into %I (%s) select %s from jsonb_populate_record(null::%I, $1)%s',
+      p_table, cols, cols, p_table,
+      case when p_op = 'upsert' then format(
+        ' on conflict (%s) do %s',
+        (select string_agg(quote_ident(k), ', ') from unnest(p_key) as u(k)),
+        case when sets is null then 'nothing' else 'update set ' || sets end
+      ) else '' end
+    ) using p_row;
+  elsif p_op = 'update' then
+    select string_agg(format('t.%I = r.%I', k, k), ' and ') into matches
+      from unnest(p_key) as u(k);
+    execute format(
+      'update %I t set (%s) = (select %s from jsonb_populate_record(null::%I, $1)) '
+      || 'from jsonb_populate_record(null::%I, $1) r where %s',
+      p_table, cols, cols, p_table, p_table, matches
+    ) using p_row;
+  else
+    raise exception 'write_with_outbox: unknown op %', p_op;
+  end if;
+
+  insert into outbox (kind, payload, unique_key)
+  select m->>'kind', m->'payload', m->>'unique_key'
+    from jsonb_array_elements(p_outbox) as m
+  on conflict (unique_key) do nothing;
+end
+$$;
+
+-- Claim due messages for a dispatcher; a lock older than p_lock_seconds
+-- belongs to a crashed dispatcher and is taken over.
+create or replace function claim_outbox(
+  p_worker text,
+  p_limit integer default 20,
+  p_lock_seconds integer default 60
+)
+returns setof outbox
+language sql
+as $$
+  with next_messages as (
+    select id
+      from outbox
+     where processed_at is null
+       and failed_at is null
+       and next_attempt_at <= now()
+       and (locked_at is null
+            or locked_at < now() - make_interval(secs => p_lock_seconds))
+     order by next_attempt_at
+     limit p_limit
+     for update skip locked
+  )
+  update outbox o
+     set attempts = o.attempts + 1,
+         locked_by = p_worker,
+         locked_at = now()
+    from next_messages
+   where o.id = next_messages.id
+  returning o.*;
+$$;
+
+revoke execute on function record_outbox(text, jsonb, text)
+  from public, anon, authenticated;
+revoke execute on function write_with_outbox(text, text, jsonb, text[], jsonb)
+  from public, anon, authenticated;
+revoke execute on function claim_outbox(text, integer, integer)
+  from public, anon, authenticated;
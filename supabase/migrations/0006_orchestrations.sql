@@ -0,0 +1,105 @@
+-- Orchestration engine tables (see SupabaseRepository in
+-- engine/OrchestrationEngine.ts). Runs are written by the service role; users
+-- read their own rows through the policies in 0007_orchestrations_rls.sql.
+-- user_id is the Supabase auth user, so it is a uuid comparable with auth.uid().
+
+create table if not exists orchestrations (
+  id text primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  blueprint_id text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'running', 'complete', 'failed', 'paused', 'cancelled')),
+  status_reason text,
+  checkpoint jsonb,
+  plan_hash text,
+  idempotency_key text,
+  correlation_id text,
+  metadata jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, idempotency_key)
+);
+
+create index if not exists idx_orchestrations_user_status
+  on orchestrations(user_id, status);
+create index if not exists idx_orchestrations_user_created
+  on orchestrations(user_id, created_at desc);
+
+-- One row per node attempt
+create table if not exists orchestration_nodes (
+  id uuid default gen_random_uuid() primary key,
+  orchestration_id text not null references orchestrations(id) on delete cascade,
+  node_id text not null,
+  status text not null
+    check (status in ('pending', 'running', 'complete', 'failed', 'skipped')),
+  attempt_no integer not null default 1,
+  started_at timestamptz,
+  finished_at timestamptz,
+  output_ref jsonb,
+  error jsonb,
+  correlation_id text,
+  cache_key text,
+  artifacts jsonb,
+  created_at timestamptz not null default now(),
+  unique (orchestration_id, node_id, attempt_no)
+);
+
+create index if not exists idx_nodes_orchestration
+  on orchestration_nodes(orchestration_id);
+-- Node cache lookups (findCachedNode)
+create index if not exists idx_nodes_cache_key
+  on orchestration_nodes(node_id, cache_key, finished_at desc)
+  where status = 'complete';
+
+-- Storage references for files written by a run
+create table if not exists artifacts (
+  id uuid default gen_random_uuid() primary key,
+  orchestration_id text not null references orchestrations(id) on delete cascade,
+  path text not null,
+  kind text,
+  bytes integer,
+  created_at timestamptz not null default now(),
+  unique (orchestration_id, path)
+);
+
+-- Daily usage per user, read by checkQuota (UTC days)
+create table if not exists usage_aggregates (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  day date not null,
+  orchestrations_started integer not null default 0,
+  tokens_used integer not null default 0,
+  usd_spent numeric(10, 2) not null default 0,
+  correlation_id text,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, day)
+);
+
+-- Every new run counts towards its owner's daily quota. A duplicate insert
+-- (same id or idempotency key) fails before the trigger fires, so retries of
+-- the same request are counted once.
+create or replace function count_orchestration_start()
+returns trigger
+language plpgsql
+as $$
+begin
+  insert into usage_aggregates (user_id, day, orchestrations_started, updated_at)
+  values (new.user_id, (new.created_at at time zone 'utc')::date, 1, now())
+  on conflict (user_id, day) do update
+    set orchestrations_started = usage_aggregates.orchestrations_started + 1,
+        updated_at = now();
+  return new;
+end
+$$;
+
+drop trigger if exists orchestrations_count_start on orchestrations;
+create trigger orchestrations_count_start
+  after insert on orchestrations
+  for each row execute function count_orchestration_start();
+
+revoke execute on function count_orchestration_start()
+  from public, anon, authenticated;
+
+-- Private bucket for run artifacts (SupabaseStorageAdapter); service role only
+insert into storage.buckets (id, name, public)
+values ('artifacts', 'artifacts', false)
+on conflict (id) do nothing;
@@ -0,0 +1,37 @@
+-- Row Level Security for the engine tables (0006_orchestrations.sql)
+-- Users may read their own runs, node results, artifacts and usage. There are
+-- no write policies: the engine and the tRPC routers write with the service
+-- role, which bypasses RLS. job_queue and outbox keep RLS without policies.
+
+alter table orchestrations enable row level security;
+alter table orchestration_nodes enable row level security;
+alter table artifacts enable row level security;
+alter table usage_aggregates enable row level security;
+
+drop policy if exists orchestrations_owner_read on orchestrations;
+create policy orchestrations_owner_read on orchestrations
+  for select to authenticated
+  using (user_id = (select auth.uid()));
+
+drop policy if exists orchestration_nodes_owner_read on orchestration_nodes;
+create policy orchestration_nodes_owner_read on orchestration_nodes
+  for select to authenticated
+  using (exists (
+    select 1 from orchestrations o
+     where o.id = orchestration_nodes.orchestration_id
+       and o.user_id = (select auth.uid())
+  ));
+
+drop policy if exists artifacts_owner_read on artifacts;
+create policy artifacts_owner_read on artifacts
+  for select to authenticated
+  using (exists (
+    select 1 from orchestrations o
+     where o.id = artifacts.orchestration_id
+       and o.user_id = (select auth.uid())
+  ));
+
+drop policy if exists usage_aggregates_owner_read on usage_aggregates;
+create policy usage_aggregates_owner_read on usage_aggregates
+  for select to authenticated
+  using (user_id = (select auth.uid()));
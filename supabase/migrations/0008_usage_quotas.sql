@@ -0,0 +1,111 @@
+-- Per-plan quotas and atomic usage accounting (see getUsage/trackUsage in
+-- SupabaseRepository). Limits are per UTC day and month; null is unlimited.
+-- Users without a user_plans row are on the default plan.
+
+create table if not exists quota_plans (
+  id text primary key,
+  name text not null,
+  daily_runs integer,
+  daily_tokens bigint,
+  daily_usd numeric(12, 4),
+  monthly_runs integer,
+  monthly_tokens bigint,
+  monthly_usd numeric(12, 4),
+  is_default boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_quota_plans_default
+  on quota_plans(is_default) where is_default;
+
+-- The free plan matches DEFAULT_QUOTA_PLAN in the engine
+insert into quota_plans
+  (id, name, daily_runs, daily_tokens, daily_usd,
+   monthly_runs, monthly_tokens, monthly_usd, is_default)
+values
+  ('free', 'Free', 10, 500000, 5, 100, 5000000, 20, true),
+  ('pro', 'Pro', 50, 5000000, 50, 1000, 50000000, 200, false)
+on conflict (id) do nothing;
+
+create table if not exists user_plans (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  plan_id text not null references quota_plans(id),
+  updated_at timestamptz not null default now()
+);
+
+-- Large runs overflow integer tokens; fractions of a cent add up
+alter table usage_aggregates alter column tokens_used type bigint;
+alter table usage_aggregates alter column usd_spent type numeric(12, 4);
+
+-- Add to a user's daily totals; concurrent calls never lose an update
+create or replace function increment_usage(
+  p_user_id uuid,
+  p_day date,
+  p_runs integer default 0,
+  p_tokens bigint default 0,
+  p_usd numeric default 0,
+  p_correlation_id text default null
+)
+returns void
+language sql
+as $$
+  insert into usage_aggregates as u
+    (user_id, day, orchestrations_started, tokens_used, usd_spent,
+     correlation_id, updated_at)
+  values
+    (p_user_id, p_day, p_runs, p_tokens, p_usd, p_correlation_id, now())
+  on conflict (user_id, day) do update
+    set orchestrations_started = u.orchestrations_started + excluded.orchestrations_started,
+        tokens_used = u.tokens_used + excluded.tokens_used,
+        usd_spent = u.usd_spent + excluded.usd_spent,
+        correlation_id = coalesce(excluded.correlation_id, u.correlation_id),
+        updated_at = now();
+$$;
+
+-- Same behaviour as 0006, through increment_usage()
+create or replace function count_orchestration_start()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform increment_usage(
+    new.user_id,
+    (new.created_at at time zone 'utc')::date,
+    1
+  );
+  return new;
+end
+$$;
+
+-- The user's plan, or the default plan
+create or replace function quota_plan_for(p_user_id uuid)
+returns setof quota_plans
+language sql
+stable
+as $$
+  select p.*
+    from quota_plans p
+    left join user_plans up
+      on up.plan_id = p.id and up.user_id = p_user_id
+   where up.user_id is not null or p.is_default
+   order by up.user_id is not null desc
+   limit 1;
+$$;
+
+alter table quota_plans enable row level security;
+alter table user_plans enable row level security;
+
+drop policy if exists quota_plans_read on quota_plans;
+create policy quota_plans_read on quota_plans
+  for select to authenticated
+  using (true);
+
+drop policy if exists user_plans_owner_read on user_plans;
+create policy user_plans_owner_read on user_plans
+  for select to authenticated
+  using (user_id = (select auth.uid()));
+
+revoke execute on function increment_usage(uuid, date, integer, bigint, numeric, text)
+  from public, anon, authenticated;
+revoke execute on function quota_plan_for(uuid)
+  from public, anon, authenticated;
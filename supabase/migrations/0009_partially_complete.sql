@@ -0,0 +1,14 @@
+-- Runs whose failed nodes were tolerated by a failure policy (see
+-- FailurePolicy in engine/OrchestrationEngine.ts) finish as
+-- 'partially_complete'. The check from 0006 is the inline column check, so
+-- it carries Postgres' default name.
+
+alter table orchestrations
+  drop constraint if exists orchestrations_status_check;
+
+alter table orchestrations
+  add constraint orchestrations_status_check
+  check (status in (
+    'pending', 'running', 'complete', 'failed', 'paused', 'cancelled',
+    'partially_complete'
+  ));